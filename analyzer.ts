@@ -2,441 +2,758 @@ import {
   SchemeId,
   SCons,
   Frame,
-  SchemeBuiltin,
   SchemeClosure,
+  SchemeProcedure,
   SchemeType,
-  Thunk,
-  trampoline,
+  Code,
+  Cont,
+  resume,
 } from "./types";
-
-//
-// Helper functions
-//
-function safeCar(s: SchemeType): SchemeType {
-  if (s instanceof SCons) {
-    return s.car;
-  } else {
-    throw new Error("car: Expected cons.");
-  }
-}
-
-function safeCdr(s: SchemeType): SchemeType {
-  if (s instanceof SCons) {
-    return s.cdr;
-  } else {
-    throw new Error("cdr: Expected cons.");
-  }
+import { SourceSpan, annotate, spanOf } from "./source";
+import { sexpToStr } from "./printer";
+import { execute, guard, invoke, raise } from "./control";
+import { isEqv } from "./builtins";
+import { Scope, stripSyntax } from "./syntax";
+import {
+  LetForm,
+  SchemeExpander,
+  carIsId,
+  isDerivedForm,
+  isSelfEvaluating,
+  quasiquoteTemplate,
+  safeCar,
+  safeCdr,
+  safeId,
+} from "./expander";
+
+// Walks up `hops` frames
+function ancestor(frame: Frame, hops: number): Frame {
+  for (let i = 0; i < hops; i++) frame = frame.parent as Frame;
+  return frame;
 }
 
-function safeId(s: SchemeType): SchemeId {
-  if (s instanceof SchemeId) {
-    return s;
-  } else {
-    throw new Error("id: Expected identifier.");
-  }
+// A new frame of size slots, the first ones holding values
+function enter(parent: Frame, size: number, values: SchemeType[]): Frame {
+  const frame = new Frame(parent, size);
+  values.forEach((value, i) => (frame.slots[i] = value));
+  return frame;
 }
 
-function carIsId(sexp: SchemeType, id: string): boolean {
-  return (
-    sexp instanceof SCons && sexp.car instanceof SchemeId && sexp.car.id === id
-  );
+// Code that needs no continuation: it can't call procedures or capture
+// continuations, so it just returns its value
+type Direct = (frame: Frame) => SchemeType;
+
+// Evaluates a list of expressions left to right, then passes their values
+// to `then`
+type Operands = (
+  frame: Frame,
+  then: (values: SchemeType[]) => SchemeType,
+) => SchemeType;
+
+// Runs codes in order, passing the last one's value to k
+function sequence(codes: Code[]): Code {
+  return codes
+    .slice(0, -1)
+    .reduceRight(
+      (rest: Code, code: Code): Code =>
+        (frame, k) =>
+          code(frame, () => rest(frame, k)),
+      codes[codes.length - 1],
+    );
 }
 
 //
-// S-expression printing
+// Scheme Analyzer
 //
-function printListTail(sexp: SchemeType): string {
-  if (sexp === null) {
-    return "";
-  } else if (sexp instanceof SCons) {
-    const rest = printListTail(sexp.cdr);
-    if (rest === "") {
-      return " " + sexpToStr(sexp.car);
-    } else {
-      return " " + sexpToStr(sexp.car) + rest;
-    }
-  } else {
-    return " . " + sexpToStr(sexp);
+// Turns expanded forms into closures in continuation-passing style.
+//
+export class SchemeAnalyzer extends SchemeExpander {
+  // Public API: returns a function that runs the code to completion
+  analyzeSexp(sexp: SchemeType, env: Frame): (frame: Frame) => SchemeType {
+    this.env = env;
+    const analyzed = this.analyze(sexp, this.globalScope(env), false);
+    return (frame: Frame) => execute((k) => analyzed(frame, k));
   }
-}
 
-export function sexpToStr(sexp: SchemeType): string {
-  if (sexp instanceof SchemeId) {
-    return sexp.id;
-  } else if (sexp instanceof SCons) {
-    return "(" + sexpToStr(sexp.car) + printListTail(sexp.cdr) + ")";
-  } else if (typeof sexp === "number") {
-    return sexp.toString();
-  } else if (typeof sexp === "string") {
-    return `"${sexp}"`;
-  } else if (typeof sexp === "boolean") {
-    return sexp ? "#t" : "#f";
-  } else if (sexp === null) {
-    return "()";
-  } else if (sexp instanceof SchemeClosure) {
-    return "#<closure>";
-  } else if (sexp instanceof SchemeBuiltin) {
-    return "#<builtin>";
-  } else if (sexp instanceof Thunk) {
-    return "#<thunk>";
-  } else {
-    throw new Error(`Unexpected type B: ${typeof sexp}`);
+  // Internal: tracks tail position, which decides whether calls replace the
+  // caller's frame on the shadow call stack
+  private analyze(sexp: SchemeType, scope: Scope, tail: boolean): Code {
+    const direct = this.analyzeDirect(sexp, scope);
+    if (direct !== null) {
+      return (frame: Frame, k: Cont) => resume(k, direct(frame));
+    }
+    if (sexp instanceof SCons) {
+      try {
+        return this.analyzeForm(sexp, scope, tail);
+      } catch (error) {
+        // Syntax errors are reported at the innermost enclosing form
+        throw annotate(error, spanOf(sexp));
+      }
+    } else {
+      console.log("Unexpected type A:", typeof sexp);
+      throw new Error(`Unexpected type: ${typeof sexp}`);
+    }
   }
-}
 
-//
-// Scheme Analyzer
-//
-export class SchemeAnalyzer {
-  private macros = new Map<string, SchemeType>();
-
-  private expandMacrosSexp(sexp: SchemeType): [SchemeType, boolean] {
-    if (!(sexp instanceof SCons)) {
-      return [sexp, false];
+  // Variables, literals, quote and lambda evaluate without a continuation.
+  // Returns null for everything else.
+  private analyzeDirect(sexp: SchemeType, scope: Scope): Direct | null {
+    if (sexp instanceof SchemeId) {
+      return this.analyzeVariable(sexp, scope);
+    } else if (isSelfEvaluating(sexp)) {
+      const datum = stripSyntax(sexp);
+      return () => datum;
     }
+    const form = this.specialForm(sexp, scope);
+    if (form === "quote" || form === "lambda") {
+      try {
+        if (form === "quote") {
+          const quoted = stripSyntax(safeCar(safeCdr(sexp)));
+          return () => quoted;
+        }
+        return this.analyzeLambda(safeCdr(sexp) as SCons, scope);
+      } catch (error) {
+        throw annotate(error, spanOf(sexp));
+      }
+    }
+    return null;
+  }
 
-    // Don't expand inside quoted or quasiquoted forms
-    if (
-      sexp.car instanceof SchemeId &&
-      (sexp.car.id === "quote" || sexp.car.id === "quasiquote")
+  private analyzeForm(sexp: SCons, scope: Scope, tail: boolean): Code {
+    const expanded = this.expandMacroUse(sexp, scope);
+    if (expanded !== null) return this.analyze(expanded, scope, tail);
+    const form = this.specialForm(sexp, scope);
+    if (form === "define") {
+      return this.analyzeDefine(sexp.cdr as SCons, scope);
+    } else if (form === "set!") {
+      return this.analyzeSet(sexp.cdr as SCons, scope);
+    } else if (form === "or") {
+      return this.analyzeOr(sexp.cdr, scope, tail);
+    } else if (form === "and") {
+      return this.analyzeAnd(sexp.cdr, scope, tail);
+    } else if (form === "if") {
+      return this.analyzeIf(sexp.cdr as SCons, scope, tail);
+    } else if (form === "define-macro") {
+      return this.analyzeDefineMacro(sexp.cdr as SCons, scope);
+    } else if (form === "quasiquote") {
+      return this.analyzeQuasiquote((sexp.cdr as SCons).car, scope);
+    } else if (form === "guard") {
+      return this.analyzeGuard(safeCdr(sexp), scope, tail);
+    } else if (form === "define-syntax") {
+      return this.analyzeDefineSyntax(sexp.cdr as SCons, scope);
+    } else if (form === "let-syntax" || form === "letrec-syntax") {
+      return this.analyzeLetSyntax(
+        sexp.cdr as SCons,
+        scope,
+        tail,
+        form === "letrec-syntax",
+      );
+    } else if (form === "syntax-rules") {
+      throw new Error("syntax-rules: Only valid as a macro transformer.");
+    } else if (form === "begin") {
+      return this.analyzeBegin(sexp.cdr, scope, tail);
+    } else if (form === "cond") {
+      return this.analyzeCondClauses(
+        "cond",
+        sexp.cdr,
+        scope,
+        tail,
+        (frame, k) => resume(k, false),
+      );
+    } else if (form === "case") {
+      return this.analyzeCase(sexp.cdr, scope, tail);
+    } else if (form === "when" || form === "unless") {
+      return this.analyzeWhen(sexp.cdr, form, scope, tail);
+    } else if (form === "do") {
+      return this.analyzeDo(sexp.cdr, scope, tail);
+    } else if (isDerivedForm(form)) {
+      return this.analyze(this.derivedForm(sexp, form as string), scope, tail);
+    } else if (
+      form === "let" ||
+      form === "let*" ||
+      form === "letrec" ||
+      form === "letrec*"
     ) {
-      return [sexp, false];
+      return this.analyzeLetForm(sexp, form, scope, tail);
+    } else {
+      return this.analyzeApplication(sexp, scope, tail);
     }
+  }
 
-    // Check if this is a macro invocation
-    if (sexp.car instanceof SchemeId && this.macros.has(sexp.car.id)) {
-      const transformer = this.macros.get(sexp.car.id)!;
-      if (transformer instanceof SchemeClosure) {
-        const args = sexp.cdr === null ? [] : [...(sexp.cdr as SCons)];
-        return [transformer.eval(args), true];
-      }
-    }
+  //
+  // Macros
+  //
 
-    // Recursively expand car and cdr
-    const [newCar, carChanged] = this.expandMacrosSexp(sexp.car);
-    const [newCdr, cdrChanged] = this.expandMacrosSexp(sexp.cdr);
-    if (carChanged || cdrChanged) {
-      return [new SCons(newCar, newCdr), true];
-    }
-    return [sexp, false];
+  // sexp is (name (syntax-rules ...))
+  private analyzeDefineSyntax(sexp: SCons, scope: Scope): Code {
+    const name = this.defineSyntax(sexp, scope);
+    return (frame: Frame, k: Cont) => resume(k, name);
   }
 
-  expandMacros(sexp: SchemeType, env: Frame): SchemeType {
-    let current = sexp;
-    while (true) {
-      const [expanded, changed] = this.expandMacrosSexp(current);
-      if (!changed) return current;
-      if (env.lookup("*show-me*") == true) {
-        console.log("macro expansion:", sexpToStr(expanded));
-      }
-      current = expanded;
-    }
+  // sexp is (((name (syntax-rules ...))...) body...)
+  private analyzeLetSyntax(
+    sexp: SCons,
+    scope: Scope,
+    tail: boolean,
+    recursive: boolean,
+  ): Code {
+    const bodyScope = this.letSyntaxScope(sexp.car, scope, recursive);
+    return this.analyzeBody(sexp.cdr as SCons, bodyScope, tail);
   }
 
-  // Public API: returns a function that evaluates to SchemeType (trampolines internally)
-  analyzeSexp(sexp: SchemeType): (frame: Frame) => SchemeType {
-    const analyzed = this.analyze(sexp, false);
-    return (frame: Frame) => trampoline(analyzed(frame));
+  // sexp is ((name args...) body...)
+  private analyzeDefineMacro(sexp: SCons, scope: Scope): Code {
+    const name = this.defineMacro(sexp, scope);
+    return (frame: Frame, k: Cont) => resume(k, name);
   }
 
-  // Internal: tracks tail position, may return Thunk for tail calls
-  private analyze(sexp: SchemeType, tail: boolean): (frame: Frame) => SchemeType {
-    if (sexp instanceof SchemeId) {
+  protected makeTransformer(
+    lambdaSexp: SCons,
+    scope: Scope,
+    env: Frame,
+  ): SchemeProcedure {
+    return this.analyzeLambda(lambdaSexp, scope)(env) as SchemeProcedure;
+  }
+
+  //
+  // Variables
+  //
+
+  private analyzeVariable(id: SchemeId, scope: Scope): Direct {
+    const location = this.locate(id, scope);
+    const span = spanOf(id);
+    if ("name" in location) {
+      const name = location.name;
       return (frame: Frame) => {
-        if (frame.findFrame(sexp.id) === null)
-          throw new Error(`Unbound variable: ${sexp.id}`);
-        return frame.lookup(sexp.id);
+        const value = frame.global.lookup(name);
+        if (value === null && frame.global.findFrame(name) === null)
+          throw annotate(new Error(`Unbound variable: ${id.id}`), span);
+        return value;
       };
-    } else if (
-      typeof sexp === "number" ||
-      typeof sexp === "string" ||
-      typeof sexp === "boolean" ||
-      sexp === null
-    ) {
-      return () => sexp;
-    } else if (sexp instanceof SCons) {
-      if (carIsId(sexp, "quote")) {
-        const quoted = (sexp.cdr as SCons).car;
-        return () => quoted;
-      } else if (carIsId(sexp, "lambda")) {
-        return this.analyzeLambda(sexp.cdr as SCons);
-      } else if (carIsId(sexp, "define")) {
-        return this.analyzeDefine(sexp.cdr as SCons);
-      } else if (carIsId(sexp, "set!")) {
-        return this.analyzeSet(sexp.cdr as SCons);
-      } else if (carIsId(sexp, "or")) {
-        return this.analyzeOr(sexp.cdr, tail);
-      } else if (carIsId(sexp, "and")) {
-        return this.analyzeAnd(sexp.cdr, tail);
-      } else if (carIsId(sexp, "if")) {
-        return this.analyzeIf(sexp.cdr as SCons, tail);
-      } else if (carIsId(sexp, "define-macro")) {
-        return this.analyzeDefineMacro(sexp.cdr as SCons);
-      } else if (carIsId(sexp, "quasiquote")) {
-        return this.analyzeQuasiquote((sexp.cdr as SCons).car);
-      } else {
-        return this.analyzeApplication(sexp, tail);
-      }
-    } else {
-      console.log("Unexpected type A:", typeof sexp);
-      throw new Error(`Unexpected type: ${typeof sexp}`);
     }
+    const { hops, index } = location;
+    return (frame: Frame) => {
+      const value = ancestor(frame, hops).slots[index];
+      // Internal definitions are unassigned until they run
+      if (value === undefined)
+        throw annotate(new Error(`Unbound variable: ${id.id}`), span);
+      return value;
+    };
   }
 
-  private analyzeDefine(sexp: SCons): (frame: Frame) => SchemeType {
-    let id: string;
-    let val: (frame: Frame) => SchemeType;
+  private analyzeDefine(sexp: SCons, scope: Scope): Code {
+    let id: SchemeId;
+    let val: Code;
     if (sexp.car instanceof SCons) {
       // sexp is like ((funcname arg1 arg2) body)
-      id = safeId(safeCar(sexp.car)).id;
+      id = safeId(safeCar(sexp.car));
       const lambdaSexp = new SCons(safeCdr(sexp.car), sexp.cdr);
-      val = this.analyzeLambda(lambdaSexp);
+      const lambda = this.analyzeLambda(lambdaSexp, scope);
+      val = (frame, k) => k(lambda(frame));
     } else {
-      id = safeId(sexp.car).id;
-      val = this.analyze(safeCar(sexp.cdr), false);
+      id = safeId(sexp.car);
+      val = this.analyze(safeCar(sexp.cdr), scope, false);
     }
-    return (frame: Frame) => {
-      frame.set(id, trampoline(val(frame)));
-      return new SchemeId(id);
-    };
+    const binding = this.definitionBinding(id, scope);
+    // Definitions go in the current frame, or the global one at top level
+    const store: (frame: Frame, value: SchemeType) => void =
+      binding.kind === "local"
+        ? (frame, value) => {
+            frame.slots[binding.index] = value;
+          }
+        : (frame, value) => frame.global.set(binding.name, value);
+    return (frame: Frame, k: Cont) =>
+      val(frame, (value) => {
+        if (value instanceof SchemeClosure && value.name === null) {
+          value.name = id.id;
+        }
+        store(frame, value);
+        return resume(k, SchemeId.of(id.id));
+      });
   }
 
-  private analyzeSet(sexp: SCons): (frame: Frame) => SchemeType {
+  private analyzeSet(sexp: SCons, scope: Scope): Code {
     // sexp is (id value)
-    const id = safeId(sexp.car).id;
-    const val = this.analyze(safeCar(sexp.cdr), false);
-    return (frame: Frame) => {
-      const targetFrame = frame.findFrame(id);
-      if (targetFrame === null) {
-        throw new Error(`set!: Unbound variable: ${id}`);
-      }
-      const result = trampoline(val(frame));
-      targetFrame.set(id, result);
-      return result;
+    const id = safeId(sexp.car);
+    const location = this.locate(id, scope);
+    const val = this.analyze(safeCar(sexp.cdr), scope, false);
+    const span = spanOf(sexp.car);
+    const unbound = () =>
+      annotate(new Error(`set!: Unbound variable: ${id.id}`), span);
+    if ("name" in location) {
+      const name = location.name;
+      return (frame: Frame, k: Cont) => {
+        const targetFrame = frame.global.findFrame(name);
+        if (targetFrame === null) throw unbound();
+        return val(frame, (result) => {
+          targetFrame.set(name, result);
+          return resume(k, result);
+        });
+      };
+    }
+    const { hops, index } = location;
+    return (frame: Frame, k: Cont) => {
+      const targetFrame = ancestor(frame, hops);
+      if (targetFrame.slots[index] === undefined) throw unbound();
+      return val(frame, (result) => {
+        targetFrame.slots[index] = result;
+        return resume(k, result);
+      });
     };
   }
 
-  private analyzeDefineMacro(sexp: SCons): (frame: Frame) => SchemeType {
-    // sexp is ((name args...) body...)
-    const id = safeId(safeCar(sexp.car)).id;
-    const lambdaSexp = new SCons(safeCdr(sexp.car), sexp.cdr);
-    const val = this.analyzeLambda(lambdaSexp);
-    return (frame: Frame) => {
-      this.macros.set(id, trampoline(val(frame)));
-      return new SchemeId(id);
-    };
+  //
+  // Procedures
+  //
+  private analyzeApplication(sexp: SCons, scope: Scope, tail: boolean): Code {
+    const operatorDirect = this.analyzeDirect(sexp.car, scope);
+    const operator = this.analyze(sexp.car, scope, false);
+    const operands = this.analyzeOperands(
+      sexp.cdr instanceof SCons ? [...sexp.cdr] : [],
+      scope,
+    );
+    const span = spanOf(sexp);
+
+    if (operatorDirect !== null) {
+      return (frame: Frame, k: Cont) => {
+        const func = operatorDirect(frame);
+        return operands(frame, (args) => invoke(func, args, k, span, tail));
+      };
+    }
+    return (frame: Frame, k: Cont) =>
+      operator(frame, (func) =>
+        operands(frame, (args) => invoke(func, args, k, span, tail)),
+      );
   }
 
-  private analyzeApplication(
-    sexp: SCons,
-    tail: boolean,
-  ): (frame: Frame) => SchemeType {
-    const operator = this.analyze(sexp.car, false);
-    let operands: ((frame: Frame) => SchemeType)[] = [];
+  private analyzeOperands(sexps: SchemeType[], scope: Scope): Operands {
+    const count = sexps.length;
+    const directs = sexps.map((s) => this.analyzeDirect(s, scope));
+    const codes = sexps.map((s, i) =>
+      directs[i] === null ? this.analyze(s, scope, false) : null,
+    );
 
-    if (sexp.cdr instanceof SCons) {
-      operands = [...(sexp.cdr as SCons)].map((s) => this.analyze(s, false));
+    if (directs.every((direct) => direct !== null)) {
+      return (frame, then) => {
+        const values: SchemeType[] = new Array(count);
+        for (let i = 0; i < count; i++) values[i] = directs[i]!(frame);
+        return then(values);
+      };
     }
 
-    return (frame: Frame) => {
-      const func = trampoline(operator(frame));
-      const args = operands.map((operand) => trampoline(operand(frame)));
-
-      if (func instanceof SchemeBuiltin) {
-        return func.eval(args);
-      } else if (func instanceof SchemeClosure) {
-        if (tail) {
-          // Tail call: return thunk for trampoline
-          return func.evalTail(args);
-        } else {
-          // Non-tail call: evaluate fully
-          return func.eval(args);
+    return (frame, then) => {
+      const evaluateFrom = (values: SchemeType[], start: number): SchemeType => {
+        for (let i = start; i < count; i++) {
+          const direct = directs[i];
+          if (direct !== null) {
+            values[i] = direct(frame);
+            continue;
+          }
+          const index = i;
+          let entered = false;
+          return codes[index]!(frame, (value) => {
+            // A re-entered continuation must not disturb the values array
+            // an earlier pass already handed on
+            const current = entered ? values.slice() : values;
+            entered = true;
+            current[index] = value;
+            return evaluateFrom(current, index + 1);
+          });
         }
-      } else {
-        throw new Error(`Not a function: ${func}`);
-      }
+        return then(values);
+      };
+      return evaluateFrom(new Array(count), 0);
     };
   }
 
-  // Sexp is of the form (arg1 arg2 ... argn [ . rest ])
-  private getLambdaArgs(sexpArgs: SCons): [string[], string | null] {
-    const args = [];
-    let rest = null;
-    let sexp: SchemeType = sexpArgs;
-    while (sexp != null) {
-      if (sexp instanceof SCons) {
-        args.push(safeId(sexp.car).id);
-        sexp = sexp.cdr;
-      } else {
-        rest = safeId(sexp).id;
-        break;
-      }
-    }
-    return [args, rest];
-  }
-
   // Assumes sexp is of the form ((arg1 arg2 ...) body)
-  private analyzeLambda(sexp: SCons): (frame: Frame) => SchemeType {
-    const [paramNames, restName] = this.getLambdaArgs(sexp.car as SCons);
+  private analyzeLambda(sexp: SCons, scope: Scope): Direct {
+    const bodyScope = new Scope(scope, true);
+    const [paramNames, restName] = this.bindLambdaArgs(sexp.car, bodyScope);
 
     const body = sexp.cdr as SCons;
 
     // Assumes body is of the form (expr1 expr2 ...))
     // The last expression in the body is in tail position
-    const bodyFunc = this.analyzeBody(body, true);
+    const bodyFunc = this.analyzeBody(body, bodyScope, true);
+    // Slots for the arguments and the body's definitions
+    const frameSize = bodyScope.size;
 
     return (frame: Frame) => {
-      return new SchemeClosure(paramNames, restName, bodyFunc, frame);
+      return new SchemeClosure(paramNames, restName, frameSize, bodyFunc, frame);
     };
   }
 
+  //
+  // Control
+  //
+
   // sexp is of the form (expr1 expr2 ...)
-  private analyzeOr(sexp: SchemeType, tail: boolean): (frame: Frame) => SchemeType {
+  private analyzeOr(sexp: SchemeType, scope: Scope, tail: boolean): Code {
     if (sexp === null) {
-      return () => false;
+      return (frame: Frame, k: Cont) => resume(k, false);
     }
     const formsList = [...(sexp as SCons)];
     // All but last are not in tail position, last one is
     const forms = formsList.map((s, i) =>
-      this.analyze(s, tail && i === formsList.length - 1),
+      this.analyze(s, scope, tail && i === formsList.length - 1),
+    );
+    return forms.slice(0, -1).reduceRight(
+      (rest: Code, form: Code): Code =>
+        (frame, k) =>
+          form(frame, (result) =>
+            result !== false ? resume(k, result) : rest(frame, k),
+          ),
+      forms[forms.length - 1],
     );
-    return (frame: Frame) => {
-      for (let i = 0; i < forms.length - 1; i++) {
-        const result = trampoline(forms[i](frame));
-        if (result !== false) return result;
-      }
-      // Last form: return its result directly (may be a Thunk if tail)
-      return forms[forms.length - 1](frame);
-    };
   }
 
-  private analyzeAnd(sexp: SchemeType, tail: boolean): (frame: Frame) => SchemeType {
+  private analyzeAnd(sexp: SchemeType, scope: Scope, tail: boolean): Code {
     if (sexp === null) {
-      return () => true;
+      return (frame: Frame, k: Cont) => resume(k, true);
     }
     const formsList = [...(sexp as SCons)];
     // All but last are not in tail position, last one is
     const forms = formsList.map((s, i) =>
-      this.analyze(s, tail && i === formsList.length - 1),
+      this.analyze(s, scope, tail && i === formsList.length - 1),
+    );
+    return forms.slice(0, -1).reduceRight(
+      (rest: Code, form: Code): Code =>
+        (frame, k) =>
+          form(frame, (result) =>
+            result === false ? resume(k, false) : rest(frame, k),
+          ),
+      forms[forms.length - 1],
     );
-    return (frame: Frame) => {
-      for (let i = 0; i < forms.length - 1; i++) {
-        const result = trampoline(forms[i](frame));
-        if (result === false) return false;
-      }
-      // Last form: return its result directly (may be a Thunk if tail)
-      return forms[forms.length - 1](frame);
-    };
   }
 
-  private analyzeIf(sexp: SCons, tail: boolean): (frame: Frame) => SchemeType {
-    const condition = this.analyze(sexp.car, false);
-    const consequent = this.analyze(safeCar(sexp.cdr), tail);
+  private analyzeIf(sexp: SCons, scope: Scope, tail: boolean): Code {
+    const conditionDirect = this.analyzeDirect(sexp.car, scope);
+    const condition = this.analyze(sexp.car, scope, false);
+    const consequent = this.analyze(safeCar(sexp.cdr), scope, tail);
     const altSexp = safeCdr(sexp.cdr);
-    const alternative =
-      altSexp !== null ? this.analyzeBody(altSexp as SCons, tail) : null;
-    return (frame: Frame) => {
-      if (trampoline(condition(frame)) !== false) {
-        return consequent(frame);
-      } else {
-        return alternative !== null ? alternative(frame) : false;
-      }
-    };
+    const alternative: Code =
+      altSexp !== null
+        ? this.analyzeSequence(altSexp as SCons, scope, tail)
+        : (frame, k) => resume(k, false);
+    if (conditionDirect !== null) {
+      return (frame: Frame, k: Cont) =>
+        conditionDirect(frame) !== false
+          ? consequent(frame, k)
+          : alternative(frame, k);
+    }
+    return (frame: Frame, k: Cont) =>
+      condition(frame, (test) =>
+        test !== false ? consequent(frame, k) : alternative(frame, k),
+      );
   }
 
-  private analyzeQuasiquote(sexp: SchemeType): (frame: Frame) => SchemeType {
-    // Atoms are returned as-is (like quote)
-    if (!(sexp instanceof SCons)) {
-      return () => sexp;
+  // sexp is ((var clause...) body...)
+  private analyzeGuard(sexp: SchemeType, scope: Scope, tail: boolean): Code {
+    const spec = safeCar(sexp);
+    if (!(spec instanceof SCons) || !(spec.car instanceof SchemeId)) {
+      throw new Error("guard: Expected (guard (var clause...) body...).");
     }
+    const clauseScope = new Scope(scope, true);
+    // The condition is in slot 0 of the clauses' frame
+    this.bindVariable(spec.car, clauseScope);
+    // The body isn't in tail position: the guard stays installed around it
+    const body = this.analyzeBody(safeCdr(sexp) as SCons, scope, false);
+    // With no matching clause, re-raise to the handlers outside the guard
+    const clauses = this.analyzeCondClauses(
+      "guard",
+      spec.cdr,
+      clauseScope,
+      tail,
+      (frame, k) => raise(frame.slots[0], true, k),
+    );
+    const frameSize = clauseScope.size;
+    return (frame: Frame, k: Cont) =>
+      guard(
+        (bodyK) => body(frame, bodyK),
+        (condition, clauseK) => {
+          const clauseFrame = new Frame(frame, frameSize);
+          clauseFrame.slots[0] = condition;
+          return clauses(clauseFrame, clauseK);
+        },
+        k,
+      );
+  }
 
-    // (unquote expr) - evaluate expr (not in tail position)
-    if (carIsId(sexp, "unquote")) {
-      const inner = this.analyze(safeCar(sexp.cdr), false);
-      return (frame: Frame) => trampoline(inner(frame));
+  // Clauses of the form (test expr...), (test => receiver), (test) or
+  // (else expr...), tried in order.  fallback runs if none match.  form
+  // names the cond or guard form the clauses are in, for errors.
+  private analyzeCondClauses(
+    form: string,
+    clauses: SchemeType,
+    scope: Scope,
+    tail: boolean,
+    fallback: Code,
+  ): Code {
+    if (clauses === null) return fallback;
+    const clause = safeCar(clauses);
+    if (!(clause instanceof SCons)) {
+      throw new Error(`${form}: Malformed clause: ${sexpToStr(clause)}`);
+    }
+    if (carIsId(clause, "else")) {
+      if (safeCdr(clauses) !== null) {
+        throw new Error(`${form}: else clause must be last.`);
+      } else if (clause.cdr === null) {
+        throw new Error(`${form}: Malformed clause: ${sexpToStr(clause)}`);
+      }
+      return this.analyzeSequence(clause.cdr as SCons, scope, tail);
     }
+    const rest = this.analyzeCondClauses(
+      form,
+      safeCdr(clauses),
+      scope,
+      tail,
+      fallback,
+    );
+    const test = this.analyze(clause.car, scope, false);
+    if (clause.cdr === null) {
+      return (frame: Frame, k: Cont) =>
+        test(frame, (value) =>
+          value !== false ? resume(k, value) : rest(frame, k),
+        );
+    }
+    if (carIsId(clause.cdr, "=>")) {
+      const receiverSexp = safeCdr(clause.cdr);
+      if (!(receiverSexp instanceof SCons) || receiverSexp.cdr !== null) {
+        throw new Error(
+          `${form}: => must be followed by exactly one expression.`,
+        );
+      }
+      const receiver = this.analyze(receiverSexp.car, scope, false);
+      const span = spanOf(clause);
+      return (frame: Frame, k: Cont) =>
+        test(frame, (value) =>
+          value === false
+            ? rest(frame, k)
+            : receiver(frame, (func) => invoke(func, [value], k, span, tail)),
+        );
+    }
+    const body = this.analyzeSequence(clause.cdr as SCons, scope, tail);
+    return (frame: Frame, k: Cont) =>
+      test(frame, (value) => (value !== false ? body(frame, k) : rest(frame, k)));
+  }
 
-    // (unquote-splicing expr) at top level is an error
-    if (carIsId(sexp, "unquote-splicing")) {
-      throw new Error("unquote-splicing: not valid at top level of quasiquote");
+  //
+  // Local bindings
+  //
+  // Each let gets a frame of its own, like a procedure call but without a
+  // closure.  let* nests one frame per binding.
+  //
+  private analyzeLetForm(
+    sexp: SCons,
+    form: string,
+    scope: Scope,
+    tail: boolean,
+  ): Code {
+    const letForm = this.letForm(sexp.cdr, form);
+    const { ids, inits, body } = letForm;
+    if (letForm.name !== null) {
+      return this.analyzeNamedLet(letForm, spanOf(sexp), scope, tail);
+    } else if (form === "letrec" || form === "letrec*") {
+      return this.analyzeLetrec(letForm, scope, tail);
+    } else if (form === "let*") {
+      const nest = (i: number, scope: Scope): Code =>
+        this.analyzeLet(ids.slice(i, i + 1), inits.slice(i, i + 1), scope, (s) =>
+          i + 1 < ids.length ? nest(i + 1, s) : this.analyzeBody(body, s, tail),
+        );
+      return nest(0, scope);
     }
+    return this.analyzeLet(ids, inits, scope, (s) =>
+      this.analyzeBody(body, s, tail),
+    );
+  }
 
-    // It's a list - process each element, handling unquote-splicing
-    const elements: Array<{
-      isSplice: boolean;
-      func: (frame: Frame) => SchemeType;
-    }> = [];
-
-    let current: SchemeType = sexp;
-    while (current instanceof SCons) {
-      const elem = current.car;
-
-      if (carIsId(elem, "unquote-splicing")) {
-        // This element should be spliced
-        elements.push({
-          isSplice: true,
-          func: this.analyze(safeCar((elem as SCons).cdr), false),
-        });
-      } else {
-        // Regular element - recursively process with quasiquote
-        elements.push({
-          isSplice: false,
-          func: this.analyzeQuasiquote(elem),
+  // Evaluates inits in scope, then runs the body made by `analyzeBody` in a
+  // new frame with ids bound to their values
+  private analyzeLet(
+    ids: SchemeId[],
+    inits: SchemeType[],
+    scope: Scope,
+    analyzeBody: (scope: Scope) => Code,
+  ): Code {
+    const operands = this.analyzeOperands(inits, scope);
+    const letScope = new Scope(scope, true);
+    for (const id of ids) this.bindVariable(id, letScope);
+    const body = analyzeBody(letScope);
+    const frameSize = letScope.size;
+    return (frame: Frame, k: Cont) =>
+      operands(frame, (values) => body(enter(frame, frameSize, values), k));
+  }
+
+  // The bindings are unassigned until their inits run, in order, in the
+  // scope of all of them (letrec* semantics, for letrec too)
+  private analyzeLetrec(letForm: LetForm, scope: Scope, tail: boolean): Code {
+    const letScope = new Scope(scope, true);
+    // The bindings take the first slots
+    for (const id of letForm.ids) this.bindVariable(id, letScope);
+    const stores = letForm.inits.map((init, index): Code => {
+      const val = this.analyze(init, letScope, false);
+      const id = letForm.ids[index];
+      return (frame, k) =>
+        val(frame, (value) => {
+          if (value instanceof SchemeClosure && value.name === null) {
+            value.name = id.id;
+          }
+          frame.slots[index] = value;
+          return resume(k, value);
         });
-      }
+    });
+    const body = sequence([
+      ...stores,
+      this.analyzeBody(letForm.body, letScope, tail),
+    ]);
+    const frameSize = letScope.size;
+    return (frame: Frame, k: Cont) => body(new Frame(frame, frameSize), k);
+  }
+
+  // (let name ((id init)...) body...) calls a procedure bound to name in
+  // the body only.  The procedure's frame is also where the inits are
+  // evaluated, without name in scope.
+  private analyzeNamedLet(
+    letForm: LetForm,
+    span: SourceSpan | undefined,
+    scope: Scope,
+    tail: boolean,
+  ): Code {
+    const name = letForm.name as SchemeId;
+    const loopScope = new Scope(scope, true);
+    const operands = this.analyzeOperands(letForm.inits, loopScope);
+    const nameScope = new Scope(loopScope, false);
+    const { index } = this.bindVariable(name, nameScope) as { index: number };
+    const params = letForm.ids.reduceRight<SchemeType>(
+      (rest, id) => new SCons(id, rest),
+      null,
+    );
+    const lambda = this.analyzeLambda(new SCons(params, letForm.body), nameScope);
+    const frameSize = loopScope.size;
+    return (frame: Frame, k: Cont) => {
+      const loopFrame = new Frame(frame, frameSize);
+      const loop = lambda(loopFrame) as SchemeClosure;
+      loop.name = name.id;
+      loopFrame.slots[index] = loop;
+      return operands(loopFrame, (args) => invoke(loop, args, k, span, tail));
+    };
+  }
 
-      current = current.cdr;
+  // (begin) is #f, like the empty (if #f #f) it used to expand to
+  private analyzeBegin(sexp: SchemeType, scope: Scope, tail: boolean): Code {
+    if (sexp === null) {
+      return (frame: Frame, k: Cont) => resume(k, false);
     }
+    return this.analyzeSequence(sexp as SCons, scope, tail);
+  }
 
-    // Handle improper lists (dotted pairs)
-    const tailFunc = current !== null ? this.analyzeQuasiquote(current) : null;
+  // sexp is (test expr...).  when runs the exprs if test is true, unless
+  // if it is #f.  Otherwise the value is #f.
+  private analyzeWhen(
+    sexp: SchemeType,
+    form: string,
+    scope: Scope,
+    tail: boolean,
+  ): Code {
+    if (!(sexp instanceof SCons) || !(sexp.cdr instanceof SCons)) {
+      throw new Error(`${form}: Expected (${form} test expr...).`);
+    }
+    const test = this.analyze(sexp.car, scope, false);
+    const body = this.analyzeSequence(sexp.cdr, scope, tail);
+    const runOn = form === "when";
+    return (frame: Frame, k: Cont) =>
+      test(frame, (value) =>
+        (value !== false) === runOn ? body(frame, k) : resume(k, false),
+      );
+  }
 
-    return (frame: Frame) => {
-      // Collect all result elements, splicing where needed
-      const resultElements: SchemeType[] = [];
-
-      for (const { isSplice, func } of elements) {
-        const value = trampoline(func(frame));
-        if (isSplice) {
-          // Splice the list elements
-          if (value !== null && !(value instanceof SCons)) {
-            throw new Error("unquote-splicing: expected a list");
-          }
-          let list = value as SCons | null;
-          while (list !== null) {
-            resultElements.push(list.car);
-            list = list.cdr as SCons | null;
-          }
-        } else {
-          resultElements.push(value);
-        }
-      }
+  // sexp is (key clause...).  The first clause with a datum eqv? to the
+  // key runs; with no match the value is #f.
+  private analyzeCase(sexp: SchemeType, scope: Scope, tail: boolean): Code {
+    const clauses = this.caseClauses(sexp);
+    const key = this.analyze(safeCar(sexp), scope, false);
+    const bodies = clauses.map(({ body, receiver }) =>
+      receiver
+        ? this.analyze(body.car, scope, false)
+        : this.analyzeSequence(body, scope, tail),
+    );
+    return (frame: Frame, k: Cont) =>
+      key(frame, (value) => {
+        const index = clauses.findIndex(
+          ({ data }) => data === null || data.some((datum) => isEqv(datum, value)),
+        );
+        if (index < 0) return resume(k, false);
+        const { receiver, span } = clauses[index];
+        if (!receiver) return bodies[index](frame, k);
+        return bodies[index](frame, (func) =>
+          invoke(func, [value], k, span, tail),
+        );
+      });
+  }
 
-      // Build the cons list from the elements (right to left)
-      let result: SchemeType = tailFunc ? trampoline(tailFunc(frame)) : null;
-      for (let i = resultElements.length - 1; i >= 0; i--) {
-        result = new SCons(resultElements[i], result);
-      }
+  // Each iteration runs in a fresh frame, so closures made in one see that
+  // iteration's bindings.  The steps are evaluated in the old frame.
+  private analyzeDo(sexp: SchemeType, scope: Scope, tail: boolean): Code {
+    const doForm = this.doForm(sexp);
+    const inits = this.analyzeOperands(doForm.inits, scope);
+    const loopScope = new Scope(scope, true);
+    for (const id of doForm.ids) this.bindVariable(id, loopScope);
+    const test = this.analyze(doForm.test, loopScope, false);
+    const results: Code =
+      doForm.results !== null
+        ? this.analyzeSequence(doForm.results, loopScope, tail)
+        : (frame, k) => resume(k, false);
+    const commands = doForm.commands.map((command) =>
+      this.analyze(command, loopScope, false),
+    );
+    const steps = this.analyzeOperands(doForm.steps, loopScope);
+    const frameSize = loopScope.size;
+
+    const iterate: Code = (frame, k) =>
+      test(frame, (done) =>
+        done !== false ? results(frame, k) : next(frame, k),
+      );
+    const next = sequence([
+      ...commands,
+      (frame, k) =>
+        steps(frame, (values) =>
+          iterate(enter(frame.parent as Frame, frameSize, values), k),
+        ),
+    ]);
+    return (frame: Frame, k: Cont) =>
+      inits(frame, (values) => iterate(enter(frame, frameSize, values), k));
+  }
 
-      return result;
-    };
+  //
+  // Quasiquote
+  //
+  private analyzeQuasiquote(sexp: SchemeType, scope: Scope): Code {
+    const unquoted: SchemeType[] = [];
+    const build = quasiquoteTemplate(sexp, unquoted);
+    const evaluate = this.analyzeOperands(unquoted, scope);
+    return (frame: Frame, k: Cont) =>
+      evaluate(frame, (values) => resume(k, build(values)));
+  }
+
+  //
+  // Bodies
+  //
+
+  // A lambda, let, guard or let-syntax body
+  private analyzeBody(sexp: SCons, scope: Scope, tail: boolean): Code {
+    this.bindBodyDefinitions(sexp, scope);
+    return this.analyzeSequence(sexp, scope, tail);
   }
 
-  private analyzeBody(sexp: SCons, tail: boolean): (frame: Frame) => SchemeType {
+  private analyzeSequence(sexp: SCons, scope: Scope, tail: boolean): Code {
     const bodySexps = [...sexp];
 
     // All but last expression are not in tail position
-    const body = bodySexps.map((expr, i) =>
-      this.analyze(expr, tail && i === bodySexps.length - 1),
+    return sequence(
+      bodySexps.map((expr, i) =>
+        this.analyze(expr, scope, tail && i === bodySexps.length - 1),
+      ),
     );
-
-    return (frame: Frame) => {
-      // Execute all but the last, discarding results
-      for (let i = 0; i < body.length - 1; i++) {
-        trampoline(body[i](frame));
-      }
-      // Return the last expression's result (may be a Thunk if tail)
-      return body[body.length - 1](frame);
-    };
   }
 }
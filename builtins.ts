@@ -1,12 +1,901 @@
 import {
   SchemeId,
+  SchemeChar,
   SCons,
+  SchemeVector,
+  SchemeHashTable,
+  HashEntry,
+  SchemeRecordType,
+  SchemeRecord,
+  MutableString,
   Frame,
   SchemeBuiltin,
-  SchemeClosure,
+  SchemeControlBuiltin,
+  SchemeProcedure,
+  SchemeErrorObject,
   SchemeType,
+  isString,
+  stringValue,
+  stringCodePoints,
+  multipleValues,
+  valuesOf,
 } from "./types";
-import { sexpToStr } from "./analyzer";
+import { SourceSpan, annotate } from "./source";
+import { sexpToStr } from "./printer";
+import {
+  callWithCurrentContinuation,
+  dynamicWind,
+  invoke,
+  raise,
+  withExceptionHandler,
+} from "./control";
+import {
+  IntegerDivision,
+  SchemeNumber,
+  abs,
+  add,
+  compare,
+  denominator,
+  divide,
+  divideIntegers,
+  exact,
+  exactIntegerSqrt,
+  gcd,
+  inexact,
+  isExact,
+  isExactInteger,
+  isInteger,
+  isNumber,
+  isZero,
+  lcm,
+  multiply,
+  negate,
+  numberEqv,
+  numberToString,
+  numerator,
+  parseNumber,
+  round,
+  sqrt,
+  subtract,
+  toFloat,
+} from "./numbers";
+
+export function arrayToList(items: SchemeType[]): SchemeType {
+  return items.reduceRight(
+    (acc: SchemeType, item) => new SCons(item, acc),
+    null,
+  );
+}
+
+// Elements of a proper list
+function listToArray(name: string, list: SchemeType): SchemeType[] {
+  const items: SchemeType[] = [];
+  while (list instanceof SCons) {
+    items.push(list.car);
+    list = list.cdr;
+  }
+  if (list !== null) throw new Error(`${name}: Expected a list.`);
+  return items;
+}
+
+export function listToVector(list: SchemeType): SchemeVector {
+  return new SchemeVector(listToArray("list->vector", list));
+}
+
+// eqv?: the same object, or numbers with the same exactness and value
+export function isEqv(a: SchemeType, b: SchemeType): boolean {
+  return a === b || (isNumber(a) && isNumber(b) && numberEqv(a, b));
+}
+
+// equal?: eqv?, or pairs, vectors, strings, bytevectors and records with
+// equal? contents.  A pair of structures met again while comparing them is
+// taken to be equal, so that comparing cyclic structures terminates.
+export function isEqual(a: SchemeType, b: SchemeType): boolean {
+  const seen = new Map<object, Set<object>>();
+  // Whether a and b were already being compared, marking them if not
+  const revisit = (a: object, b: object): boolean => {
+    let partners = seen.get(a);
+    if (partners === undefined) seen.set(a, (partners = new Set()));
+    if (partners.has(b)) return true;
+    partners.add(b);
+    return false;
+  };
+  // Pairs of objects still to compare, kept off the JS stack so that deeply
+  // nested structures don't overflow it
+  const pending: [SchemeType, SchemeType][] = [[a, b]];
+  while (pending.length > 0) {
+    const [a, b] = pending.pop()!;
+    if (a instanceof SCons && b instanceof SCons) {
+      if (!revisit(a, b)) pending.push([a.cdr, b.cdr], [a.car, b.car]);
+      continue;
+    }
+    if (isEqv(a, b)) continue;
+    if (isString(a) && isString(b)) {
+      if (stringValue(a) !== stringValue(b)) return false;
+      continue;
+    }
+    if (a instanceof Uint8Array && b instanceof Uint8Array) {
+      if (a.length !== b.length || a.some((byte, i) => byte !== b[i])) {
+        return false;
+      }
+      continue;
+    }
+    let xs: SchemeType[];
+    let ys: SchemeType[];
+    if (a instanceof SchemeVector && b instanceof SchemeVector) {
+      [xs, ys] = [a.items, b.items];
+    } else if (
+      a instanceof SchemeRecord &&
+      b instanceof SchemeRecord &&
+      a.type === b.type
+    ) {
+      [xs, ys] = [a.values, b.values];
+    } else {
+      return false;
+    }
+    if (xs.length !== ys.length) return false;
+    if (revisit(a, b)) continue;
+    for (let i = xs.length - 1; i >= 0; i--) pending.push([xs[i], ys[i]]);
+  }
+  return true;
+}
+
+// (name obj list [compare]): the first pair of list whose car matches obj,
+// or for the association lists of assq and friends, the first pair in list
+// whose car matches.  Only member and assoc take a compare procedure.
+function listSearch(
+  name: string,
+  same: (a: SchemeType, b: SchemeType) => boolean,
+  association: boolean,
+): SchemeControlBuiltin {
+  const custom = same === isEqual;
+  return new SchemeControlBuiltin((args, k, callSite) => {
+    if (args.length < 2 || args.length > (custom ? 3 : 2))
+      throw new Error(
+        `${name}: Expected ${custom ? "two or three" : "two"} arguments.`,
+      );
+    const [obj, list, compare] = args;
+    const item = (pair: SCons): SchemeType => {
+      if (!association) return pair.car;
+      if (!(pair.car instanceof SCons))
+        throw new Error(`${name}: Expected an association list.`);
+      return pair.car.car;
+    };
+    const found = (pair: SCons) => (association ? pair.car : pair);
+    const end = (rest: SchemeType): SchemeType => {
+      if (rest !== null) throw new Error(`${name}: Expected a list.`);
+      return k(false);
+    };
+    if (compare === undefined) {
+      let rest = list;
+      for (; rest instanceof SCons; rest = rest.cdr) {
+        if (same(obj, item(rest))) return k(found(rest));
+      }
+      return end(rest);
+    }
+    const loop = (rest: SchemeType): SchemeType => {
+      if (!(rest instanceof SCons)) return end(rest);
+      return invoke(
+        compare,
+        [obj, item(rest)],
+        (result) => (result !== false ? k(found(rest)) : loop(rest.cdr)),
+        callSite,
+      );
+    };
+    return loop(list);
+  });
+}
+
+function checkNumbers(name: string, args: SchemeType[]): SchemeNumber[] {
+  for (const arg of args) {
+    if (!isNumber(arg)) throw new Error(`${name}: Expected a number.`);
+  }
+  return args as SchemeNumber[];
+}
+
+function checkIntegers(name: string, args: SchemeType[]): SchemeNumber[] {
+  for (const arg of args) {
+    if (!isNumber(arg) || !isInteger(arg))
+      throw new Error(`${name}: Expected an integer.`);
+  }
+  return args as SchemeNumber[];
+}
+
+// A builtin taking one number
+function unary(
+  name: string,
+  fn: (x: SchemeNumber) => SchemeType,
+): SchemeBuiltin {
+  return new SchemeBuiltin((args) => {
+    if (args.length !== 1) throw new Error(`${name}: Expected one argument.`);
+    return fn(checkNumbers(name, args)[0]);
+  });
+}
+
+function checkChars(name: string, args: SchemeType[]): SchemeChar[] {
+  for (const arg of args) {
+    if (!(arg instanceof SchemeChar))
+      throw new Error(`${name}: Expected a character.`);
+  }
+  return args as SchemeChar[];
+}
+
+function checkVector(name: string, arg: SchemeType): SchemeVector {
+  if (!(arg instanceof SchemeVector))
+    throw new Error(`${name}: Expected a vector.`);
+  return arg;
+}
+
+// An exact integer from 0 to last
+function checkIndex(name: string, arg: SchemeType, last: number): number {
+  if (typeof arg !== "number" || !Number.isInteger(arg))
+    throw new Error(`${name}: Expected an exact integer index.`);
+  if (arg < 0 || arg > last)
+    throw new Error(`${name}: Index out of range: ${arg}.`);
+  return arg;
+}
+
+// A new vector, string or bytevector of the given size, which must be an
+// exact non-negative integer.  Sizes the engine can't allocate are Scheme
+// errors rather than RangeErrors, so that guard can catch them.
+function allocate<T>(
+  name: string,
+  size: SchemeType,
+  make: (size: number) => T,
+): T {
+  if (typeof size !== "number" || !Number.isInteger(size) || size < 0)
+    throw new Error(`${name}: Expected a non-negative integer.`);
+  try {
+    return make(size);
+  } catch (error) {
+    if (!(error instanceof RangeError)) throw error;
+    throw new Error(`${name}: Size is too large: ${size}.`);
+  }
+}
+
+// The optional start and end arguments that follow the fixed ones, as in
+// (vector-copy vector [start [end]]), for a sequence of the given length
+function range(
+  name: string,
+  args: SchemeType[],
+  fixed: number,
+  length: number,
+): [number, number] {
+  if (args.length < fixed || args.length > fixed + 2)
+    throw new Error(`${name}: Expected ${fixed} to ${fixed + 2} arguments.`);
+  const [startArg, endArg] = args.slice(fixed);
+  const start = startArg === undefined ? 0 : checkIndex(name, startArg, length);
+  const end = endArg === undefined ? length : checkIndex(name, endArg, length);
+  if (start > end) throw new Error(`${name}: Start is after end.`);
+  return [start, end];
+}
+
+// The vector, then its range
+function vectorRange(
+  name: string,
+  args: SchemeType[],
+  fixed: number,
+): [SchemeVector, number, number] {
+  const vector = checkVector(name, args[0]);
+  return [vector, ...range(name, args, fixed, vector.items.length)];
+}
+
+function checkBytevector(name: string, arg: SchemeType): Uint8Array {
+  if (!(arg instanceof Uint8Array))
+    throw new Error(`${name}: Expected a bytevector.`);
+  return arg;
+}
+
+function checkByte(name: string, arg: SchemeType): number {
+  if (typeof arg !== "number" || !Number.isInteger(arg) || arg < 0 || arg > 255)
+    throw new Error(`${name}: Expected a byte.`);
+  return arg;
+}
+
+// The bytevector, then its range
+function bytevectorRange(
+  name: string,
+  args: SchemeType[],
+  fixed: number,
+): [Uint8Array, number, number] {
+  const bytes = checkBytevector(name, args[0]);
+  return [bytes, ...range(name, args, fixed, bytes.length)];
+}
+
+// Calls proc on the items at each index of the sequences, up to the
+// shortest one's length, in order, and passes the results to then
+function mapItems(
+  proc: SchemeType,
+  sequences: SchemeType[][],
+  callSite: SourceSpan | undefined,
+  then: (results: SchemeType[]) => SchemeType,
+): SchemeType {
+  const length = Math.min(...sequences.map((items) => items.length));
+  const results: SchemeType[] = [];
+  const loop = (i: number): SchemeType => {
+    if (i === length) return then(results.slice());
+    return invoke(
+      proc,
+      sequences.map((items) => items[i]),
+      (value) => {
+        results[i] = value;
+        return loop(i + 1);
+      },
+      callSite,
+    );
+  };
+  return loop(0);
+}
+
+// (name proc sequence...) as the procedure and the sequences' items
+function mapArguments(
+  name: string,
+  args: SchemeType[],
+  items: (arg: SchemeType) => SchemeType[],
+): [SchemeType, SchemeType[][]] {
+  if (args.length < 2)
+    throw new Error(`${name}: Expected at least two arguments.`);
+  return [args[0], args.slice(1).map(items)];
+}
+
+// Folds proc over the items at each of the indexes of the sequences, in
+// order, passing the value so far before the items or after them.  Passes
+// the final value to then.
+function foldItems(
+  proc: SchemeType,
+  sequences: SchemeType[][],
+  init: SchemeType,
+  indexes: number[],
+  valueFirst: boolean,
+  callSite: SourceSpan | undefined,
+  then: (result: SchemeType) => SchemeType,
+): SchemeType {
+  const loop = (i: number, value: SchemeType): SchemeType => {
+    if (i === indexes.length) return then(value);
+    const items = sequences.map((items) => items[indexes[i]]);
+    return invoke(
+      proc,
+      valueFirst ? [value, ...items] : [...items, value],
+      (result) => loop(i + 1, result),
+      callSite,
+    );
+  };
+  return loop(0, init);
+}
+
+// Keeps the items for which test passes its result to then as true, and
+// passes those to then.  Each decision is stored by index, like mapItems'
+// results, so re-entering a continuation captured in test redoes the
+// decisions from there on.
+function filterItems(
+  items: SchemeType[],
+  test: (item: SchemeType, then: (keep: boolean) => SchemeType) => SchemeType,
+  then: (kept: SchemeType[]) => SchemeType,
+): SchemeType {
+  const keeps: boolean[] = [];
+  const loop = (i: number): SchemeType => {
+    if (i === items.length) return then(items.filter((_, j) => keeps[j]));
+    return test(items[i], (keep) => {
+      keeps[i] = keep;
+      return loop(i + 1);
+    });
+  };
+  return loop(0);
+}
+
+// (name list k): the pair k cdrs into list
+function listTail(name: string, list: SchemeType, k: SchemeType): SchemeType {
+  if (typeof k !== "number" || !Number.isInteger(k) || k < 0)
+    throw new Error(`${name}: Expected an exact non-negative integer.`);
+  for (let i = 0; i < k; i++) {
+    if (!(list instanceof SCons))
+      throw new Error(`${name}: Index out of range: ${k}.`);
+    list = list.cdr;
+  }
+  return list;
+}
+
+// Merges two sorted arrays with the Scheme procedure less, taking from left
+// on ties, and passes the result to then.  The item taken after i from left
+// and j from right goes at index i + j, so re-entering a continuation
+// captured in less redoes the merge from there on.
+function mergeItems(
+  less: SchemeType,
+  left: SchemeType[],
+  right: SchemeType[],
+  callSite: SourceSpan | undefined,
+  then: (merged: SchemeType[]) => SchemeType,
+): SchemeType {
+  const merged: SchemeType[] = [];
+  const loop = (i: number, j: number): SchemeType => {
+    if (i === left.length || j === right.length) {
+      const done = merged.slice(0, i + j);
+      return then(done.concat(left.slice(i), right.slice(j)));
+    }
+    return invoke(
+      less,
+      [right[j], left[i]],
+      (result) => {
+        if (result !== false) {
+          merged[i + j] = right[j];
+          return loop(i, j + 1);
+        }
+        merged[i + j] = left[i];
+        return loop(i + 1, j);
+      },
+      callSite,
+    );
+  };
+  return loop(0, 0);
+}
+
+// Stable merge sort of items with the Scheme procedure less.  Runs of one
+// item are merged in pairs until one run is left, which is passed to then.
+// Like mergeItems, each merged run is stored by index so continuations can
+// be re-entered.
+function sortItems(
+  less: SchemeType,
+  items: SchemeType[],
+  callSite: SourceSpan | undefined,
+  then: (sorted: SchemeType[]) => SchemeType,
+): SchemeType {
+  const pass = (runs: SchemeType[][]): SchemeType => {
+    if (runs.length <= 1) return then(runs[0] ?? []);
+    const merged: SchemeType[][] = [];
+    const loop = (i: number): SchemeType => {
+      if (i >= runs.length) return pass(merged.slice(0, i / 2));
+      if (i + 1 === runs.length) {
+        merged[i / 2] = runs[i];
+        return pass(merged.slice(0, i / 2 + 1));
+      }
+      return mergeItems(less, runs[i], runs[i + 1], callSite, (run) => {
+        merged[i / 2] = run;
+        return loop(i + 2);
+      });
+    };
+    return loop(0);
+  };
+  return pass(items.map((item) => [item]));
+}
+
+// (receive-values form count rest? producer consumer): call-with-values for
+// receive, let-values and the like, which first checks that producer
+// returns count values, or at least count if rest? is true.  It isn't in
+// the environment: the expander quotes it into the forms it generates, so
+// user code can neither call nor redefine it.
+export const receiveValues = new SchemeControlBuiltin(
+  (args, k, callSite, tail) => {
+    const [form, count, rest, producer, consumer] = args as [
+      string,
+      number,
+      boolean,
+      SchemeType,
+      SchemeType,
+    ];
+    return invoke(
+      producer,
+      [],
+      (value) => {
+        const values = valuesOf(value);
+        if (rest ? values.length < count : values.length !== count) {
+          const expected = `${rest ? "at least " : ""}${count}`;
+          const error = new Error(
+            `${form}: Expected ${expected} value${count === 1 ? "" : "s"}, ` +
+              `got ${values.length}.`,
+          );
+          throw annotate(error, callSite);
+        }
+        return invoke(consumer, values, k, callSite, tail);
+      },
+      callSite,
+    );
+  },
+);
+
+// Items of a list or vector
+function sequenceItems(name: string, sequence: SchemeType): SchemeType[] {
+  if (sequence instanceof SchemeVector) return sequence.items;
+  if (sequence === null || sequence instanceof SCons)
+    return listToArray(name, sequence);
+  throw new Error(`${name}: Expected a list or vector.`);
+}
+
+// Suffixes of the char and string comparisons, as in char<? and
+// string-ci<?, and their tests of a comparison result
+const ORDERS: [string, (order: number) => boolean][] = [
+  ["=", (order) => order === 0],
+  ["<", (order) => order < 0],
+  [">", (order) => order > 0],
+  ["<=", (order) => order <= 0],
+  [">=", (order) => order >= 0],
+];
+
+// An optional radix argument: 2, 8, 10 or 16
+function checkRadix(name: string, arg: SchemeType | undefined): number {
+  if (arg === undefined) return 10;
+  if (arg !== 2 && arg !== 8 && arg !== 10 && arg !== 16)
+    throw new Error(`${name}: Expected a radix of 2, 8, 10 or 16.`);
+  return arg;
+}
+
+function checkString(name: string, arg: SchemeType): string {
+  if (!isString(arg)) throw new Error(`${name}: Expected a string.`);
+  return stringValue(arg);
+}
+
+function checkMutableString(name: string, arg: SchemeType): MutableString {
+  if (arg instanceof MutableString) return arg;
+  if (typeof arg === "string")
+    throw new Error(`${name}: String is immutable.`);
+  throw new Error(`${name}: Expected a string.`);
+}
+
+// The string's characters, one code point each, which must not be changed
+function checkCodePoints(name: string, arg: SchemeType): string[] {
+  if (!isString(arg)) throw new Error(`${name}: Expected a string.`);
+  return stringCodePoints(arg);
+}
+
+// A character's text, to store in a string
+function checkCharText(name: string, arg: SchemeType): string {
+  return checkChars(name, [arg])[0].char;
+}
+
+// The string's characters, then its range
+function stringRange(
+  name: string,
+  args: SchemeType[],
+  fixed: number,
+): [string[], number, number] {
+  const chars = checkCodePoints(name, args[0]);
+  return [chars, ...range(name, args, fixed, chars.length)];
+}
+
+function stringChars(chars: string[]): SchemeChar[] {
+  return chars.map((char) => SchemeChar.of(char));
+}
+
+// Case folding for the -ci comparisons and string-foldcase
+function foldCase(text: string): string {
+  return text.toUpperCase().toLowerCase();
+}
+
+function stringComparison(
+  name: string,
+  ignoreCase: boolean,
+  test: (order: number) => boolean,
+): SchemeBuiltin {
+  return new SchemeBuiltin((args) => {
+    if (args.length < 2)
+      throw new Error(`${name}: Expected at least two arguments.`);
+    const texts = args.map((arg) => {
+      const text = checkString(name, arg);
+      return ignoreCase ? foldCase(text) : text;
+    });
+    for (let i = 1; i < texts.length; i++) {
+      const [a, b] = [texts[i - 1], texts[i]];
+      if (!test(a < b ? -1 : a > b ? 1 : 0)) return false;
+    }
+    return true;
+  });
+}
+
+// Scans chars from index from in steps of step for the first character
+// where matching the criterion gives want, and passes its index, or -1, to
+// then.  The criterion is a character, a predicate, or undefined for
+// whitespace.
+function findChar(
+  name: string,
+  criterion: SchemeType | undefined,
+  chars: string[],
+  from: number,
+  step: number,
+  want: boolean,
+  callSite: SourceSpan | undefined,
+  then: (index: number) => SchemeType,
+): SchemeType {
+  if (criterion === undefined || criterion instanceof SchemeChar) {
+    const matches = (char: string): boolean =>
+      criterion === undefined ? /\s/.test(char) : char === criterion.char;
+    let i = from;
+    while (i >= 0 && i < chars.length && matches(chars[i]) !== want) i += step;
+    return then(i >= 0 && i < chars.length ? i : -1);
+  }
+  if (!(criterion instanceof SchemeProcedure))
+    throw new Error(`${name}: Expected a character or a predicate.`);
+  const loop = (i: number): SchemeType => {
+    if (i < 0 || i >= chars.length) return then(-1);
+    return invoke(
+      criterion,
+      [SchemeChar.of(chars[i])],
+      (result) => ((result !== false) === want ? then(i) : loop(i + step)),
+      callSite,
+    );
+  };
+  return loop(from);
+}
+
+// (name string [criterion]): the string without the characters matching
+// the criterion at its start, its end, or both
+function trimmer(
+  name: string,
+  left: boolean,
+  right: boolean,
+): SchemeControlBuiltin {
+  return new SchemeControlBuiltin((args, k, callSite) => {
+    if (args.length < 1 || args.length > 2)
+      throw new Error(`${name}: Expected one or two arguments.`);
+    const chars = checkCodePoints(name, args[0]);
+    const criterion = args[1];
+    const slice = (start: number, end: number) =>
+      new MutableString(chars.slice(start, end).join(""));
+    const trimEnd = (start: number): SchemeType => {
+      if (!right) return k(slice(start, chars.length));
+      return findChar(
+        name,
+        criterion,
+        chars,
+        chars.length - 1,
+        -1,
+        false,
+        callSite,
+        (last) => k(slice(start, last + 1)),
+      );
+    };
+    if (!left) return trimEnd(0);
+    return findChar(name, criterion, chars, 0, 1, false, callSite, (first) =>
+      trimEnd(first === -1 ? chars.length : first),
+    );
+  });
+}
+
+// A builtin taking one character
+function charProcedure(
+  name: string,
+  fn: (c: SchemeChar) => SchemeType,
+): SchemeBuiltin {
+  return new SchemeBuiltin((args) => {
+    if (args.length !== 1) throw new Error(`${name}: Expected one argument.`);
+    return fn(checkChars(name, args)[0]);
+  });
+}
+
+// Case mappings that give more than one character, like ß to SS, leave the
+// character alone
+function changeCase(c: SchemeChar, mapped: string): SchemeChar {
+  return [...mapped].length === 1 ? SchemeChar.of(mapped) : c;
+}
+
+// Like comparison, on code points.  The -ci variants compare lower case.
+function charComparison(
+  name: string,
+  ignoreCase: boolean,
+  test: (order: number) => boolean,
+): SchemeBuiltin {
+  return new SchemeBuiltin((args) => {
+    if (args.length < 2)
+      throw new Error(`${name}: Expected at least two arguments.`);
+    const codes = checkChars(name, args).map((c) =>
+      ignoreCase ? changeCase(c, c.char.toLowerCase()).code : c.code,
+    );
+    for (let i = 1; i < codes.length; i++) {
+      if (!test(codes[i - 1] - codes[i])) return false;
+    }
+    return true;
+  });
+}
+
+// A builtin testing that each pair of neighbouring arguments compares as
+// test wants.  Nothing passes for +nan.0.
+function comparison(
+  name: string,
+  test: (order: number) => boolean,
+): SchemeBuiltin {
+  return new SchemeBuiltin((args) => {
+    if (args.length < 2)
+      throw new Error(`${name}: Expected at least two arguments.`);
+    const numbers = checkNumbers(name, args);
+    for (let i = 1; i < numbers.length; i++) {
+      if (!test(compare(numbers[i - 1], numbers[i]))) return false;
+    }
+    return true;
+  });
+}
+
+//
+// Hashing
+//
+function stringHash(text: string): number {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (Math.imul(hash, 31) + text.charCodeAt(i)) | 0;
+  }
+  return hash >>> 0;
+}
+
+// Hashes of objects compared by identity, in order of first use
+const identities = new WeakMap<object, number>();
+let nextIdentity = 0;
+
+// A hash consistent with eqv?, and so with eq?: symbols by name, numbers by
+// value and other objects by identity
+function eqvHash(x: SchemeType): number {
+  if (x instanceof SchemeId) return stringHash(x.id);
+  if (isNumber(x)) return stringHash(numberToString(x));
+  if (typeof x === "string") return stringHash(x);
+  if (typeof x === "boolean") return x ? 1 : 0;
+  if (x === null) return 2;
+  let hash = identities.get(x);
+  if (hash === undefined) {
+    hash = nextIdentity++;
+    identities.set(x, hash);
+  }
+  return hash;
+}
+
+// How many pairs, vector items and atoms equalHash looks at, so that it
+// stops on cyclic structures
+const HASH_BUDGET = 64;
+
+// A hash consistent with equal?, from the contents of pairs, vectors,
+// strings, bytevectors and records
+function equalHash(x: SchemeType): number {
+  let budget = HASH_BUDGET;
+  const visit = (x: SchemeType): number => {
+    if (--budget < 0) return 0;
+    if (x instanceof SCons) {
+      return (Math.imul(visit(x.car), 31) + visit(x.cdr)) | 0;
+    }
+    if (x instanceof SchemeVector || x instanceof SchemeRecord) {
+      let hash = x instanceof SchemeVector ? 3 : eqvHash(x.type);
+      for (const item of x instanceof SchemeVector ? x.items : x.values) {
+        if (budget <= 0) break;
+        hash = (Math.imul(hash, 31) + visit(item)) | 0;
+      }
+      return hash;
+    }
+    if (x instanceof Uint8Array) {
+      let hash = 5;
+      for (const byte of x) hash = (Math.imul(hash, 31) + byte) | 0;
+      return hash;
+    }
+    if (isString(x)) return stringHash(stringValue(x));
+    return eqvHash(x);
+  };
+  return visit(x) >>> 0;
+}
+
+// (name obj [bound]): a hash from 0 up to bound, if given
+function hashFunction(
+  name: string,
+  hash: (x: SchemeType) => number,
+): SchemeBuiltin {
+  return new SchemeBuiltin((args) => {
+    if (args.length < 1 || args.length > 2)
+      throw new Error(`${name}: Expected one or two arguments.`);
+    const bound = args[1];
+    if (
+      bound !== undefined &&
+      (typeof bound !== "number" || !Number.isInteger(bound) || bound < 1)
+    )
+      throw new Error(`${name}: Expected a positive integer bound.`);
+    const value = hash(args[0]);
+    return bound === undefined ? value : value % bound;
+  });
+}
+
+function checkHashTable(name: string, arg: SchemeType): SchemeHashTable {
+  if (!(arg instanceof SchemeHashTable))
+    throw new Error(`${name}: Expected a hash table.`);
+  return arg;
+}
+
+// Hashes key with the table's hash procedure, then compares it with the
+// bucket's keys using the table's equivalence.  Passes the hash and the
+// matching entry, if any, to then.
+function lookup(
+  name: string,
+  table: SchemeHashTable,
+  key: SchemeType,
+  callSite: SourceSpan | undefined,
+  then: (hash: number, entry: HashEntry | undefined) => SchemeType,
+): SchemeType {
+  return invoke(
+    table.hash,
+    [key],
+    (hash) => {
+      if (typeof hash !== "number" || !Number.isInteger(hash))
+        throw new Error(`${name}: Hash function must return an integer.`);
+      const bucket = table.buckets.get(hash) ?? [];
+      const loop = (i: number): SchemeType => {
+        if (i === bucket.length) return then(hash, undefined);
+        return invoke(
+          table.equivalence,
+          [bucket[i].key, key],
+          (same) => (same !== false ? then(hash, bucket[i]) : loop(i + 1)),
+          callSite,
+        );
+      };
+      return loop(0);
+    },
+    callSite,
+  );
+}
+
+// Sets key's value in the table, adding an entry if there is none
+function store(
+  name: string,
+  table: SchemeHashTable,
+  key: SchemeType,
+  value: SchemeType,
+  callSite: SourceSpan | undefined,
+  then: () => SchemeType,
+): SchemeType {
+  return lookup(name, table, key, callSite, (hash, entry) => {
+    if (entry !== undefined) {
+      entry.value = value;
+    } else {
+      const bucket = table.buckets.get(hash);
+      if (bucket === undefined) table.buckets.set(hash, [{ key, value }]);
+      else bucket.push({ key, value });
+      table.size++;
+    }
+    return then();
+  });
+}
+
+function tableEntries(table: SchemeHashTable): HashEntry[] {
+  return [...table.buckets.values()].flat();
+}
+
+function checkRecordType(name: string, arg: SchemeType): SchemeRecordType {
+  if (!(arg instanceof SchemeRecordType))
+    throw new Error(`${name}: Expected a record type.`);
+  return arg;
+}
+
+// Index of the field a symbol names in a record type
+function fieldIndex(
+  name: string,
+  type: SchemeRecordType,
+  field: SchemeType,
+): number {
+  if (!(field instanceof SchemeId))
+    throw new Error(`${name}: Expected a field name.`);
+  const index = type.fields.indexOf(field.id);
+  if (index === -1)
+    throw new Error(`${name}: ${type.name} has no field ${field.id}.`);
+  return index;
+}
+
+// (name type field [caller]): the record type, the field's index, and the
+// name to use in the procedure's error messages
+function fieldProcedure(
+  name: string,
+  args: SchemeType[],
+): [SchemeRecordType, number, string] {
+  if (args.length < 2 || args.length > 3)
+    throw new Error(`${name}: Expected two or three arguments.`);
+  const type = checkRecordType(name, args[0]);
+  const index = fieldIndex(name, type, args[1]);
+  const caller = args[2] ?? name;
+  if (!(caller instanceof SchemeId))
+    throw new Error(`${name}: Expected a symbol for the caller.`);
+  return [type, index, caller.id];
+}
+
+function checkRecord(
+  name: string,
+  type: SchemeRecordType,
+  arg: SchemeType,
+): SchemeRecord {
+  if (!(arg instanceof SchemeRecord) || arg.type !== type)
+    throw new Error(`${name}: Expected a ${type.name}.`);
+  return arg;
+}
+
+// Number of the last gensym
+let gensyms = 0;
 
 export function initEnv(): Frame {
   const env = new Frame(null);
@@ -23,107 +912,137 @@ export function initEnv(): Frame {
 
   env.set(
     "+",
-    new SchemeBuiltin((args) =>
-      args.reduce(
-        (acc, val) => (acc as number) + (val as number),
-        0 as SchemeType,
-      ),
-    ),
+    new SchemeBuiltin((args) => checkNumbers("+", args).reduce(add, 0)),
   );
   env.set(
     "-",
-    new SchemeBuiltin((args) =>
-      args
-        .slice(1)
-        .reduce((acc, val) => (acc as number) - (val as number), args[0]),
-    ),
+    new SchemeBuiltin((args) => {
+      if (args.length < 1)
+        throw new Error("-: Expected at least one argument.");
+      const [first, ...rest] = checkNumbers("-", args);
+      return rest.length === 0 ? negate(first) : rest.reduce(subtract, first);
+    }),
   );
   env.set(
     "*",
-    new SchemeBuiltin((args) =>
-      args.reduce(
-        (acc, val) => (acc as number) * (val as number),
-        1 as SchemeType,
-      ),
-    ),
+    new SchemeBuiltin((args) => checkNumbers("*", args).reduce(multiply, 1)),
   );
   env.set(
     "/",
-    new SchemeBuiltin((args) =>
-      args
-        .slice(1)
-        .reduce((acc, val) => (acc as number) / (val as number), args[0]),
-    ),
-  );
-
-  env.set(
-    "abs",
     new SchemeBuiltin((args) => {
-      if (args.length !== 1) throw new Error("abs: Expected one argument.");
-      return Math.abs(args[0] as number);
+      if (args.length < 1)
+        throw new Error("/: Expected at least one argument.");
+      const numbers = checkNumbers("/", args);
+      const [first, ...rest] = numbers.length === 1 ? [1, ...numbers] : numbers;
+      if (rest.some((x) => x === 0))
+        throw new Error("/: Division by zero.");
+      return rest.reduce(divide, first);
     }),
   );
 
-  env.set(
-    "sqrt",
-    new SchemeBuiltin((args) => {
-      if (args.length !== 1) throw new Error("sqrt: Expected one argument.");
-      return Math.sqrt(args[0] as number);
-    }),
-  );
+  env.set("abs", unary("abs", abs));
+  env.set("sqrt", unary("sqrt", sqrt));
+
+  // Integer divisions and the results they return
+  const divisions: [string, IntegerDivision[]][] = [
+    ["quotient", ["quotient"]],
+    ["remainder", ["remainder"]],
+    ["modulo", ["modulo"]],
+    ["truncate-quotient", ["quotient"]],
+    ["truncate-remainder", ["remainder"]],
+    ["floor-quotient", ["floor-quotient"]],
+    ["floor-remainder", ["modulo"]],
+    ["truncate/", ["quotient", "remainder"]],
+    ["floor/", ["floor-quotient", "modulo"]],
+  ];
+  for (const [name, modes] of divisions) {
+    env.set(
+      name,
+      new SchemeBuiltin((args) => {
+        if (args.length !== 2)
+          throw new Error(`${name}: Expected two arguments.`);
+        const [a, b] = checkIntegers(name, args);
+        if (isZero(b)) throw new Error(`${name}: Division by zero.`);
+        return multipleValues(
+          modes.map((mode) => divideIntegers(a, b, mode)),
+        );
+      }),
+    );
+  }
 
   env.set(
-    "remainder",
+    "exact-integer-sqrt",
     new SchemeBuiltin((args) => {
-      if (args.length !== 2)
-        throw new Error("remainder: Expected two arguments.");
-      const a = args[0] as number;
-      const b = args[1] as number;
-      return a % b;
+      if (args.length !== 1)
+        throw new Error("exact-integer-sqrt: Expected one argument.");
+      const n = args[0];
+      if (!isExactInteger(n) || compare(n, 0) < 0)
+        throw new Error(
+          "exact-integer-sqrt: Expected an exact non-negative integer.",
+        );
+      return multipleValues(exactIntegerSqrt(n));
     }),
   );
 
   env.set(
-    "modulo",
-    new SchemeBuiltin((args) => {
-      if (args.length !== 2)
-        throw new Error("modulo: Expected two arguments.");
-      const a = args[0] as number;
-      const b = args[1] as number;
-      return ((a % b) + b) % b;
-    }),
+    "gcd",
+    new SchemeBuiltin((args) => checkIntegers("gcd", args).reduce(gcd, 0)),
   );
-
   env.set(
-    "floor",
-    new SchemeBuiltin((args) => {
-      if (args.length !== 1) throw new Error("floor: Expected one argument.");
-      return Math.floor(args[0] as number);
-    }),
+    "lcm",
+    new SchemeBuiltin((args) => checkIntegers("lcm", args).reduce(lcm, 1)),
   );
 
+  for (const mode of ["floor", "ceiling", "truncate", "round"] as const) {
+    env.set(mode, unary(mode, (x) => round(x, mode)));
+  }
+
+  env.set("numerator", unary("numerator", numerator));
+  env.set("denominator", unary("denominator", denominator));
+
+  //
+  // Exactness
+  //
+  env.set("exact?", unary("exact?", isExact));
+  env.set("inexact?", unary("inexact?", (x) => !isExact(x)));
+
+  const toInexact = unary("inexact", inexact);
+  env.set("inexact", toInexact);
+  env.set("exact->inexact", toInexact);
+
+  const toExact = unary("exact", (x) => {
+    if (!isExact(x) && !Number.isFinite(toFloat(x)))
+      throw new Error(
+        `exact: No exact representation for ${numberToString(x)}.`,
+      );
+    return exact(x);
+  });
+  env.set("exact", toExact);
+  env.set("inexact->exact", toExact);
+
   env.set(
-    "ceiling",
+    "number?",
     new SchemeBuiltin((args) => {
-      if (args.length !== 1) throw new Error("ceiling: Expected one argument.");
-      return Math.ceil(args[0] as number);
+      if (args.length !== 1) throw new Error("number?: Expected one argument.");
+      return isNumber(args[0]);
     }),
   );
 
   env.set(
-    "truncate",
+    "integer?",
     new SchemeBuiltin((args) => {
       if (args.length !== 1)
-        throw new Error("truncate: Expected one argument.");
-      return Math.trunc(args[0] as number);
+        throw new Error("integer?: Expected one argument.");
+      return isNumber(args[0]) && isInteger(args[0]);
     }),
   );
 
   env.set(
-    "round",
+    "rational?",
     new SchemeBuiltin((args) => {
-      if (args.length !== 1) throw new Error("round: Expected one argument.");
-      return Math.round(args[0] as number);
+      if (args.length !== 1)
+        throw new Error("rational?: Expected one argument.");
+      return isNumber(args[0]) && Number.isFinite(toFloat(args[0]));
     }),
   );
 
@@ -155,12 +1074,38 @@ export function initEnv(): Frame {
     }),
   );
 
+  env.set(
+    "set-car!",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 2)
+        throw new Error("set-car!: Expected two arguments.");
+      if (!(args[0] instanceof SCons))
+        throw new Error("set-car!: Expected a cons cell.");
+      args[0].car = args[1];
+      return true;
+    }),
+  );
+
+  env.set(
+    "set-cdr!",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 2)
+        throw new Error("set-cdr!: Expected two arguments.");
+      if (!(args[0] instanceof SCons))
+        throw new Error("set-cdr!: Expected a cons cell.");
+      args[0].cdr = args[1];
+      return true;
+    }),
+  );
+
   env.set(
     "log",
     new SchemeBuiltin((args) => {
       const argsStr = args.map((sexp) => {
-        if (typeof sexp === "string") {
-          return sexp;
+        if (isString(sexp)) {
+          return stringValue(sexp);
+        } else if (sexp instanceof SchemeChar) {
+          return sexp.char;
         } else {
           return sexpToStr(sexp);
         }
@@ -176,12 +1121,7 @@ export function initEnv(): Frame {
       if (args.length < 2)
         throw new Error("eq?: Expected at least two arguments.");
       for (let i = 1; i < args.length; i++) {
-        const a = args[i - 1];
-        const b = args[i];
-        if (a === b) continue;
-        if (a instanceof SchemeId && b instanceof SchemeId && a.id === b.id)
-          continue;
-        return false;
+        if (args[i - 1] !== args[i]) return false;
       }
       return true;
     }),
@@ -193,40 +1133,33 @@ export function initEnv(): Frame {
       if (args.length < 2)
         throw new Error("eqv?: Expected at least two arguments.");
       for (let i = 1; i < args.length; i++) {
-        const a = args[i - 1];
-        const b = args[i];
-        if (a === b) continue;
-        if (a instanceof SchemeId && b instanceof SchemeId && a.id === b.id)
-          continue;
-        return false;
+        if (!isEqv(args[i - 1], args[i])) return false;
       }
       return true;
     }),
   );
 
   env.set(
-    "<",
+    "equal?",
     new SchemeBuiltin((args) => {
-      if (args.length < 2)
-        throw new Error("<: Expected at least two arguments.");
-      for (let i = 1; i < args.length; i++) {
-        if (!((args[i - 1] as number) < (args[i] as number))) return false;
-      }
-      return true;
+      if (args.length !== 2) throw new Error("equal?: Expected two arguments.");
+      return isEqual(args[0], args[1]);
     }),
   );
 
-  env.set(
-    ">",
-    new SchemeBuiltin((args) => {
-      if (args.length < 2)
-        throw new Error(">: Expected at least two arguments.");
-      for (let i = 1; i < args.length; i++) {
-        if (!((args[i - 1] as number) > (args[i] as number))) return false;
-      }
-      return true;
-    }),
-  );
+  const isEq = (a: SchemeType, b: SchemeType) => a === b;
+  env.set("memq", listSearch("memq", isEq, false));
+  env.set("memv", listSearch("memv", isEqv, false));
+  env.set("member", listSearch("member", isEqual, false));
+  env.set("assq", listSearch("assq", isEq, true));
+  env.set("assv", listSearch("assv", isEqv, true));
+  env.set("assoc", listSearch("assoc", isEqual, true));
+
+  env.set("=", comparison("=", (order) => order === 0));
+  env.set("<", comparison("<", (order) => order < 0));
+  env.set(">", comparison(">", (order) => order > 0));
+  env.set("<=", comparison("<=", (order) => order <= 0));
+  env.set(">=", comparison(">=", (order) => order >= 0));
 
   env.set(
     "null?",
@@ -264,13 +1197,13 @@ export function initEnv(): Frame {
     "procedure?",
     new SchemeBuiltin((args) => {
       if (args.length !== 1) throw new Error("procedure?: Expected one argument.");
-      return args[0] instanceof SchemeClosure || args[0] instanceof SchemeBuiltin;
+      return args[0] instanceof SchemeProcedure;
     }),
   );
 
   env.set(
     "apply",
-    new SchemeBuiltin((args) => {
+    new SchemeControlBuiltin((args, k, callSite, tail) => {
       if (args.length < 2)
         throw new Error("apply: Expected at least two arguments.");
       const func = args[0];
@@ -285,13 +1218,1457 @@ export function initEnv(): Frame {
         finalArgs.push(current.car);
         current = current.cdr as SCons | null;
       }
-      if (func instanceof SchemeBuiltin) {
-        return func.eval(finalArgs);
-      } else if (func instanceof SchemeClosure) {
-        return func.eval(finalArgs);
-      } else {
+      if (!(func instanceof SchemeProcedure))
         throw new Error("apply: First argument must be a function.");
+      return invoke(func, finalArgs, k, callSite, tail);
+    }),
+  );
+
+  env.set("values", new SchemeBuiltin((args) => multipleValues(args)));
+
+  // (call-with-values producer consumer): calls consumer on the values
+  // producer returns
+  env.set(
+    "call-with-values",
+    new SchemeControlBuiltin((args, k, callSite, tail) => {
+      if (args.length !== 2)
+        throw new Error("call-with-values: Expected two arguments.");
+      const [producer, consumer] = args;
+      return invoke(
+        producer,
+        [],
+        (value) => invoke(consumer, valuesOf(value), k, callSite, tail),
+        callSite,
+      );
+    }),
+  );
+
+  //
+  // Lists
+  //
+  env.set(
+    "length",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1) throw new Error("length: Expected one argument.");
+      return listToArray("length", args[0]).length;
+    }),
+  );
+
+  // The last argument is shared, not copied, and need not be a list
+  env.set(
+    "append",
+    new SchemeBuiltin((args) => {
+      let result: SchemeType = args.length === 0 ? null : args[args.length - 1];
+      for (let i = args.length - 2; i >= 0; i--) {
+        const items = listToArray("append", args[i]);
+        for (let j = items.length - 1; j >= 0; j--) {
+          result = new SCons(items[j], result);
+        }
+      }
+      return result;
+    }),
+  );
+
+  env.set(
+    "reverse",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1) throw new Error("reverse: Expected one argument.");
+      let result: SchemeType = null;
+      for (const item of listToArray("reverse", args[0])) {
+        result = new SCons(item, result);
+      }
+      return result;
+    }),
+  );
+
+  env.set(
+    "list-tail",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 2)
+        throw new Error("list-tail: Expected two arguments.");
+      return listTail("list-tail", args[0], args[1]);
+    }),
+  );
+
+  env.set(
+    "list-ref",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 2)
+        throw new Error("list-ref: Expected two arguments.");
+      const pair = listTail("list-ref", args[0], args[1]);
+      if (!(pair instanceof SCons))
+        throw new Error(`list-ref: Index out of range: ${args[1]}.`);
+      return pair.car;
+    }),
+  );
+
+  env.set(
+    "list-copy",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("list-copy: Expected one argument.");
+      const items: SchemeType[] = [];
+      let rest = args[0];
+      for (; rest instanceof SCons; rest = rest.cdr) items.push(rest.car);
+      return items.reduceRight(
+        (acc: SchemeType, item) => new SCons(item, acc),
+        rest,
+      );
+    }),
+  );
+
+  env.set(
+    "last",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1) throw new Error("last: Expected one argument.");
+      const items = listToArray("last", args[0]);
+      if (items.length === 0)
+        throw new Error("last: Expected a non-empty list.");
+      return items[items.length - 1];
+    }),
+  );
+
+  // (iota count [start [step]]): count numbers from start, 0 by default,
+  // step apart, 1 by default
+  env.set(
+    "iota",
+    new SchemeBuiltin((args) => {
+      if (args.length < 1 || args.length > 3)
+        throw new Error("iota: Expected one to three arguments.");
+      const count = args[0];
+      if (typeof count !== "number" || !Number.isInteger(count) || count < 0)
+        throw new Error("iota: Expected an exact non-negative count.");
+      const [start, step] = checkNumbers("iota", [args[1] ?? 0, args[2] ?? 1]);
+      const items: SchemeType[] = [];
+      for (let i = 0; i < count; i++) {
+        items.push(i === 0 ? start : add(start, multiply(i, step)));
+      }
+      return arrayToList(items);
+    }),
+  );
+
+  // caar through cddddr
+  let paths = ["a", "d"];
+  for (let depth = 2; depth <= 4; depth++) {
+    paths = paths.flatMap((path) => ["a" + path, "d" + path]);
+    for (const path of paths) {
+      const name = `c${path}r`;
+      const steps = [...path].reverse();
+      env.set(
+        name,
+        new SchemeBuiltin((args) => {
+          if (args.length !== 1)
+            throw new Error(`${name}: Expected one argument.`);
+          let result = args[0];
+          for (const step of steps) {
+            if (!(result instanceof SCons))
+              throw new Error(`${name}: Expected a cons cell.`);
+            result = step === "a" ? result.car : result.cdr;
+          }
+          return result;
+        }),
+      );
+    }
+  }
+
+  env.set(
+    "for-each",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      const [proc, lists] = mapArguments("for-each", args, (arg) =>
+        listToArray("for-each", arg),
+      );
+      return mapItems(proc, lists, callSite, () => k(true));
+    }),
+  );
+
+  env.set(
+    "filter",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 2) throw new Error("filter: Expected two arguments.");
+      const [pred, list] = args;
+      const items = listToArray("filter", list);
+      const test = (item: SchemeType, then: (keep: boolean) => SchemeType) =>
+        invoke(pred, [item], (result) => then(result !== false), callSite);
+      return filterItems(items, test, (kept) => k(arrayToList(kept)));
+    }),
+  );
+
+  // (delete x list [=]): list without the items equal? to x, or that (= x
+  // item) holds for
+  env.set(
+    "delete",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length < 2 || args.length > 3)
+        throw new Error("delete: Expected two or three arguments.");
+      const [x, list, same] = args;
+      const items = listToArray("delete", list);
+      if (same === undefined) {
+        return k(arrayToList(items.filter((item) => !isEqual(x, item))));
       }
+      const test = (item: SchemeType, then: (keep: boolean) => SchemeType) =>
+        invoke(same, [x, item], (result) => then(result === false), callSite);
+      return filterItems(items, test, (kept) => k(arrayToList(kept)));
+    }),
+  );
+
+  // (reduce f ridentity list): (f item value) over the items after the
+  // first, starting with the first, or ridentity for the empty list
+  env.set(
+    "reduce",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 3)
+        throw new Error("reduce: Expected three arguments.");
+      const [proc, ridentity, list] = args;
+      const items = listToArray("reduce", list);
+      if (items.length === 0) return k(ridentity);
+      const indexes = items.map((_, i) => i).slice(1);
+      return foldItems(proc, [items], items[0], indexes, false, callSite, k);
+    }),
+  );
+
+  // (fold-left kons knil list...): (kons value item...) from the first
+  // items on, starting with knil
+  env.set(
+    "fold-left",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length < 3)
+        throw new Error("fold-left: Expected at least three arguments.");
+      const [proc, knil] = args;
+      const lists = args.slice(2).map((arg) => listToArray("fold-left", arg));
+      const length = Math.min(...lists.map((items) => items.length));
+      const indexes = [...Array(length).keys()];
+      return foldItems(proc, lists, knil, indexes, true, callSite, k);
+    }),
+  );
+
+  // (fold-right kons knil list...): (kons item... value) from the last
+  // items back, starting with knil
+  env.set(
+    "fold-right",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length < 3)
+        throw new Error("fold-right: Expected at least three arguments.");
+      const [proc, knil] = args;
+      const lists = args.slice(2).map((arg) => listToArray("fold-right", arg));
+      const length = Math.min(...lists.map((items) => items.length));
+      const indexes = [...Array(length).keys()].reverse();
+      return foldItems(proc, lists, knil, indexes, false, callSite, k);
+    }),
+  );
+
+  //
+  // Sorting
+  //
+
+  // (sort sequence less?): a sorted copy of a list or vector
+  env.set(
+    "sort",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 2) throw new Error("sort: Expected two arguments.");
+      const [sequence, less] = args;
+      const items = sequenceItems("sort", sequence);
+      return sortItems(less, items, callSite, (sorted) =>
+        k(
+          sequence instanceof SchemeVector
+            ? new SchemeVector(sorted)
+            : arrayToList(sorted),
+        ),
+      );
+    }),
+  );
+
+  // (sort! sequence less?): sorts a list or vector in place and returns it
+  env.set(
+    "sort!",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 2) throw new Error("sort!: Expected two arguments.");
+      const [sequence, less] = args;
+      const items = sequenceItems("sort!", sequence);
+      return sortItems(less, items, callSite, (sorted) => {
+        if (sequence instanceof SchemeVector) {
+          sequence.items.splice(0, sorted.length, ...sorted);
+        } else {
+          let pair: SchemeType = sequence;
+          for (const item of sorted) {
+            (pair as SCons).car = item;
+            pair = (pair as SCons).cdr;
+          }
+        }
+        return k(sequence);
+      });
+    }),
+  );
+
+  env.set(
+    "list-sort",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 2)
+        throw new Error("list-sort: Expected two arguments.");
+      const items = listToArray("list-sort", args[1]);
+      return sortItems(args[0], items, callSite, (sorted) =>
+        k(arrayToList(sorted)),
+      );
+    }),
+  );
+
+  // (vector-sort less? vector [start [end]]): a new vector of the range,
+  // sorted
+  env.set(
+    "vector-sort",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length < 2 || args.length > 4)
+        throw new Error("vector-sort: Expected two to four arguments.");
+      const [vector, start, end] = vectorRange("vector-sort", args.slice(1), 1);
+      const items = vector.items.slice(start, end);
+      return sortItems(args[0], items, callSite, (sorted) =>
+        k(new SchemeVector(sorted)),
+      );
+    }),
+  );
+
+  // (merge less? list1 list2): the sorted lists' items in one sorted list,
+  // with list1's first on ties
+  env.set(
+    "merge",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 3)
+        throw new Error("merge: Expected three arguments.");
+      const [less, list1, list2] = args;
+      const left = listToArray("merge", list1);
+      const right = listToArray("merge", list2);
+      return mergeItems(less, left, right, callSite, (merged) =>
+        k(arrayToList(merged)),
+      );
+    }),
+  );
+
+  //
+  // Characters
+  //
+  env.set(
+    "char?",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1) throw new Error("char?: Expected one argument.");
+      return args[0] instanceof SchemeChar;
+    }),
+  );
+
+  env.set("char->integer", charProcedure("char->integer", (c) => c.code));
+
+  env.set(
+    "integer->char",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("integer->char: Expected one argument.");
+      const code = args[0];
+      if (
+        typeof code !== "number" ||
+        code < 0 ||
+        code > 0x10ffff ||
+        (code >= 0xd800 && code <= 0xdfff)
+      )
+        throw new Error("integer->char: Expected a Unicode scalar value.");
+      return SchemeChar.of(String.fromCodePoint(code));
+    }),
+  );
+
+  env.set(
+    "char-upcase",
+    charProcedure("char-upcase", (c) => changeCase(c, c.char.toUpperCase())),
+  );
+  env.set(
+    "char-downcase",
+    charProcedure("char-downcase", (c) => changeCase(c, c.char.toLowerCase())),
+  );
+  env.set(
+    "char-foldcase",
+    charProcedure("char-foldcase", (c) => changeCase(c, c.char.toLowerCase())),
+  );
+
+  const charClasses: [string, RegExp][] = [
+    ["char-alphabetic?", /\p{Alphabetic}/u],
+    ["char-numeric?", /\p{Nd}/u],
+    ["char-whitespace?", /\p{White_Space}/u],
+    ["char-upper-case?", /\p{Uppercase}/u],
+    ["char-lower-case?", /\p{Lowercase}/u],
+  ];
+  for (const [name, pattern] of charClasses) {
+    env.set(name, charProcedure(name, (c) => pattern.test(c.char)));
+  }
+
+  for (const [suffix, test] of ORDERS) {
+    env.set(`char${suffix}?`, charComparison(`char${suffix}?`, false, test));
+    env.set(
+      `char-ci${suffix}?`,
+      charComparison(`char-ci${suffix}?`, true, test),
+    );
+  }
+
+  //
+  // Strings
+  //
+  env.set(
+    "string?",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1) throw new Error("string?: Expected one argument.");
+      return isString(args[0]);
+    }),
+  );
+
+  env.set(
+    "make-string",
+    new SchemeBuiltin((args) => {
+      if (args.length < 1 || args.length > 2)
+        throw new Error("make-string: Expected one or two arguments.");
+      const fill =
+        args.length > 1 ? checkCharText("make-string", args[1]) : " ";
+      return allocate(
+        "make-string",
+        args[0],
+        (size) => new MutableString(fill.repeat(size)),
+      );
+    }),
+  );
+
+  env.set(
+    "string",
+    new SchemeBuiltin((args) => {
+      const chars = checkChars("string", args);
+      return new MutableString(chars.map((c) => c.char).join(""));
+    }),
+  );
+
+  env.set(
+    "string-length",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("string-length: Expected one argument.");
+      return checkCodePoints("string-length", args[0]).length;
+    }),
+  );
+
+  env.set(
+    "string-ref",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 2)
+        throw new Error("string-ref: Expected two arguments.");
+      const chars = checkCodePoints("string-ref", args[0]);
+      return SchemeChar.of(
+        chars[checkIndex("string-ref", args[1], chars.length - 1)],
+      );
+    }),
+  );
+
+  env.set(
+    "string-set!",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 3)
+        throw new Error("string-set!: Expected three arguments.");
+      const string = checkMutableString("string-set!", args[0]);
+      const chars = string.chars;
+      const index = checkIndex("string-set!", args[1], chars.length - 1);
+      chars[index] = checkCharText("string-set!", args[2]);
+      return true;
+    }),
+  );
+
+  for (const [suffix, test] of ORDERS) {
+    env.set(
+      `string${suffix}?`,
+      stringComparison(`string${suffix}?`, false, test),
+    );
+    env.set(
+      `string-ci${suffix}?`,
+      stringComparison(`string-ci${suffix}?`, true, test),
+    );
+  }
+
+  const caseMappings: [string, (text: string) => string][] = [
+    ["string-upcase", (text) => text.toUpperCase()],
+    ["string-downcase", (text) => text.toLowerCase()],
+    ["string-foldcase", foldCase],
+  ];
+  for (const [name, map] of caseMappings) {
+    env.set(
+      name,
+      new SchemeBuiltin((args) => {
+        if (args.length !== 1)
+          throw new Error(`${name}: Expected one argument.`);
+        return new MutableString(map(checkString(name, args[0])));
+      }),
+    );
+  }
+
+  env.set(
+    "substring",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 3)
+        throw new Error("substring: Expected three arguments.");
+      const [chars, start, end] = stringRange("substring", args, 1);
+      return new MutableString(chars.slice(start, end).join(""));
+    }),
+  );
+
+  env.set(
+    "string-append",
+    new SchemeBuiltin((args) => {
+      const texts = args.map((arg) => checkString("string-append", arg));
+      return new MutableString(texts.join(""));
+    }),
+  );
+
+  env.set(
+    "string->list",
+    new SchemeBuiltin((args) => {
+      const [chars, start, end] = stringRange("string->list", args, 1);
+      return arrayToList(stringChars(chars.slice(start, end)));
+    }),
+  );
+
+  env.set(
+    "list->string",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("list->string: Expected one argument.");
+      const chars = checkChars(
+        "list->string",
+        listToArray("list->string", args[0]),
+      );
+      return new MutableString(chars.map((c) => c.char).join(""));
+    }),
+  );
+
+  env.set(
+    "string-copy",
+    new SchemeBuiltin((args) => {
+      const [chars, start, end] = stringRange("string-copy", args, 1);
+      return new MutableString(chars.slice(start, end).join(""));
+    }),
+  );
+
+  env.set(
+    "string-copy!",
+    new SchemeBuiltin((args) => {
+      const name = "string-copy!";
+      const to = checkMutableString(name, args[0]);
+      const at = checkIndex(name, args[1], to.chars.length);
+      const [from, start, end] = stringRange(name, args.slice(2), 1);
+      if (end - start > to.chars.length - at)
+        throw new Error(`${name}: Not enough room in the destination.`);
+      // Copied first, in case from is the destination
+      const copied = from.slice(start, end);
+      copied.forEach((char, i) => (to.chars[at + i] = char));
+      return true;
+    }),
+  );
+
+  env.set(
+    "string-fill!",
+    new SchemeBuiltin((args) => {
+      const string = checkMutableString("string-fill!", args[0]);
+      const [, start, end] = stringRange("string-fill!", args, 2);
+      string.chars.fill(checkCharText("string-fill!", args[1]), start, end);
+      return true;
+    }),
+  );
+
+  env.set(
+    "string->vector",
+    new SchemeBuiltin((args) => {
+      const [chars, start, end] = stringRange("string->vector", args, 1);
+      return new SchemeVector(stringChars(chars.slice(start, end)));
+    }),
+  );
+
+  env.set(
+    "vector->string",
+    new SchemeBuiltin((args) => {
+      const [vector, start, end] = vectorRange("vector->string", args, 1);
+      const items = vector.items.slice(start, end);
+      const chars = checkChars("vector->string", items);
+      return new MutableString(chars.map((c) => c.char).join(""));
+    }),
+  );
+
+  env.set(
+    "string->symbol",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("string->symbol: Expected one argument.");
+      return SchemeId.of(checkString("string->symbol", args[0]));
+    }),
+  );
+
+  env.set(
+    "symbol->string",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("symbol->string: Expected one argument.");
+      if (!(args[0] instanceof SchemeId))
+        throw new Error("symbol->string: Expected a symbol.");
+      return args[0].id;
+    }),
+  );
+
+  // (gensym [prefix]): a new uninterned symbol, for define-macro
+  // expansions that need temporaries no other code can capture
+  const gensym = (name: string) =>
+    new SchemeBuiltin((args) => {
+      if (args.length > 1)
+        throw new Error(`${name}: Expected at most one argument.`);
+      const prefix = args[0] ?? "g";
+      if (!isString(prefix) && !(prefix instanceof SchemeId))
+        throw new Error(`${name}: Expected a string or symbol prefix.`);
+      const text = prefix instanceof SchemeId ? prefix.id : stringValue(prefix);
+      return SchemeId.uninterned(`${text}${++gensyms}`);
+    });
+  env.set("gensym", gensym("gensym"));
+  env.set("generate-uninterned-symbol", gensym("generate-uninterned-symbol"));
+
+  env.set(
+    "number->string",
+    new SchemeBuiltin((args) => {
+      if (args.length < 1 || args.length > 2)
+        throw new Error("number->string: Expected one or two arguments.");
+      const [x] = checkNumbers("number->string", [args[0]]);
+      const radix = checkRadix("number->string", args[1]);
+      if (radix !== 10 && !isExact(x))
+        throw new Error("number->string: Inexact numbers are radix 10.");
+      return new MutableString(numberToString(x, radix));
+    }),
+  );
+
+  env.set(
+    "string->number",
+    new SchemeBuiltin((args) => {
+      if (args.length < 1 || args.length > 2)
+        throw new Error("string->number: Expected one or two arguments.");
+      const text = checkString("string->number", args[0]);
+      const radix = checkRadix("string->number", args[1]);
+      return parseNumber(text, radix) ?? false;
+    }),
+  );
+
+  env.set(
+    "string-map",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      const [proc, strings] = mapArguments("string-map", args, (arg) =>
+        stringChars(checkCodePoints("string-map", arg)),
+      );
+      return mapItems(proc, strings, callSite, (results) => {
+        const chars = checkChars("string-map", results);
+        return k(new MutableString(chars.map((c) => c.char).join("")));
+      });
+    }),
+  );
+
+  env.set(
+    "string-for-each",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      const [proc, strings] = mapArguments("string-for-each", args, (arg) =>
+        stringChars(checkCodePoints("string-for-each", arg)),
+      );
+      return mapItems(proc, strings, callSite, () => k(true));
+    }),
+  );
+
+  //
+  // SRFI-13 helpers
+  //
+  env.set(
+    "string-null?",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("string-null?: Expected one argument.");
+      return checkString("string-null?", args[0]).length === 0;
+    }),
+  );
+
+  // (string-index string char-or-predicate): the first matching index, or #f
+  env.set(
+    "string-index",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 2)
+        throw new Error("string-index: Expected two arguments.");
+      const chars = checkCodePoints("string-index", args[0]);
+      const name = "string-index";
+      return findChar(name, args[1], chars, 0, 1, true, callSite, (i) =>
+        k(i === -1 ? false : i),
+      );
+    }),
+  );
+
+  // (string-contains string pattern): where pattern starts in string, or #f
+  env.set(
+    "string-contains",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 2)
+        throw new Error("string-contains: Expected two arguments.");
+      const text = checkString("string-contains", args[0]);
+      const index = text.indexOf(checkString("string-contains", args[1]));
+      // Counted in characters, not UTF-16 code units
+      return index === -1 ? false : Array.from(text.slice(0, index)).length;
+    }),
+  );
+
+  // (string-join list [delimiter]), with a space between strings by default
+  env.set(
+    "string-join",
+    new SchemeBuiltin((args) => {
+      if (args.length < 1 || args.length > 2)
+        throw new Error("string-join: Expected one or two arguments.");
+      const texts = listToArray("string-join", args[0]).map((arg) =>
+        checkString("string-join", arg),
+      );
+      const delimiter =
+        args.length > 1 ? checkString("string-join", args[1]) : " ";
+      return new MutableString(texts.join(delimiter));
+    }),
+  );
+
+  // (string-split string [delimiter]): the list of strings between
+  // delimiters, a character or string that defaults to a space
+  env.set(
+    "string-split",
+    new SchemeBuiltin((args) => {
+      if (args.length < 1 || args.length > 2)
+        throw new Error("string-split: Expected one or two arguments.");
+      const text = checkString("string-split", args[0]);
+      const delimiter = args.length > 1 ? args[1] : " ";
+      const separator =
+        delimiter instanceof SchemeChar
+          ? delimiter.char
+          : checkString("string-split", delimiter);
+      if (separator === "")
+        throw new Error("string-split: Delimiter is empty.");
+      return arrayToList(
+        text.split(separator).map((part) => new MutableString(part)),
+      );
+    }),
+  );
+
+  env.set("string-trim", trimmer("string-trim", true, true));
+  env.set("string-trim-left", trimmer("string-trim-left", true, false));
+  env.set("string-trim-right", trimmer("string-trim-right", false, true));
+
+  //
+  // Vectors
+  //
+  env.set(
+    "vector?",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1) throw new Error("vector?: Expected one argument.");
+      return args[0] instanceof SchemeVector;
+    }),
+  );
+
+  env.set(
+    "make-vector",
+    new SchemeBuiltin((args) => {
+      if (args.length < 1 || args.length > 2)
+        throw new Error("make-vector: Expected one or two arguments.");
+      return allocate(
+        "make-vector",
+        args[0],
+        (size) => new SchemeVector(new Array(size).fill(args[1] ?? false)),
+      );
+    }),
+  );
+
+  env.set("vector", new SchemeBuiltin((args) => new SchemeVector(args)));
+
+  env.set(
+    "vector-length",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("vector-length: Expected one argument.");
+      return checkVector("vector-length", args[0]).items.length;
+    }),
+  );
+
+  env.set(
+    "vector-ref",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 2)
+        throw new Error("vector-ref: Expected two arguments.");
+      const vector = checkVector("vector-ref", args[0]);
+      const index = checkIndex("vector-ref", args[1], vector.items.length - 1);
+      return vector.items[index];
+    }),
+  );
+
+  env.set(
+    "vector-set!",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 3)
+        throw new Error("vector-set!: Expected three arguments.");
+      const vector = checkVector("vector-set!", args[0]);
+      const index = checkIndex("vector-set!", args[1], vector.items.length - 1);
+      vector.items[index] = args[2];
+      return true;
+    }),
+  );
+
+  env.set(
+    "vector->list",
+    new SchemeBuiltin((args) => {
+      const [vector, start, end] = vectorRange("vector->list", args, 1);
+      return arrayToList(vector.items.slice(start, end));
+    }),
+  );
+
+  env.set(
+    "list->vector",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("list->vector: Expected one argument.");
+      return listToVector(args[0]);
+    }),
+  );
+
+  env.set(
+    "vector-map",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      const [proc, vectors] = mapArguments("vector-map", args, (arg) =>
+        checkVector("vector-map", arg).items.slice(),
+      );
+      return mapItems(proc, vectors, callSite, (results) =>
+        k(new SchemeVector(results)),
+      );
+    }),
+  );
+
+  env.set(
+    "vector-for-each",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      const [proc, vectors] = mapArguments("vector-for-each", args, (arg) =>
+        checkVector("vector-for-each", arg).items.slice(),
+      );
+      return mapItems(proc, vectors, callSite, () => k(true));
+    }),
+  );
+
+  env.set(
+    "vector-fill!",
+    new SchemeBuiltin((args) => {
+      const [vector, start, end] = vectorRange("vector-fill!", args, 2);
+      vector.items.fill(args[1], start, end);
+      return true;
+    }),
+  );
+
+  env.set(
+    "vector-copy",
+    new SchemeBuiltin((args) => {
+      const [vector, start, end] = vectorRange("vector-copy", args, 1);
+      return new SchemeVector(vector.items.slice(start, end));
+    }),
+  );
+
+  //
+  // Bytevectors
+  //
+  env.set(
+    "bytevector?",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("bytevector?: Expected one argument.");
+      return args[0] instanceof Uint8Array;
+    }),
+  );
+
+  env.set(
+    "make-bytevector",
+    new SchemeBuiltin((args) => {
+      if (args.length < 1 || args.length > 2)
+        throw new Error("make-bytevector: Expected one or two arguments.");
+      const fill = args.length > 1 ? checkByte("make-bytevector", args[1]) : 0;
+      return allocate(
+        "make-bytevector",
+        args[0],
+        (size) => new Uint8Array(size).fill(fill),
+      );
+    }),
+  );
+
+  env.set(
+    "bytevector",
+    new SchemeBuiltin(
+      (args) => new Uint8Array(args.map((arg) => checkByte("bytevector", arg))),
+    ),
+  );
+
+  env.set(
+    "bytevector-length",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("bytevector-length: Expected one argument.");
+      return checkBytevector("bytevector-length", args[0]).length;
+    }),
+  );
+
+  env.set(
+    "bytevector-u8-ref",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 2)
+        throw new Error("bytevector-u8-ref: Expected two arguments.");
+      const bytes = checkBytevector("bytevector-u8-ref", args[0]);
+      return bytes[checkIndex("bytevector-u8-ref", args[1], bytes.length - 1)];
+    }),
+  );
+
+  env.set(
+    "bytevector-u8-set!",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 3)
+        throw new Error("bytevector-u8-set!: Expected three arguments.");
+      const name = "bytevector-u8-set!";
+      const bytes = checkBytevector(name, args[0]);
+      const index = checkIndex(name, args[1], bytes.length - 1);
+      bytes[index] = checkByte(name, args[2]);
+      return true;
+    }),
+  );
+
+  env.set(
+    "bytevector-copy",
+    new SchemeBuiltin((args) => {
+      const [bytes, start, end] = bytevectorRange("bytevector-copy", args, 1);
+      return bytes.slice(start, end);
+    }),
+  );
+
+  env.set(
+    "bytevector-copy!",
+    new SchemeBuiltin((args) => {
+      const name = "bytevector-copy!";
+      const to = checkBytevector(name, args[0]);
+      const at = checkIndex(name, args[1], to.length);
+      const [from, start, end] = bytevectorRange(name, args.slice(2), 1);
+      if (end - start > to.length - at)
+        throw new Error(`${name}: Not enough room in the destination.`);
+      to.set(from.subarray(start, end), at);
+      return true;
+    }),
+  );
+
+  env.set(
+    "bytevector-append",
+    new SchemeBuiltin((args) => {
+      const parts = args.map((arg) =>
+        checkBytevector("bytevector-append", arg),
+      );
+      const result = new Uint8Array(
+        parts.reduce((total, part) => total + part.length, 0),
+      );
+      let offset = 0;
+      for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+      }
+      return result;
+    }),
+  );
+
+  env.set(
+    "utf8->string",
+    new SchemeBuiltin((args) => {
+      const [bytes, start, end] = bytevectorRange("utf8->string", args, 1);
+      return new MutableString(
+        new TextDecoder().decode(bytes.subarray(start, end)),
+      );
+    }),
+  );
+
+  env.set(
+    "string->utf8",
+    new SchemeBuiltin((args) => {
+      const [chars, start, end] = stringRange("string->utf8", args, 1);
+      return new TextEncoder().encode(chars.slice(start, end).join(""));
+    }),
+  );
+
+  //
+  // Hash tables
+  //
+  const hashByIdentity = hashFunction("hash-by-identity", eqvHash);
+  const hash = hashFunction("hash", equalHash);
+  const stringHashFunction = hashFunction("string-hash", (x) =>
+    stringHash(checkString("string-hash", x)),
+  );
+  const stringCiHash = hashFunction("string-ci-hash", (x) =>
+    stringHash(foldCase(checkString("string-ci-hash", x))),
+  );
+  env.set("hash-by-identity", hashByIdentity);
+  env.set("hash", hash);
+  env.set("string-hash", stringHashFunction);
+  env.set("string-ci-hash", stringCiHash);
+
+  // Hash procedures for the standard equivalences
+  const defaultHashes = new Map<SchemeType, SchemeProcedure>([
+    [env.lookup("eq?"), hashByIdentity],
+    [env.lookup("eqv?"), hashByIdentity],
+    [env.lookup("equal?"), hash],
+    [env.lookup("string=?"), stringHashFunction],
+    [env.lookup("string-ci=?"), stringCiHash],
+  ]);
+
+  // A new table for the optional [equivalence [hash]] arguments, comparing
+  // keys with equal? by default
+  const makeTable = (name: string, args: SchemeType[]): SchemeHashTable => {
+    if (args.length > 2)
+      throw new Error(`${name}: Expected at most two arguments.`);
+    const equivalence = args[0] ?? env.lookup("equal?");
+    const hashArg = args[1] ?? defaultHashes.get(equivalence) ?? hash;
+    if (
+      !(equivalence instanceof SchemeProcedure) ||
+      !(hashArg instanceof SchemeProcedure)
+    )
+      throw new Error(`${name}: Expected a procedure.`);
+    return new SchemeHashTable(equivalence, hashArg);
+  };
+
+  // (make-hash-table [equivalence [hash]])
+  env.set(
+    "make-hash-table",
+    new SchemeBuiltin((args) => makeTable("make-hash-table", args)),
+  );
+
+  // (alist->hash-table alist [equivalence [hash]]): a table of the pairs in
+  // alist, where the first pair for a key wins
+  env.set(
+    "alist->hash-table",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      const name = "alist->hash-table";
+      if (args.length < 1)
+        throw new Error(`${name}: Expected one to three arguments.`);
+      const pairs = listToArray(name, args[0]);
+      const table = makeTable(name, args.slice(1));
+      const loop = (i: number): SchemeType => {
+        if (i === pairs.length) return k(table);
+        const pair = pairs[i];
+        if (!(pair instanceof SCons))
+          throw new Error(`${name}: Expected an association list.`);
+        return lookup(name, table, pair.car, callSite, (_, entry) =>
+          entry !== undefined
+            ? loop(i + 1)
+            : store(name, table, pair.car, pair.cdr, callSite, () =>
+                loop(i + 1),
+              ),
+        );
+      };
+      return loop(0);
+    }),
+  );
+
+  // (hash-table-copy table [mutable?]): a table with the same equivalence,
+  // hash and entries.  Tables are always mutable.
+  env.set(
+    "hash-table-copy",
+    new SchemeBuiltin((args) => {
+      if (args.length < 1 || args.length > 2)
+        throw new Error("hash-table-copy: Expected one or two arguments.");
+      const table = checkHashTable("hash-table-copy", args[0]);
+      const copy = new SchemeHashTable(table.equivalence, table.hash);
+      for (const [hash, bucket] of table.buckets) {
+        copy.buckets.set(hash, bucket.map((entry) => ({ ...entry })));
+      }
+      copy.size = table.size;
+      return copy;
+    }),
+  );
+
+  env.set(
+    "hash-table?",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("hash-table?: Expected one argument.");
+      return args[0] instanceof SchemeHashTable;
+    }),
+  );
+
+  // (hash-table-ref table key [fail [succeed]]): calls fail when the key is
+  // missing and succeed, if given, on the value when it is present
+  env.set(
+    "hash-table-ref",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length < 2 || args.length > 4)
+        throw new Error("hash-table-ref: Expected two to four arguments.");
+      const table = checkHashTable("hash-table-ref", args[0]);
+      const [, key, fail, succeed] = args;
+      return lookup("hash-table-ref", table, key, callSite, (_, entry) => {
+        if (entry !== undefined) {
+          if (succeed === undefined) return k(entry.value);
+          return invoke(succeed, [entry.value], k, callSite);
+        }
+        if (fail === undefined)
+          throw new Error(`hash-table-ref: Key not found: ${sexpToStr(key)}.`);
+        return invoke(fail, [], k, callSite);
+      });
+    }),
+  );
+
+  env.set(
+    "hash-table-ref/default",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 3)
+        throw new Error("hash-table-ref/default: Expected three arguments.");
+      const name = "hash-table-ref/default";
+      const table = checkHashTable(name, args[0]);
+      return lookup(name, table, args[1], callSite, (_, entry) =>
+        k(entry === undefined ? args[2] : entry.value),
+      );
+    }),
+  );
+
+  env.set(
+    "hash-table-set!",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 3)
+        throw new Error("hash-table-set!: Expected three arguments.");
+      const table = checkHashTable("hash-table-set!", args[0]);
+      return store("hash-table-set!", table, args[1], args[2], callSite, () =>
+        k(true),
+      );
+    }),
+  );
+
+  // (hash-table-update! table key proc [fail]): stores proc's result on the
+  // key's value, or on fail's result when the key is missing
+  env.set(
+    "hash-table-update!",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      const name = "hash-table-update!";
+      if (args.length < 3 || args.length > 4)
+        throw new Error(`${name}: Expected three or four arguments.`);
+      const table = checkHashTable(name, args[0]);
+      const [, key, proc, fail] = args;
+      const update = (value: SchemeType): SchemeType =>
+        invoke(
+          proc,
+          [value],
+          (result) => store(name, table, key, result, callSite, () => k(true)),
+          callSite,
+        );
+      return lookup(name, table, key, callSite, (_, entry) => {
+        if (entry !== undefined) return update(entry.value);
+        if (fail === undefined)
+          throw new Error(`${name}: Key not found: ${sexpToStr(key)}.`);
+        return invoke(fail, [], update, callSite);
+      });
+    }),
+  );
+
+  env.set(
+    "hash-table-update!/default",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      const name = "hash-table-update!/default";
+      if (args.length !== 4)
+        throw new Error(`${name}: Expected four arguments.`);
+      const table = checkHashTable(name, args[0]);
+      const [, key, proc, fallback] = args;
+      return lookup(name, table, key, callSite, (_, entry) =>
+        invoke(
+          proc,
+          [entry === undefined ? fallback : entry.value],
+          (result) => store(name, table, key, result, callSite, () => k(true)),
+          callSite,
+        ),
+      );
+    }),
+  );
+
+  env.set(
+    "hash-table-delete!",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 2)
+        throw new Error("hash-table-delete!: Expected two arguments.");
+      const table = checkHashTable("hash-table-delete!", args[0]);
+      const name = "hash-table-delete!";
+      return lookup(name, table, args[1], callSite, (hash, entry) => {
+        if (entry !== undefined) {
+          const bucket = table.buckets.get(hash) as HashEntry[];
+          bucket.splice(bucket.indexOf(entry), 1);
+          if (bucket.length === 0) table.buckets.delete(hash);
+          table.size--;
+        }
+        return k(true);
+      });
+    }),
+  );
+
+  // hash-table-exists? is SRFI-69's name for hash-table-contains?
+  for (const name of ["hash-table-contains?", "hash-table-exists?"]) {
+    env.set(
+      name,
+      new SchemeControlBuiltin((args, k, callSite) => {
+        if (args.length !== 2)
+          throw new Error(`${name}: Expected two arguments.`);
+        const table = checkHashTable(name, args[0]);
+        return lookup(name, table, args[1], callSite, (_, entry) =>
+          k(entry !== undefined),
+        );
+      }),
+    );
+  }
+
+  env.set(
+    "hash-table-size",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("hash-table-size: Expected one argument.");
+      return checkHashTable("hash-table-size", args[0]).size;
+    }),
+  );
+
+  // (hash-table-walk table proc): calls proc on each key and its value
+  env.set(
+    "hash-table-walk",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 2)
+        throw new Error("hash-table-walk: Expected two arguments.");
+      const entries = tableEntries(checkHashTable("hash-table-walk", args[0]));
+      const keys = entries.map((entry) => entry.key);
+      const values = entries.map((entry) => entry.value);
+      return mapItems(args[1], [keys, values], callSite, () => k(true));
+    }),
+  );
+
+  // (hash-table-fold table proc init): calls (proc key value acc) on each
+  // entry, starting from init, and returns the last result
+  env.set(
+    "hash-table-fold",
+    new SchemeControlBuiltin((args, k, callSite) => {
+      if (args.length !== 3)
+        throw new Error("hash-table-fold: Expected three arguments.");
+      const entries = tableEntries(checkHashTable("hash-table-fold", args[0]));
+      const loop = (i: number, acc: SchemeType): SchemeType => {
+        if (i === entries.length) return k(acc);
+        const { key, value } = entries[i];
+        return invoke(
+          args[1],
+          [key, value, acc],
+          (result) => loop(i + 1, result),
+          callSite,
+        );
+      };
+      return loop(0, args[2]);
+    }),
+  );
+
+  const listings: [string, (entry: HashEntry) => SchemeType][] = [
+    ["hash-table-keys", (entry) => entry.key],
+    ["hash-table-values", (entry) => entry.value],
+    ["hash-table->alist", (entry) => new SCons(entry.key, entry.value)],
+  ];
+  for (const [name, item] of listings) {
+    env.set(
+      name,
+      new SchemeBuiltin((args) => {
+        if (args.length !== 1)
+          throw new Error(`${name}: Expected one argument.`);
+        const table = checkHashTable(name, args[0]);
+        return arrayToList(tableEntries(table).map(item));
+      }),
+    );
+  }
+
+  //
+  // Records
+  //
+  env.set(
+    "make-record-type",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 2)
+        throw new Error("make-record-type: Expected two arguments.");
+      const [name, fields] = args;
+      if (!(name instanceof SchemeId) && !isString(name))
+        throw new Error("make-record-type: Expected a symbol or string name.");
+      const ids = listToArray("make-record-type", fields).map((field) => {
+        if (!(field instanceof SchemeId))
+          throw new Error("make-record-type: Expected a field name.");
+        return field.id;
+      });
+      return new SchemeRecordType(
+        name instanceof SchemeId ? name.id : stringValue(name),
+        ids,
+      );
+    }),
+  );
+
+  // (record-constructor type [fields]): a procedure taking values for the
+  // given fields, by default all of them.  Other fields start out #f.
+  env.set(
+    "record-constructor",
+    new SchemeBuiltin((args) => {
+      if (args.length < 1 || args.length > 2)
+        throw new Error("record-constructor: Expected one or two arguments.");
+      const type = checkRecordType("record-constructor", args[0]);
+      const indexes =
+        args.length > 1
+          ? listToArray("record-constructor", args[1]).map((field) =>
+              fieldIndex("record-constructor", type, field),
+            )
+          : type.fields.map((_, i) => i);
+      return new SchemeBuiltin((args) => {
+        if (args.length !== indexes.length)
+          throw new Error(
+            `${type.name}: Expected ${indexes.length} field values.`,
+          );
+        const values: SchemeType[] = type.fields.map(() => false);
+        indexes.forEach((index, i) => (values[index] = args[i]));
+        return new SchemeRecord(type, values);
+      });
+    }),
+  );
+
+  env.set(
+    "record-predicate",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("record-predicate: Expected one argument.");
+      const type = checkRecordType("record-predicate", args[0]);
+      return new SchemeBuiltin((args) => {
+        if (args.length !== 1)
+          throw new Error(`${type.name}?: Expected one argument.`);
+        return args[0] instanceof SchemeRecord && args[0].type === type;
+      });
+    }),
+  );
+
+  // (record-accessor type field [caller]), where caller names the accessor
+  // in its error messages
+  env.set(
+    "record-accessor",
+    new SchemeBuiltin((args) => {
+      const [type, index, caller] = fieldProcedure("record-accessor", args);
+      return new SchemeBuiltin((args) => {
+        if (args.length !== 1)
+          throw new Error(`${caller}: Expected one argument.`);
+        return checkRecord(caller, type, args[0]).values[index];
+      });
+    }),
+  );
+
+  env.set(
+    "record-modifier",
+    new SchemeBuiltin((args) => {
+      const [type, index, caller] = fieldProcedure("record-modifier", args);
+      return new SchemeBuiltin((args) => {
+        if (args.length !== 2)
+          throw new Error(`${caller}: Expected two arguments.`);
+        checkRecord(caller, type, args[0]).values[index] = args[1];
+        return true;
+      });
+    }),
+  );
+
+  env.set(
+    "record?",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1) throw new Error("record?: Expected one argument.");
+      return args[0] instanceof SchemeRecord;
+    }),
+  );
+
+  //
+  // Continuations
+  //
+  const callCC = new SchemeControlBuiltin((args, k, callSite, tail) => {
+    if (args.length !== 1)
+      throw new Error("call-with-current-continuation: Expected one argument.");
+    return callWithCurrentContinuation(args[0], k, callSite, tail);
+  });
+  env.set("call-with-current-continuation", callCC);
+  env.set("call/cc", callCC);
+
+  env.set(
+    "dynamic-wind",
+    new SchemeControlBuiltin((args, k) => {
+      if (args.length !== 3)
+        throw new Error("dynamic-wind: Expected three arguments.");
+      return dynamicWind(args[0], args[1], args[2], k);
+    }),
+  );
+
+  //
+  // Exceptions
+  //
+  env.set(
+    "raise",
+    new SchemeControlBuiltin((args, k) => {
+      if (args.length !== 1) throw new Error("raise: Expected one argument.");
+      return raise(args[0], false, k);
+    }),
+  );
+
+  env.set(
+    "raise-continuable",
+    new SchemeControlBuiltin((args, k) => {
+      if (args.length !== 1)
+        throw new Error("raise-continuable: Expected one argument.");
+      return raise(args[0], true, k);
+    }),
+  );
+
+  env.set(
+    "with-exception-handler",
+    new SchemeControlBuiltin((args, k) => {
+      if (args.length !== 2)
+        throw new Error("with-exception-handler: Expected two arguments.");
+      return withExceptionHandler(args[0], args[1], k);
+    }),
+  );
+
+  env.set(
+    "error",
+    new SchemeControlBuiltin((args, k) => {
+      if (args.length < 1)
+        throw new Error("error: Expected at least one argument.");
+      const [message, ...irritants] = args;
+      const irritantList = irritants.reduceRight(
+        (acc: SchemeType, irritant) => new SCons(irritant, acc),
+        null,
+      );
+      return raise(
+        new SchemeErrorObject(
+          isString(message) ? stringValue(message) : sexpToStr(message),
+          irritantList,
+        ),
+        false,
+        k,
+      );
+    }),
+  );
+
+  env.set(
+    "error-object?",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("error-object?: Expected one argument.");
+      return args[0] instanceof SchemeErrorObject;
+    }),
+  );
+
+  env.set(
+    "error-object-message",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("error-object-message: Expected one argument.");
+      if (!(args[0] instanceof SchemeErrorObject))
+        throw new Error("error-object-message: Expected an error object.");
+      return args[0].message;
+    }),
+  );
+
+  env.set(
+    "error-object-irritants",
+    new SchemeBuiltin((args) => {
+      if (args.length !== 1)
+        throw new Error("error-object-irritants: Expected one argument.");
+      if (!(args[0] instanceof SchemeErrorObject))
+        throw new Error("error-object-irritants: Expected an error object.");
+      return args[0].irritants;
     }),
   );
 
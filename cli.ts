@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+import { createReadStream, existsSync, mkdirSync, writeFileSync } from "fs";
+import { dirname, relative, resolve } from "path";
+import { TokenType, InputStream, Lexer } from "./lexer";
+import { SchemeParser } from "./parser";
+import { SchemeType } from "./types";
+import { SchemeJSCompiler } from "./jscompiler";
+import { initEnv } from "./builtins";
+import { formatError } from "./source";
+
+//
+// tsscm compile foo.scm -o foo.js
+//
+// Compiles a program, with lib.scm in front of it, to an ES module that runs
+// under node with only the runtime (dist/runtime.js).
+//
+
+const USAGE = "usage: tsscm compile <file.scm> [-o <file.js>]";
+
+async function readForms(path: string): Promise<SchemeType[]> {
+  const lexer = new Lexer(new InputStream(createReadStream(path), path));
+  const parser = new SchemeParser(lexer);
+  const forms: SchemeType[] = [];
+  try {
+    while ((await lexer.peek()).type !== TokenType.EOF) {
+      forms.push(await parser.parse());
+    }
+  } finally {
+    lexer.close();
+  }
+  return forms;
+}
+
+// Import specifiers are relative to the importing module
+function specifier(from: string, to: string): string {
+  const path = relative(from, to).split("\\").join("/");
+  return path.startsWith(".") ? path : "./" + path;
+}
+
+export async function compile(input: string, output: string): Promise<void> {
+  const libPath = resolve(__dirname, "lib.scm");
+  if (!existsSync(libPath)) {
+    throw new Error(libPath + ": file not found.");
+  }
+  if (!existsSync(input)) {
+    throw new Error(input + ": file not found.");
+  }
+  const lib = await readForms(libPath);
+  const program = await readForms(input);
+
+  // lib.scm runs at compile time too, so its macros and the procedures
+  // their transformers call are defined
+  const env = initEnv();
+  const compiler = new SchemeJSCompiler();
+  for (const form of lib) {
+    compiler.analyzeSexp(form, env)(env);
+  }
+
+  const outputDir = dirname(resolve(output));
+  const { code, map } = compiler.generateModule([...lib, ...program], env, {
+    source: input,
+    output,
+    runtime: specifier(outputDir, resolve(__dirname, "runtime.js")),
+    sourceName: (file) => specifier(outputDir, resolve(file.name)),
+  });
+  mkdirSync(outputDir, { recursive: true });
+  writeFileSync(output, code);
+  writeFileSync(output + ".map", JSON.stringify(map));
+}
+
+async function main(args: string[]): Promise<void> {
+  const [command, input, ...rest] = args;
+  if (command !== "compile" || input === undefined) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+  let output = input.replace(/\.scm$/, "") + ".js";
+  if (rest.length === 2 && rest[0] === "-o") {
+    output = rest[1];
+  } else if (rest.length !== 0) {
+    console.error(USAGE);
+    process.exitCode = 2;
+    return;
+  }
+
+  try {
+    await compile(input, output);
+  } catch (error) {
+    console.error(formatError(error));
+    process.exitCode = 1;
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2));
+}
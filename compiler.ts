@@ -0,0 +1,626 @@
+import {
+  SchemeId,
+  SCons,
+  Frame,
+  SchemeProcedure,
+  SchemeType,
+} from "./types";
+import { annotate, spanOf } from "./source";
+import { sexpToStr } from "./printer";
+import { execute } from "./control";
+import { Scope, stripSyntax } from "./syntax";
+import {
+  CaseClause,
+  LetForm,
+  SchemeExpander,
+  carIsId,
+  isDerivedForm,
+  isSelfEvaluating,
+  quasiquoteTemplate,
+  safeCar,
+  safeCdr,
+  safeId,
+} from "./expander";
+import { CaseTarget, Op, Template, run } from "./vm";
+
+//
+// Bytecode compiler
+//
+// Compiles expanded forms to Templates for the VM in vm.ts.  Every compile
+// method leaves the form's value on the operand stack, or, in tail
+// position, returns it from the template.
+//
+export class SchemeCompiler extends SchemeExpander {
+  // Public API: returns a function that runs the code to completion
+  analyzeSexp(sexp: SchemeType, env: Frame): (frame: Frame) => SchemeType {
+    this.env = env;
+    const template = new Template();
+    this.compile(sexp, this.globalScope(env), template, false);
+    template.emit(Op.Return);
+    return (frame: Frame) => execute((k) => run(template, frame, k));
+  }
+
+  private compile(
+    sexp: SchemeType,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    if (sexp instanceof SchemeId) {
+      this.compileVariable(sexp, scope, t);
+      this.finish(t, tail);
+    } else if (isSelfEvaluating(sexp)) {
+      t.emit(Op.Const, t.add(t.constants, stripSyntax(sexp)));
+      this.finish(t, tail);
+    } else if (sexp instanceof SCons) {
+      try {
+        this.compileForm(sexp, scope, t, tail);
+      } catch (error) {
+        // Syntax errors are reported at the innermost enclosing form
+        throw annotate(error, spanOf(sexp));
+      }
+    } else {
+      throw new Error(`Unexpected type: ${typeof sexp}`);
+    }
+  }
+
+  // Returns the value just pushed, in tail position
+  private finish(t: Template, tail: boolean): void {
+    if (tail) t.emit(Op.Return);
+  }
+
+  private compileForm(
+    sexp: SCons,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    const expanded = this.expandMacroUse(sexp, scope);
+    if (expanded !== null) return this.compile(expanded, scope, t, tail);
+    const form = this.specialForm(sexp, scope);
+    if (form === "quote") {
+      const quoted = stripSyntax(safeCar(safeCdr(sexp)));
+      t.emit(Op.Const, t.add(t.constants, quoted));
+    } else if (form === "lambda") {
+      this.compileLambda(safeCdr(sexp) as SCons, scope, t);
+    } else if (form === "define") {
+      this.compileDefine(sexp.cdr as SCons, scope, t);
+    } else if (form === "set!") {
+      this.compileSet(sexp.cdr as SCons, scope, t);
+    } else if (form === "or" || form === "and") {
+      return this.compileJunction(sexp.cdr, scope, t, tail, form === "or");
+    } else if (form === "if") {
+      return this.compileIf(sexp.cdr as SCons, scope, t, tail);
+    } else if (form === "define-macro") {
+      const name = this.defineMacro(sexp.cdr as SCons, scope);
+      t.emit(Op.Const, t.add(t.constants, name));
+    } else if (form === "quasiquote") {
+      this.compileQuasiquote((sexp.cdr as SCons).car, scope, t);
+    } else if (form === "guard") {
+      this.compileGuard(safeCdr(sexp), scope, t, tail);
+    } else if (form === "define-syntax") {
+      const name = this.defineSyntax(sexp.cdr as SCons, scope);
+      t.emit(Op.Const, t.add(t.constants, name));
+    } else if (form === "let-syntax" || form === "letrec-syntax") {
+      const bodyScope = this.letSyntaxScope(
+        (sexp.cdr as SCons).car,
+        scope,
+        form === "letrec-syntax",
+      );
+      return this.compileBody((sexp.cdr as SCons).cdr as SCons, bodyScope, t, tail);
+    } else if (form === "syntax-rules") {
+      throw new Error("syntax-rules: Only valid as a macro transformer.");
+    } else if (form === "begin") {
+      if (sexp.cdr !== null) {
+        return this.compileSequence(sexp.cdr as SCons, scope, t, tail);
+      }
+      // (begin) is #f, like the empty (if #f #f) it used to expand to
+      t.emit(Op.Const, t.add(t.constants, false));
+    } else if (form === "cond") {
+      return this.compileCondClauses("cond", sexp.cdr, scope, t, tail, () => {
+        t.emit(Op.Const, t.add(t.constants, false));
+        this.finish(t, tail);
+      });
+    } else if (form === "case") {
+      return this.compileCase(sexp.cdr, scope, t, tail);
+    } else if (form === "when" || form === "unless") {
+      return this.compileWhen(sexp.cdr, form, scope, t, tail);
+    } else if (form === "do") {
+      return this.compileDo(sexp.cdr, scope, t, tail);
+    } else if (isDerivedForm(form)) {
+      const derived = this.derivedForm(sexp, form as string);
+      return this.compile(derived, scope, t, tail);
+    } else if (
+      form === "let" ||
+      form === "let*" ||
+      form === "letrec" ||
+      form === "letrec*"
+    ) {
+      return this.compileLetForm(sexp, form, scope, t, tail);
+    } else {
+      return this.compileApplication(sexp, scope, t, tail);
+    }
+    this.finish(t, tail);
+  }
+
+  protected makeTransformer(
+    lambdaSexp: SCons,
+    scope: Scope,
+    env: Frame,
+  ): SchemeProcedure {
+    const template = new Template();
+    this.compileLambda(lambdaSexp, scope, template);
+    template.emit(Op.Return);
+    return execute((k) => run(template, env, k)) as SchemeProcedure;
+  }
+
+  //
+  // Variables
+  //
+  private site(t: Template, id: SchemeId, global: string = id.id): number {
+    return t.add(t.sites, { name: id.id, global, span: spanOf(id) });
+  }
+
+  private compileVariable(id: SchemeId, scope: Scope, t: Template): void {
+    const location = this.locate(id, scope);
+    if ("name" in location) {
+      t.emit(Op.Global, this.site(t, id, location.name));
+    } else {
+      t.emit(Op.Local, location.hops, location.index, this.site(t, id));
+    }
+  }
+
+  private compileDefine(sexp: SCons, scope: Scope, t: Template): void {
+    let id: SchemeId;
+    if (sexp.car instanceof SCons) {
+      // sexp is like ((funcname arg1 arg2) body)
+      id = safeId(safeCar(sexp.car));
+      this.compileLambda(new SCons(safeCdr(sexp.car), sexp.cdr), scope, t);
+    } else {
+      id = safeId(sexp.car);
+      this.compile(safeCar(sexp.cdr), scope, t, false);
+    }
+    const binding = this.definitionBinding(id, scope);
+    if (binding.kind === "local") {
+      t.emit(Op.DefineLocal, binding.index, this.site(t, id));
+    } else {
+      t.emit(Op.DefineGlobal, this.site(t, id, binding.name));
+    }
+  }
+
+  private compileSet(sexp: SCons, scope: Scope, t: Template): void {
+    // sexp is (id value)
+    const id = safeId(sexp.car);
+    const location = this.locate(id, scope);
+    this.compile(safeCar(sexp.cdr), scope, t, false);
+    if ("name" in location) {
+      t.emit(Op.SetGlobal, this.site(t, id, location.name));
+    } else {
+      t.emit(Op.SetLocal, location.hops, location.index, this.site(t, id));
+    }
+  }
+
+  //
+  // Procedures
+  //
+  private compileApplication(
+    sexp: SCons,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    this.compile(sexp.car, scope, t, false);
+    const operands = sexp.cdr instanceof SCons ? [...sexp.cdr] : [];
+    for (const operand of operands) this.compile(operand, scope, t, false);
+    const site = t.add(t.sites, { name: "", global: "", span: spanOf(sexp) });
+    t.emit(tail ? Op.TailCall : Op.Call, operands.length, site);
+  }
+
+  // Assumes sexp is of the form ((arg1 arg2 ...) body)
+  private compileLambda(sexp: SCons, scope: Scope, t: Template): void {
+    const bodyScope = new Scope(scope, true);
+    const [params, restParam] = this.bindLambdaArgs(sexp.car, bodyScope);
+    const template = new Template();
+    // The last expression in the body is in tail position
+    this.compileBody(sexp.cdr as SCons, bodyScope, template, true);
+    const lambda = { template, params, restParam, frameSize: bodyScope.size };
+    t.emit(Op.Closure, t.add(t.lambdas, lambda));
+  }
+
+  //
+  // Control
+  //
+
+  // sexp is of the form (expr1 expr2 ...).  `or` stops at the first true
+  // value, `and` at the first #f.
+  private compileJunction(
+    sexp: SchemeType,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+    isOr: boolean,
+  ): void {
+    if (sexp === null) {
+      t.emit(Op.Const, t.add(t.constants, !isOr));
+      return this.finish(t, tail);
+    }
+    const forms = [...(sexp as SCons)];
+    const exits: number[] = [];
+    // All but last are not in tail position, last one is
+    forms.forEach((form, i) => {
+      if (i === forms.length - 1) return this.compile(form, scope, t, tail);
+      this.compile(form, scope, t, false);
+      exits.push(t.emitJump(isOr ? Op.JumpIfTrueKeep : Op.JumpIfFalseKeep));
+    });
+    exits.forEach((exit) => t.patch(exit));
+    if (exits.length > 0) this.finish(t, tail);
+  }
+
+  private compileIf(sexp: SCons, scope: Scope, t: Template, tail: boolean): void {
+    this.compile(sexp.car, scope, t, false);
+    const toAlternative = t.emitJump(Op.JumpIfFalse);
+    this.compile(safeCar(sexp.cdr), scope, t, tail);
+    const toEnd = tail ? null : t.emitJump(Op.Jump);
+    t.patch(toAlternative);
+    const altSexp = safeCdr(sexp.cdr);
+    if (altSexp !== null) {
+      this.compileSequence(altSexp as SCons, scope, t, tail);
+    } else {
+      t.emit(Op.Const, t.add(t.constants, false));
+      this.finish(t, tail);
+    }
+    if (toEnd !== null) t.patch(toEnd);
+  }
+
+  // sexp is ((var clause...) body...)
+  private compileGuard(
+    sexp: SchemeType,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    const spec = safeCar(sexp);
+    if (!(spec instanceof SCons) || !(spec.car instanceof SchemeId)) {
+      throw new Error("guard: Expected (guard (var clause...) body...).");
+    }
+    const clauseScope = new Scope(scope, true);
+    // The condition is in slot 0 of the clauses' frame
+    const id = spec.car;
+    this.bindVariable(id, clauseScope);
+    // The body isn't in tail position: the guard stays installed around it
+    const body = new Template();
+    this.compileBody(safeCdr(sexp) as SCons, scope, body, false);
+    body.emit(Op.Return);
+    // With no matching clause, re-raise to the handlers outside the guard
+    const clauses = new Template();
+    const form = "guard";
+    this.compileCondClauses(form, spec.cdr, clauseScope, clauses, tail, () => {
+      clauses.emit(Op.Local, 0, 0, this.site(clauses, id));
+      clauses.emit(Op.Reraise);
+    });
+    if (!tail) clauses.emit(Op.Return);
+    const frameSize = clauseScope.size;
+    t.emit(Op.Guard, t.add(t.guards, { body, clauses, frameSize }));
+    this.finish(t, tail);
+  }
+
+  // Clauses of the form (test expr...), (test => receiver), (test) or
+  // (else expr...), tried in order.  fallback emits the code for when none
+  // match.  form names the cond or guard form the clauses are in, for
+  // errors.
+  private compileCondClauses(
+    form: string,
+    clauses: SchemeType,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+    fallback: () => void,
+  ): void {
+    const exits: number[] = [];
+    let hasElse = false;
+    for (let rest = clauses; rest !== null; rest = safeCdr(rest)) {
+      const clause = safeCar(rest);
+      if (!(clause instanceof SCons)) {
+        throw new Error(`${form}: Malformed clause: ${sexpToStr(clause)}`);
+      }
+      if (carIsId(clause, "else")) {
+        if (safeCdr(rest) !== null) {
+          throw new Error(`${form}: else clause must be last.`);
+        } else if (clause.cdr === null) {
+          throw new Error(`${form}: Malformed clause: ${sexpToStr(clause)}`);
+        }
+        this.compileSequence(clause.cdr as SCons, scope, t, tail);
+        hasElse = true;
+        break;
+      }
+      this.compile(clause.car, scope, t, false);
+      if (clause.cdr === null) {
+        exits.push(t.emitJump(Op.JumpIfTrueKeep));
+      } else if (carIsId(clause.cdr, "=>")) {
+        const receiverSexp = safeCdr(clause.cdr);
+        if (!(receiverSexp instanceof SCons) || receiverSexp.cdr !== null) {
+          throw new Error(
+            `${form}: => must be followed by exactly one expression.`,
+          );
+        }
+        t.emit(Op.Dup);
+        const toNext = t.emitJump(Op.JumpIfFalse);
+        this.compile(receiverSexp.car, scope, t, false);
+        t.emit(Op.Swap);
+        const site = t.add(t.sites, { name: "", global: "", span: spanOf(clause) });
+        t.emit(tail ? Op.TailCall : Op.Call, 1, site);
+        if (!tail) exits.push(t.emitJump(Op.Jump));
+        t.patch(toNext);
+        t.emit(Op.Pop);
+      } else {
+        const toNext = t.emitJump(Op.JumpIfFalse);
+        this.compileSequence(clause.cdr as SCons, scope, t, tail);
+        if (!tail) exits.push(t.emitJump(Op.Jump));
+        t.patch(toNext);
+      }
+    }
+    if (!hasElse) fallback();
+    exits.forEach((exit) => t.patch(exit));
+    if (exits.length > 0) this.finish(t, tail);
+  }
+
+  // sexp is (test expr...).  when runs the exprs if test is true, unless
+  // if it is #f.  Otherwise the value is #f.
+  private compileWhen(
+    sexp: SchemeType,
+    form: string,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    if (!(sexp instanceof SCons) || !(sexp.cdr instanceof SCons)) {
+      throw new Error(`${form}: Expected (${form} test expr...).`);
+    }
+    const body = sexp.cdr;
+    const otherwise = () => {
+      t.emit(Op.Const, t.add(t.constants, false));
+      this.finish(t, tail);
+    };
+    this.compile(sexp.car, scope, t, false);
+    const toFalse = t.emitJump(Op.JumpIfFalse);
+    if (form === "when") {
+      this.compileSequence(body, scope, t, tail);
+    } else {
+      otherwise();
+    }
+    const toEnd = tail ? null : t.emitJump(Op.Jump);
+    t.patch(toFalse);
+    if (form === "when") {
+      otherwise();
+    } else {
+      this.compileSequence(body, scope, t, tail);
+    }
+    if (toEnd !== null) t.patch(toEnd);
+  }
+
+  // sexp is (key clause...).  CASE jumps to the first clause with a datum
+  // eqv? to the key, with the key still on the stack, or falls through to
+  // the else clause.  With no match the value is #f.
+  private compileCase(
+    sexp: SchemeType,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    const clauses = this.caseClauses(sexp);
+    this.compile(safeCar(sexp), scope, t, false);
+    const table: CaseTarget[] = [];
+    t.emit(Op.Case, t.add(t.cases, table));
+    const exits: number[] = [];
+    const compileClause = ({ body, receiver, span }: CaseClause) => {
+      if (receiver) {
+        this.compile(body.car, scope, t, false);
+        t.emit(Op.Swap);
+        const site = t.add(t.sites, { name: "", global: "", span });
+        t.emit(tail ? Op.TailCall : Op.Call, 1, site);
+      } else {
+        t.emit(Op.Pop);
+        this.compileSequence(body, scope, t, tail);
+      }
+      if (!tail) exits.push(t.emitJump(Op.Jump));
+    };
+    const otherwise = clauses.find(({ data }) => data === null);
+    if (otherwise !== undefined) {
+      compileClause(otherwise);
+    } else {
+      t.emit(Op.Pop);
+      t.emit(Op.Const, t.add(t.constants, false));
+      this.finish(t, tail);
+      if (!tail) exits.push(t.emitJump(Op.Jump));
+    }
+    for (const clause of clauses) {
+      if (clause.data === null) continue;
+      table.push({ data: clause.data, target: t.code.length });
+      compileClause(clause);
+    }
+    exits.forEach((exit) => t.patch(exit));
+  }
+
+  // Each iteration runs in a fresh frame, so closures made in one see that
+  // iteration's bindings.  The steps are evaluated in the old frame.
+  private compileDo(
+    sexp: SchemeType,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    const doForm = this.doForm(sexp);
+    for (const init of doForm.inits) this.compile(init, scope, t, false);
+    const loopScope = new Scope(scope, true);
+    for (const id of doForm.ids) this.bindVariable(id, loopScope);
+    const at = this.enter(t, doForm.ids.length);
+    const loop = t.code.length;
+    this.compile(doForm.test, loopScope, t, false);
+    const toBody = t.emitJump(Op.JumpIfFalse);
+    if (doForm.results !== null) {
+      this.compileSequence(doForm.results, loopScope, t, tail);
+    } else {
+      t.emit(Op.Const, t.add(t.constants, false));
+      this.finish(t, tail);
+    }
+    const toEnd = tail ? null : t.emitJump(Op.Jump);
+    t.patch(toBody);
+    for (const command of doForm.commands) {
+      this.compile(command, loopScope, t, false);
+      t.emit(Op.Pop);
+    }
+    for (const step of doForm.steps) this.compile(step, loopScope, t, false);
+    t.emit(Op.Leave);
+    const next = this.enter(t, doForm.ids.length);
+    t.emit(Op.Jump, loop);
+    if (toEnd !== null) t.patch(toEnd);
+    t.code[next] = loopScope.size;
+    this.leave(t, at, loopScope, tail);
+  }
+
+  //
+  // Local bindings
+  //
+  // Each let gets a frame of its own, entered and left inline.  In tail
+  // position the template returns from inside the frame, so there is no
+  // LEAVE.  let* nests one frame per binding.
+  //
+  private compileLetForm(
+    sexp: SCons,
+    form: string,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    const letForm = this.letForm(sexp.cdr, form);
+    const { ids, inits, body } = letForm;
+    if (letForm.name !== null) {
+      return this.compileNamedLet(letForm, sexp, scope, t, tail);
+    } else if (form === "letrec" || form === "letrec*") {
+      return this.compileLetrec(letForm, scope, t, tail);
+    } else if (form === "let*") {
+      const nest = (i: number, scope: Scope): void =>
+        this.compileLet(ids.slice(i, i + 1), inits.slice(i, i + 1), scope, t, tail, (s) =>
+          i + 1 < ids.length ? nest(i + 1, s) : this.compileBody(body, s, t, tail),
+        );
+      return nest(0, scope);
+    }
+    this.compileLet(ids, inits, scope, t, tail, (s) =>
+      this.compileBody(body, s, t, tail),
+    );
+  }
+
+  // Emits ENTER, leaving the frame size to be filled in by `leave`
+  private enter(t: Template, argc: number): number {
+    t.emit(Op.Enter, -1, argc);
+    return t.code.length - 2;
+  }
+
+  private leave(t: Template, at: number, scope: Scope, tail: boolean): void {
+    t.code[at] = scope.size;
+    if (!tail) t.emit(Op.Leave);
+  }
+
+  // Pushes the inits' values, then runs the body compiled by `compileBody`
+  // in a new frame with ids bound to them
+  private compileLet(
+    ids: SchemeId[],
+    inits: SchemeType[],
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+    compileBody: (scope: Scope) => void,
+  ): void {
+    for (const init of inits) this.compile(init, scope, t, false);
+    const letScope = new Scope(scope, true);
+    for (const id of ids) this.bindVariable(id, letScope);
+    const at = this.enter(t, ids.length);
+    compileBody(letScope);
+    this.leave(t, at, letScope, tail);
+  }
+
+  // The bindings are unassigned until their inits run, in order, in the
+  // scope of all of them (letrec* semantics, for letrec too)
+  private compileLetrec(
+    letForm: LetForm,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    const letScope = new Scope(scope, true);
+    // The bindings take the first slots
+    for (const id of letForm.ids) this.bindVariable(id, letScope);
+    const at = this.enter(t, 0);
+    letForm.inits.forEach((init, index) => {
+      this.compile(init, letScope, t, false);
+      t.emit(Op.DefineLocal, index, this.site(t, letForm.ids[index]));
+      t.emit(Op.Pop);
+    });
+    this.compileBody(letForm.body, letScope, t, tail);
+    this.leave(t, at, letScope, tail);
+  }
+
+  // (let name ((id init)...) body...) calls a procedure bound to name in
+  // the body only.  The procedure's frame is also where the inits are
+  // evaluated, without name in scope.
+  private compileNamedLet(
+    letForm: LetForm,
+    sexp: SCons,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    const name = letForm.name as SchemeId;
+    const loopScope = new Scope(scope, true);
+    const nameScope = new Scope(loopScope, false);
+    const { index } = this.bindVariable(name, nameScope) as { index: number };
+    const params = letForm.ids.reduceRight<SchemeType>(
+      (rest, id) => new SCons(id, rest),
+      null,
+    );
+    const at = this.enter(t, 0);
+    this.compileLambda(new SCons(params, letForm.body), nameScope, t);
+    t.emit(Op.DefineLocal, index, this.site(t, name));
+    t.emit(Op.Pop);
+    t.emit(Op.Local, 0, index, this.site(t, name));
+    for (const init of letForm.inits) this.compile(init, loopScope, t, false);
+    const site = t.add(t.sites, { name: "", global: "", span: spanOf(sexp) });
+    t.emit(tail ? Op.TailCall : Op.Call, letForm.inits.length, site);
+    this.leave(t, at, loopScope, tail);
+  }
+
+  //
+  // Quasiquote
+  //
+  private compileQuasiquote(sexp: SchemeType, scope: Scope, t: Template): void {
+    const unquoted: SchemeType[] = [];
+    const build = quasiquoteTemplate(sexp, unquoted);
+    for (const expr of unquoted) this.compile(expr, scope, t, false);
+    t.emit(Op.Quasiquote, t.add(t.quasiquotes, build), unquoted.length);
+  }
+
+  //
+  // Bodies
+  //
+
+  // A lambda, let, guard or let-syntax body
+  private compileBody(sexp: SCons, scope: Scope, t: Template, tail: boolean): void {
+    this.bindBodyDefinitions(sexp, scope);
+    this.compileSequence(sexp, scope, t, tail);
+  }
+
+  private compileSequence(
+    sexp: SCons,
+    scope: Scope,
+    t: Template,
+    tail: boolean,
+  ): void {
+    const bodySexps = [...sexp];
+    // All but last expression are not in tail position
+    bodySexps.forEach((expr, i) => {
+      if (i === bodySexps.length - 1) return this.compile(expr, scope, t, tail);
+      this.compile(expr, scope, t, false);
+      t.emit(Op.Pop);
+    });
+  }
+}
@@ -0,0 +1,365 @@
+import {
+  SCons,
+  SchemeProcedure,
+  SchemeControlBuiltin,
+  SchemeErrorObject,
+  SchemeType,
+  Cont,
+  Thunk,
+  CallFrame,
+  callStack,
+  captureBacktrace,
+  multipleValues,
+  resume,
+  trampoline,
+} from "./types";
+import { SourceSpan, annotate } from "./source";
+import { sexpToStr } from "./printer";
+
+//
+// Control: the driver loop, first-class continuations and exceptions
+//
+
+// Calls a procedure with continuation k
+export function invoke(
+  func: SchemeType,
+  args: SchemeType[],
+  k: Cont,
+  callSite?: SourceSpan,
+  tail: boolean = false,
+): SchemeType {
+  if (func instanceof SchemeProcedure) {
+    return func.apply(args, k, callSite, tail);
+  }
+  throw annotate(new Error(`Not a function: ${sexpToStr(func)}`), callSite);
+}
+
+//
+// Dynamic state.  Continuations capture it and put it back when invoked.
+//
+export class HandlerNode {
+  constructor(
+    public readonly handler: SchemeType,
+    public readonly parent: HandlerNode | null,
+  ) {}
+}
+
+export const handlerStack: { top: HandlerNode | null } = { top: null };
+
+// An active dynamic-wind extent
+export class WindNode {
+  public readonly depth: number;
+
+  constructor(
+    public readonly before: SchemeType,
+    public readonly after: SchemeType,
+    public readonly parent: WindNode | null,
+  ) {
+    this.depth = parent === null ? 1 : parent.depth + 1;
+  }
+}
+
+export const windStack: { top: WindNode | null } = { top: null };
+
+interface DynamicState {
+  callFrame: CallFrame | null;
+  handlers: HandlerNode | null;
+  winders: WindNode | null;
+}
+
+function currentState(): DynamicState {
+  return {
+    callFrame: callStack.top,
+    handlers: handlerStack.top,
+    winders: windStack.top,
+  };
+}
+
+function restoreState(state: DynamicState): void {
+  callStack.top = state.callFrame;
+  handlerStack.top = state.handlers;
+  windStack.top = state.winders;
+}
+
+// Moves from the current extents to target: runs the after thunks of the
+// extents being left, innermost first, then the before thunks of the ones
+// being entered, outermost first.  Then calls then().
+function windTo(target: WindNode | null, then: () => SchemeType): SchemeType {
+  const current = windStack.top;
+  if (current === target) return then();
+  if (current !== null && (target === null || current.depth >= target.depth)) {
+    windStack.top = current.parent;
+    return invoke(current.after, [], () => windTo(target, then));
+  }
+  const entering = target as WindNode;
+  return windTo(entering.parent, () =>
+    invoke(entering.before, [], () => {
+      windStack.top = entering;
+      return then();
+    }),
+  );
+}
+
+//
+// Driver
+//
+// Native code (builtins, macro expansion, the REPL) runs Scheme code through
+// execute().  Calls can nest, for example a builtin that calls back into a
+// Scheme procedure.  A continuation belongs to the driver it was captured
+// in: invoking it from a nested driver unwinds the JS stack back to its own
+// driver first.  Once its driver has returned, a continuation runs in
+// whichever driver invokes it, and its final value becomes that driver's
+// result.
+//
+class Driver {
+  public active = true;
+}
+
+const drivers: Driver[] = [];
+
+// Thrown to unwind nested drivers; never seen by Scheme code
+class ContinuationInvoked {
+  constructor(
+    public readonly driver: Driver,
+    public readonly resume: () => SchemeType,
+  ) {}
+}
+
+// Internal errors that have already been offered to the handlers
+const delivered = new WeakSet<Error>();
+
+export function execute(start: (k: Cont) => SchemeType): SchemeType {
+  const driver = new Driver();
+  const entryState = currentState();
+  drivers.push(driver);
+  let next: () => SchemeType = () => start((value) => value);
+  try {
+    while (true) {
+      try {
+        return trampoline(new Thunk(next));
+      } catch (error) {
+        next = recover(driver, entryState, error);
+      }
+    }
+  } finally {
+    driver.active = false;
+    drivers.pop();
+    restoreState(entryState);
+  }
+}
+
+// Works out how to carry on after a JS exception, or rethrows it
+function recover(
+  driver: Driver,
+  entryState: DynamicState,
+  error: unknown,
+): () => SchemeType {
+  if (error instanceof ContinuationInvoked && error.driver === driver) {
+    return error.resume;
+  }
+  if (error instanceof Error) {
+    captureBacktrace(error);
+    if (
+      !delivered.has(error) &&
+      handlerStack.top !== null &&
+      isInterpreterError(error)
+    ) {
+      // Errors from builtins and the analyzer become error objects for
+      // the current handler, which is running when the error was thrown
+      delivered.add(error);
+      return () => raise(conditionFor(error), false, returnedFromError);
+    }
+  }
+  if (windStack.top !== entryState.winders) {
+    // The error leaves this driver: run the after thunks of the extents
+    // entered inside it on the way out
+    return () =>
+      windTo(entryState.winders, () => {
+        throw error;
+      });
+  }
+  throw error;
+}
+
+// Errors raised by builtins and the evaluator, which Scheme code may handle.
+// Failures of the JS engine itself, such as a RangeError when the stack
+// overflows, are not Scheme conditions and are rethrown unchanged.
+function isInterpreterError(error: Error): boolean {
+  return error.constructor === Error || error instanceof SchemeRaise;
+}
+
+function returnedFromError(): never {
+  throw new Error("Unreachable: non-continuable raise returned.");
+}
+
+// Runs a procedure to completion, for native callers
+export function applyProcedure(
+  func: SchemeType,
+  args: SchemeType[],
+  callSite?: SourceSpan,
+): SchemeType {
+  return execute((k) => invoke(func, args, k, callSite));
+}
+
+//
+// Continuations
+//
+export class SchemeContinuation extends SchemeProcedure {
+  private readonly state: DynamicState = currentState();
+  private readonly driver: Driver = drivers[drivers.length - 1];
+
+  constructor(private readonly k: Cont) {
+    super();
+  }
+
+  // Several arguments are returned as multiple values
+  public apply(args: SchemeType[]): SchemeType {
+    return this.reinstate(() => this.k(multipleValues(args)));
+  }
+
+  // Puts back the dynamic state the continuation was captured in, running
+  // dynamic-wind thunks on the way, then runs then() in place of the
+  // current continuation
+  public reinstate(then: () => SchemeType): SchemeType {
+    if (this.driver.active && this.driver !== drivers[drivers.length - 1]) {
+      throw new ContinuationInvoked(this.driver, () => this.reinstate(then));
+    }
+    return windTo(this.state.winders, () => {
+      restoreState(this.state);
+      return then();
+    });
+  }
+}
+
+export function callWithCurrentContinuation(
+  func: SchemeType,
+  k: Cont,
+  callSite?: SourceSpan,
+  tail: boolean = false,
+): SchemeType {
+  return invoke(func, [new SchemeContinuation(k)], k, callSite, tail);
+}
+
+//
+// dynamic-wind
+//
+// The body runs in CPS like any other call, so tail calls inside it still
+// bounce through the trampoline.  Continuations and errors that leave or
+// re-enter the extent run the thunks through windTo().
+//
+export function dynamicWind(
+  before: SchemeType,
+  thunk: SchemeType,
+  after: SchemeType,
+  k: Cont,
+): SchemeType {
+  return invoke(before, [], () => {
+    const node = new WindNode(before, after, windStack.top);
+    windStack.top = node;
+    return invoke(thunk, [], (value) => {
+      windStack.top = node.parent;
+      return invoke(after, [], () => k(value));
+    });
+  });
+}
+
+//
+// R7RS exception handling
+//
+// Handlers live on a dynamic stack.  A handler runs with the handlers outside
+// it installed, so raising from inside a handler goes to the next one out.
+//
+
+// Thrown when an object is raised and no handler is installed
+export class SchemeRaise extends Error {
+  constructor(public readonly payload: SchemeType) {
+    super(describeRaised(payload));
+  }
+}
+
+function describeRaised(payload: SchemeType): string {
+  if (payload instanceof SchemeErrorObject) {
+    let message = payload.message;
+    for (const irritant of payload.irritants instanceof SCons
+      ? payload.irritants
+      : []) {
+      message += " " + sexpToStr(irritant);
+    }
+    return message;
+  }
+  return "Uncaught exception: " + sexpToStr(payload);
+}
+
+const conditions = new WeakMap<Error, SchemeType>();
+
+// The Scheme object for an internal error
+export function conditionFor(error: Error): SchemeType {
+  if (error instanceof SchemeRaise) return error.payload;
+  let condition = conditions.get(error);
+  if (condition === undefined) {
+    condition = new SchemeErrorObject(error.message, null);
+    conditions.set(error, condition);
+  }
+  return condition;
+}
+
+export function raise(
+  payload: SchemeType,
+  continuable: boolean,
+  k: Cont,
+): SchemeType {
+  const node = handlerStack.top;
+  if (node === null) {
+    const error = new SchemeRaise(payload);
+    delivered.add(error);
+    throw error;
+  }
+  handlerStack.top = node.parent;
+  return invoke(node.handler, [payload], (value) => {
+    if (continuable) {
+      handlerStack.top = node;
+      return k(value);
+    }
+    // A secondary exception, raised in the handler's dynamic environment
+    return raise(
+      new SchemeErrorObject(
+        "Exception handler returned from non-continuable raise:",
+        new SCons(payload, null),
+      ),
+      false,
+      k,
+    );
+  });
+}
+
+export function withExceptionHandler(
+  handler: SchemeType,
+  thunk: SchemeType,
+  k: Cont,
+): SchemeType {
+  const outer = handlerStack.top;
+  handlerStack.top = new HandlerNode(handler, outer);
+  return invoke(thunk, [], (value) => {
+    handlerStack.top = outer;
+    return resume(k, value);
+  });
+}
+
+// Runs body with a handler that returns to the guard's continuation and
+// passes the raised object to onRaise there
+export function guard(
+  body: (k: Cont) => SchemeType,
+  onRaise: (condition: SchemeType, k: Cont) => SchemeType,
+  k: Cont,
+): SchemeType {
+  const escape = new SchemeContinuation(k);
+  const outer = handlerStack.top;
+  const handler = new SchemeControlBuiltin((args) =>
+    escape.reinstate(() => onRaise(args[0], k)),
+  );
+  handlerStack.top = new HandlerNode(handler, outer);
+  return body((value) => {
+    handlerStack.top = outer;
+    return resume(k, value);
+  });
+}
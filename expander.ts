@@ -0,0 +1,840 @@
+import {
+  SchemeId,
+  SchemeChar,
+  SCons,
+  SchemeVector,
+  Frame,
+  SchemeClosure,
+  SchemeProcedure,
+  SchemeType,
+  isString,
+} from "./types";
+import { SourceSpan, annotate, inheritSpan, spanOf } from "./source";
+import { sexpToStr } from "./printer";
+import { arrayToList, listToVector, receiveValues } from "./builtins";
+import { isNumber } from "./numbers";
+import { applyProcedure } from "./control";
+import {
+  Alias,
+  Scope,
+  SyntaxRules,
+  Transformer,
+  VariableBinding,
+  resolve,
+  sameIdentifier,
+  stripSyntax,
+} from "./syntax";
+
+//
+// Helper functions
+//
+export function safeCar(s: SchemeType): SchemeType {
+  if (s instanceof SCons) {
+    return s.car;
+  } else {
+    throw new Error("car: Expected cons.");
+  }
+}
+
+export function safeCdr(s: SchemeType): SchemeType {
+  if (s instanceof SCons) {
+    return s.cdr;
+  } else {
+    throw new Error("cdr: Expected cons.");
+  }
+}
+
+export function safeId(s: SchemeType): SchemeId {
+  if (s instanceof SchemeId) {
+    return s;
+  } else {
+    throw new Error("id: Expected identifier.");
+  }
+}
+
+export function carIsId(sexp: SchemeType, id: string): boolean {
+  return (
+    sexp instanceof SCons && sexp.car instanceof SchemeId && sexp.car.id === id
+  );
+}
+
+// Literals that evaluate to themselves
+export function isSelfEvaluating(sexp: SchemeType): boolean {
+  return (
+    isNumber(sexp) ||
+    isString(sexp) ||
+    typeof sexp === "boolean" ||
+    sexp instanceof SchemeChar ||
+    sexp instanceof SchemeVector ||
+    sexp instanceof Uint8Array ||
+    sexp === null
+  );
+}
+
+const SPECIAL_FORMS = [
+  "quote",
+  "lambda",
+  "define",
+  "set!",
+  "or",
+  "and",
+  "if",
+  "define-macro",
+  "quasiquote",
+  "guard",
+  "define-syntax",
+  "let-syntax",
+  "letrec-syntax",
+  "syntax-rules",
+  "begin",
+  "let",
+  "let*",
+  "letrec",
+  "letrec*",
+  "cond",
+  "case",
+  "when",
+  "unless",
+  "do",
+  "define-record-type",
+  "receive",
+  "let-values",
+  "let*-values",
+  "define-values",
+];
+
+// Special forms the expander rewrites into other forms for the backends
+const DERIVED_FORMS = [
+  "define-record-type",
+  "receive",
+  "let-values",
+  "let*-values",
+  "define-values",
+];
+
+export function isDerivedForm(form: string | null): boolean {
+  return form !== null && DERIVED_FORMS.includes(form);
+}
+
+// Throws if id is already among the identifiers a form binds
+function checkDistinct(
+  form: string,
+  what: string,
+  ids: SchemeId[],
+  id: SchemeId,
+): void {
+  if (ids.some((other) => sameIdentifier(other, id))) {
+    throw new Error(`${form}: Duplicate ${what}: ${id.id}`);
+  }
+}
+
+function listOf(...items: SchemeType[]): SCons {
+  return arrayToList(items) as SCons;
+}
+
+// Copies the span of from onto the cells of sexp that have none, down to
+// the subforms that have their own
+function inheritSpans(sexp: SchemeType, from: SchemeType): void {
+  for (; sexp instanceof SCons && spanOf(sexp) === undefined; sexp = sexp.cdr) {
+    inheritSpan(sexp, from);
+    inheritSpans(sexp.car, from);
+  }
+}
+
+// A local variable's slot, so many frames up, or a global's name
+export type Location = { hops: number; index: number } | { name: string };
+
+// (let [name] ((id init)...) body...) taken apart.  Only plain let can be
+// named.
+export interface LetForm {
+  name: SchemeId | null;
+  ids: SchemeId[];
+  inits: SchemeType[];
+  body: SCons;
+}
+
+// A case clause: the data it matches, or null for else, and its body, or
+// its receiver's expression after =>
+export interface CaseClause {
+  data: SchemeType[] | null;
+  body: SCons;
+  receiver: boolean;
+  span: SourceSpan | undefined;
+}
+
+// (do ((id init [step])...) (test result...) command...) taken apart.  An
+// id without a step keeps its value, so its step is the id itself.
+export interface DoForm {
+  ids: SchemeId[];
+  inits: SchemeType[];
+  steps: SchemeType[];
+  test: SchemeType;
+  results: SCons | null;
+  commands: SchemeType[];
+}
+
+//
+// Front end shared by the backends
+//
+// Macros are expanded as forms are analyzed, so that expansion can follow
+// the lexical scope: the compile-time Scope records what each identifier
+// means (variable, macro or special form) and mirrors the runtime frames.
+// Backends walk the expanded forms and turn them into something runnable.
+//
+export abstract class SchemeExpander {
+  // Top-level scope of each environment: special forms and global macros
+  private globals = new WeakMap<Frame, Scope>();
+
+  // Environment of the form being analyzed.  define-macro transformers are
+  // evaluated in it at compile time.
+  protected env: Frame | null = null;
+
+  // Counter for the runtime names of variables bound by macro expansions
+  private renames = 0;
+
+  // Public API: returns a function that runs the code to completion
+  public abstract analyzeSexp(
+    sexp: SchemeType,
+    env: Frame,
+  ): (frame: Frame) => SchemeType;
+
+  // The procedure for a define-macro transformer, given its
+  // ((args...) body...) and the environment it's defined in
+  protected abstract makeTransformer(
+    lambdaSexp: SCons,
+    scope: Scope,
+    env: Frame,
+  ): SchemeProcedure;
+
+  protected globalScope(env: Frame): Scope {
+    let scope = this.globals.get(env);
+    if (scope === undefined) {
+      scope = new Scope(null, false);
+      for (const name of SPECIAL_FORMS) {
+        scope.bind(SchemeId.of(name), { kind: "special", name });
+      }
+      this.globals.set(env, scope);
+    }
+    return scope;
+  }
+
+  // The special form that sexp's head names in scope, if any
+  protected specialForm(sexp: SchemeType, scope: Scope): string | null {
+    if (!(sexp instanceof SCons) || !(sexp.car instanceof SchemeId)) {
+      return null;
+    }
+    const binding = resolve(sexp.car, scope);
+    return binding.kind === "special" ? binding.name : null;
+  }
+
+  //
+  // Macros
+  //
+
+  // Expands sexp if it is a macro use.  Returns null otherwise.
+  protected expandMacroUse(sexp: SCons, scope: Scope): SchemeType | null {
+    if (!(sexp.car instanceof SchemeId)) return null;
+    const binding = resolve(sexp.car, scope);
+    if (binding.kind !== "macro") return null;
+    return this.expandMacro(binding.transformer, sexp, scope);
+  }
+
+  private expandMacro(
+    transformer: Transformer,
+    sexp: SCons,
+    scope: Scope,
+  ): SchemeType {
+    let expanded: SchemeType;
+    try {
+      if (transformer instanceof SyntaxRules) {
+        expanded = transformer.expand(sexp, scope);
+      } else {
+        // Transformers see the arguments as data, with symbols for
+        // identifiers
+        const args = sexp.cdr === null ? [] : [...(sexp.cdr as SCons)];
+        expanded = applyProcedure(transformer, args.map(stripSyntax));
+      }
+    } catch (error) {
+      throw annotate(error, spanOf(sexp));
+    }
+    // Point errors in the expansion back at the macro call
+    inheritSpan(expanded, sexp);
+    if (this.env?.lookup("*show-me*") == true) {
+      console.log("macro expansion:", sexpToStr(expanded));
+    }
+    return expanded;
+  }
+
+  // sexp is (syntax-rules ...), for the macro `id` defined in scope
+  private syntaxRules(id: SchemeId, sexp: SchemeType, scope: Scope): SyntaxRules {
+    if (this.specialForm(sexp, scope) !== "syntax-rules") {
+      throw new Error(`${id.id}: Expected a syntax-rules transformer.`);
+    }
+    return new SyntaxRules(id.id, (sexp as SCons).cdr, scope);
+  }
+
+  // sexp is (name (syntax-rules ...)).  Returns the name.
+  protected defineSyntax(sexp: SCons, scope: Scope): SchemeId {
+    const id = safeId(sexp.car);
+    const transformer = this.syntaxRules(id, safeCar(sexp.cdr), scope);
+    scope.bind(id, { kind: "macro", transformer });
+    return SchemeId.of(id.id);
+  }
+
+  // bindings is ((name (syntax-rules ...))...).  Returns the scope for the
+  // body, which shares the enclosing runtime frame; only the macros are
+  // scoped to it.
+  protected letSyntaxScope(
+    bindings: SchemeType,
+    scope: Scope,
+    recursive: boolean,
+  ): Scope {
+    const bodyScope = new Scope(scope, false);
+    for (const binding of bindings === null ? [] : [...(bindings as SCons)]) {
+      const id = safeId(safeCar(binding));
+      const transformer = this.syntaxRules(
+        id,
+        safeCar(safeCdr(binding)),
+        recursive ? bodyScope : scope,
+      );
+      bodyScope.bind(id, { kind: "macro", transformer });
+    }
+    return bodyScope;
+  }
+
+  // sexp is ((name args...) body...).  The transformer is created at
+  // compile time, so it can only refer to top-level bindings; the macro
+  // itself is scoped like any other binding.  Returns the name.
+  protected defineMacro(sexp: SCons, scope: Scope): SchemeId {
+    const id = safeId(safeCar(sexp.car));
+    const lambdaSexp = new SCons(safeCdr(sexp.car), sexp.cdr);
+    const env = this.env as Frame;
+    const transformer = this.makeTransformer(
+      lambdaSexp,
+      this.globalScope(env),
+      env,
+    );
+    if (transformer instanceof SchemeClosure) transformer.name = id.id;
+    scope.bind(id, { kind: "macro", transformer });
+    return SchemeId.of(id.id);
+  }
+
+  //
+  // Variables
+  //
+
+  // Binds id as a variable in scope.  Inside a procedure it gets the next
+  // slot in the frame; at top level it is a global, and identifiers from
+  // macro templates get fresh names so they can't capture or be captured
+  // by the user's variables.
+  protected bindVariable(id: SchemeId, scope: Scope): VariableBinding {
+    const owner = scope.frame;
+    let binding: VariableBinding;
+    if (owner === null) {
+      const name = id instanceof Alias ? `${id.id}#${++this.renames}` : id.id;
+      binding = { kind: "global", name };
+    } else {
+      binding = { kind: "local", frame: owner, index: owner.size++ };
+    }
+    scope.bind(id, binding);
+    return binding;
+  }
+
+  // Where a variable lives at runtime: a slot some frames up from the
+  // current one, or a global
+  protected locate(id: SchemeId, scope: Scope): Location {
+    const binding = resolve(id, scope);
+    if (binding.kind === "local") {
+      return { hops: scope.depth - binding.frame.depth, index: binding.index };
+    }
+    return { name: binding.kind === "global" ? binding.name : id.id };
+  }
+
+  // The binding for a definition of id in scope
+  protected definitionBinding(id: SchemeId, scope: Scope): VariableBinding {
+    const existing = scope.lookupLocal(id);
+    if (existing?.kind === "local" || existing?.kind === "global") {
+      return existing;
+    }
+    if (scope.parent === null) {
+      // Top-level definitions replace macros of the same name
+      if (existing?.kind === "macro") scope.unbind(id);
+      return { kind: "global", name: id.id };
+    }
+    return this.bindVariable(id, scope);
+  }
+
+  // Sexp is of the form (arg1 arg2 ... argn [ . rest ]).  Binds the
+  // arguments to the first slots of scope's frame and returns their names.
+  protected bindLambdaArgs(
+    sexpArgs: SchemeType,
+    scope: Scope,
+  ): [string[], string | null] {
+    const args = [];
+    let rest = null;
+    let sexp: SchemeType = sexpArgs;
+    const ids: SchemeId[] = [];
+    const bind = (id: SchemeId) => {
+      checkDistinct("lambda", "parameter", ids, id);
+      ids.push(id);
+      this.bindVariable(id, scope);
+    };
+    while (sexp != null) {
+      if (sexp instanceof SCons) {
+        const id = safeId(sexp.car);
+        bind(id);
+        args.push(id.id);
+        sexp = sexp.cdr;
+      } else {
+        const id = safeId(sexp);
+        bind(id);
+        rest = id.id;
+        break;
+      }
+    }
+    return [args, rest];
+  }
+
+  // sexp is the rest of a let, let*, letrec or letrec* form
+  protected letForm(sexp: SchemeType, form: string): LetForm {
+    const usage = `${form}: Expected (${form} ((name value)...) body...).`;
+    let name: SchemeId | null = null;
+    if (form === "let" && sexp instanceof SCons && sexp.car instanceof SchemeId) {
+      name = sexp.car;
+      sexp = sexp.cdr;
+    }
+    if (!(sexp instanceof SCons) || !(sexp.cdr instanceof SCons)) {
+      throw new Error(usage);
+    }
+    if (sexp.car !== null && !(sexp.car instanceof SCons)) {
+      throw new Error(usage);
+    }
+    const ids: SchemeId[] = [];
+    const inits: SchemeType[] = [];
+    for (const binding of sexp.car === null ? [] : [...sexp.car]) {
+      if (
+        !(binding instanceof SCons) ||
+        !(binding.car instanceof SchemeId) ||
+        !(binding.cdr instanceof SCons) ||
+        binding.cdr.cdr !== null
+      ) {
+        throw new Error(`${form}: Malformed binding: ${sexpToStr(binding)}`);
+      }
+      // let* binds one variable at a time, so it may rebind a name
+      if (form !== "let*") checkDistinct(form, "binding", ids, binding.car);
+      ids.push(binding.car);
+      inits.push(binding.cdr.car);
+    }
+    return { name, ids, inits, body: sexp.cdr };
+  }
+
+  // sexp is the rest of a case form, (key clause...).  Returns the clauses.
+  protected caseClauses(sexp: SchemeType): CaseClause[] {
+    if (!(sexp instanceof SCons)) {
+      throw new Error("case: Expected (case key clause...).");
+    }
+    const clauses: CaseClause[] = [];
+    for (let rest = sexp.cdr; rest !== null; rest = safeCdr(rest)) {
+      const clause = safeCar(rest);
+      if (
+        !(clause instanceof SCons) ||
+        !(clause.cdr instanceof SCons) ||
+        (clause.car !== null &&
+          !(clause.car instanceof SCons) &&
+          !carIsId(clause, "else"))
+      ) {
+        throw new Error(`case: Malformed clause: ${sexpToStr(clause)}`);
+      }
+      const isElse = carIsId(clause, "else");
+      if (isElse && safeCdr(rest) !== null) {
+        throw new Error("case: else clause must be last.");
+      }
+      const receiver = carIsId(clause.cdr, "=>");
+      const body = receiver ? safeCdr(clause.cdr) : clause.cdr;
+      if (receiver && (!(body instanceof SCons) || body.cdr !== null)) {
+        throw new Error("case: => must be followed by exactly one expression.");
+      }
+      const data = isElse
+        ? null
+        : clause.car === null
+          ? []
+          : [...(clause.car as SCons)].map(stripSyntax);
+      clauses.push({ data, body: body as SCons, receiver, span: spanOf(clause) });
+    }
+    return clauses;
+  }
+
+  // sexp is the rest of a do form
+  protected doForm(sexp: SchemeType): DoForm {
+    const usage = "do: Expected (do ((var init step)...) (test expr...) command...).";
+    if (
+      !(sexp instanceof SCons) ||
+      (sexp.car !== null && !(sexp.car instanceof SCons)) ||
+      !(sexp.cdr instanceof SCons) ||
+      !(sexp.cdr.car instanceof SCons)
+    ) {
+      throw new Error(usage);
+    }
+    const ids: SchemeId[] = [];
+    const inits: SchemeType[] = [];
+    const steps: SchemeType[] = [];
+    for (const binding of sexp.car === null ? [] : [...sexp.car]) {
+      const parts = binding instanceof SCons ? [...binding] : [];
+      if (
+        !(parts[0] instanceof SchemeId) ||
+        parts.length < 2 ||
+        parts.length > 3
+      ) {
+        throw new Error(`do: Malformed binding: ${sexpToStr(binding)}`);
+      }
+      ids.push(parts[0]);
+      inits.push(parts[1]);
+      steps.push(parts.length === 3 ? parts[2] : parts[0]);
+    }
+    const { car: test, cdr: results } = sexp.cdr.car;
+    const commands = sexp.cdr.cdr === null ? [] : [...(sexp.cdr.cdr as SCons)];
+    return { ids, inits, steps, test, results: results as SCons | null, commands };
+  }
+
+  //
+  // Derived forms
+  //
+
+  // The forms a derived form stands for.  Every form it generates has the
+  // derived form's source location, so errors in them point at it.
+  protected derivedForm(sexp: SCons, form: string): SCons {
+    let result: SCons;
+    if (form === "define-record-type") {
+      result = this.recordTypeDefinitions(sexp);
+    } else if (form === "receive") {
+      result = this.receive(sexp);
+    } else if (form === "let-values") {
+      result = this.letValues(sexp);
+    } else if (form === "let*-values") {
+      result = this.letStarValues(sexp);
+    } else if (form === "define-values") {
+      result = this.defineValues(sexp);
+    } else {
+      throw new Error(`${form}: Not a derived form.`);
+    }
+    inheritSpans(result, sexp);
+    return result;
+  }
+
+  // An identifier meaning what name means at top level, for the keywords
+  // and procedures that derived forms use
+  private globalId(name: string): Alias {
+    return new Alias(SchemeId.of(name), this.globalScope(this.env as Frame));
+  }
+
+  // ('receive-values form count rest? (lambda () expr)
+  //   (lambda formals body...)), which checks that expr returns as many
+  //   values as formals takes before calling the lambda
+  private callWithValues(
+    form: string,
+    expr: SchemeType,
+    formals: SchemeType,
+    body: SchemeType[],
+  ): SCons {
+    let count = 0;
+    let rest = formals;
+    for (; rest instanceof SCons; rest = rest.cdr) count++;
+    const lambda = this.globalId("lambda");
+    return listOf(
+      listOf(this.globalId("quote"), receiveValues),
+      form,
+      count,
+      rest !== null,
+      listOf(lambda, null, expr),
+      listOf(lambda, formals, ...body),
+    );
+  }
+
+  // Formals like the given ones, whose identifiers are temporaries that no
+  // user code can refer to.  Adds each identifier and its temporary to
+  // renames.
+  private temporaryFormals(
+    formals: SchemeType,
+    renames: [SchemeId, SchemeId][],
+  ): SchemeType {
+    if (formals === null) return null;
+    if (formals instanceof SCons) {
+      return new SCons(
+        this.temporaryFormals(formals.car, renames),
+        this.temporaryFormals(formals.cdr, renames),
+      );
+    }
+    const id = safeId(formals);
+    const temporary = new Alias(id, this.globalScope(this.env as Frame));
+    renames.push([id, temporary]);
+    return temporary;
+  }
+
+  // (receive formals expr body...)
+  private receive(sexp: SCons): SCons {
+    const [, formals, expr, ...body] = [...sexp];
+    if (expr === undefined || body.length === 0) {
+      throw new Error("receive: Expected (receive formals expr body...).");
+    }
+    return this.callWithValues("receive", expr, formals, body);
+  }
+
+  // The ((formals expr)...) and body of a let-values or let*-values form
+  private valuesBindings(
+    sexp: SCons,
+    form: string,
+  ): [[SchemeType, SchemeType][], SchemeType[]] {
+    const [, bindings, ...body] = [...sexp];
+    if (
+      (bindings !== null && !(bindings instanceof SCons)) ||
+      body.length === 0
+    ) {
+      const usage = `(${form} ((formals expr)...) body...)`;
+      throw new Error(`${form}: Expected ${usage}.`);
+    }
+    const pairs = (bindings === null ? [] : [...bindings]).map((binding) => {
+      const parts = binding instanceof SCons ? [...binding] : [];
+      if (parts.length !== 2) {
+        throw new Error(`${form}: Malformed binding: ${sexpToStr(binding)}`);
+      }
+      return parts as [SchemeType, SchemeType];
+    });
+    return [pairs, body];
+  }
+
+  // Every expr is evaluated outside the bindings, so their values go to
+  // temporaries first:
+  // ('receive-values ... (lambda () expr1) (lambda temporaries1 ...
+  //   (let ((id temporary)...) body...)))
+  private letValues(sexp: SCons): SCons {
+    const [pairs, body] = this.valuesBindings(sexp, "let-values");
+    const renames: [SchemeId, SchemeId][] = [];
+    const temporaries = pairs.map(([formals, expr]) => ({
+      formals: this.temporaryFormals(formals, renames),
+      expr,
+    }));
+    const bindings = renames.map(([id, temporary]) => listOf(id, temporary));
+    return temporaries.reduceRight(
+      (inner, { formals, expr }) =>
+        this.callWithValues("let-values", expr, formals, [inner]),
+      listOf(this.globalId("let"), arrayToList(bindings), ...body),
+    );
+  }
+
+  // Each expr sees the bindings before it:
+  // ('receive-values ... (lambda () expr1) (lambda formals1 ...
+  //   (let () body...)))
+  private letStarValues(sexp: SCons): SCons {
+    const [pairs, body] = this.valuesBindings(sexp, "let*-values");
+    return pairs.reduceRight(
+      (inner, [formals, expr]) =>
+        this.callWithValues("let*-values", expr, formals, [inner]),
+      listOf(this.globalId("let"), null, ...body),
+    );
+  }
+
+  // (define-values formals expr) defines each identifier, then assigns it
+  // its value:
+  // (begin (define id #f)...
+  //   ('receive-values ... (lambda () expr)
+  //     (lambda temporaries (set! id temporary)...)))
+  private defineValues(sexp: SCons): SCons {
+    const [, formals, expr, ...rest] = [...sexp];
+    if (expr === undefined || rest.length !== 0) {
+      throw new Error("define-values: Expected (define-values formals expr).");
+    }
+    const renames: [SchemeId, SchemeId][] = [];
+    const temporaries = this.temporaryFormals(formals, renames);
+    const definitions = renames.map(([id]) =>
+      listOf(this.globalId("define"), id, false),
+    );
+    const assignments = renames.map(([id, temporary]) =>
+      listOf(this.globalId("set!"), id, temporary),
+    );
+    return listOf(
+      this.globalId("begin"),
+      ...definitions,
+      this.callWithValues("define-values", expr, temporaries, [
+        ...assignments,
+        true,
+      ]),
+    );
+  }
+
+  // sexp is (define-record-type type (constructor field...) predicate
+  // (field accessor [modifier])...).  Returns the definitions it stands
+  // for, which make the record type and its procedures with make-record-type
+  // and friends.  The constructor spec may be #f for none, or a bare name
+  // taking every field.
+  private recordTypeDefinitions(sexp: SCons): SCons {
+    const usage =
+      "define-record-type: Expected (define-record-type type " +
+      "(constructor field...) predicate (field accessor [modifier])...).";
+    const parts = [...sexp].slice(1);
+    if (parts.length < 3 || !(parts[0] instanceof SchemeId)) {
+      throw new Error(usage);
+    }
+    const [type, constructor, predicate, ...specs] = parts;
+    const fields: SchemeId[] = [];
+    for (const spec of specs) {
+      const items = spec instanceof SCons ? [...spec] : [];
+      if (items.length < 2 || items.length > 3) {
+        throw new Error(
+          `define-record-type: Malformed field: ${sexpToStr(spec)}`,
+        );
+      }
+      fields.push(safeId(items[0]));
+    }
+
+    const keyword = (name: string) => this.globalId(name);
+    const list = listOf;
+    const quote = (datum: SchemeType) => list(keyword("quote"), datum);
+    const define = (id: SchemeType, proc: string, ...args: SchemeType[]) =>
+      list(keyword("define"), id, list(keyword(proc), type, ...args));
+
+    const definitions = [
+      list(
+        keyword("define"),
+        type,
+        list(keyword("make-record-type"), quote(type), quote(list(...fields))),
+      ),
+    ];
+    if (constructor instanceof SCons) {
+      const id = safeId(constructor.car);
+      const fieldList = quote(constructor.cdr);
+      definitions.push(define(id, "record-constructor", fieldList));
+    } else if (constructor instanceof SchemeId) {
+      definitions.push(define(constructor, "record-constructor"));
+    } else if (constructor !== false) {
+      throw new Error(usage);
+    }
+    definitions.push(define(safeId(predicate), "record-predicate"));
+    for (const spec of specs) {
+      const [field, accessor, modifier] = [...(spec as SCons)];
+      const name = quote(field);
+      definitions.push(
+        define(safeId(accessor), "record-accessor", name, quote(accessor)),
+      );
+      if (modifier !== undefined) {
+        definitions.push(
+          define(safeId(modifier), "record-modifier", name, quote(modifier)),
+        );
+      }
+    }
+    return list(keyword("begin"), ...definitions);
+  }
+
+  // Internal definitions in a body are bound before anything is analyzed,
+  // so the whole body sees them.  Definitions inside begin are part of the
+  // body too.
+  protected bindBodyDefinitions(sexp: SCons, scope: Scope): void {
+    if (scope.parent === null) return;
+    for (const form of sexp) {
+      const special = this.specialForm(form, scope);
+      if (special === "begin" && (form as SCons).cdr instanceof SCons) {
+        this.bindBodyDefinitions((form as SCons).cdr as SCons, scope);
+      }
+      if (special === "define-record-type" || special === "define-values") {
+        const definitions = this.derivedForm(form as SCons, special);
+        this.bindBodyDefinitions(definitions.cdr as SCons, scope);
+      }
+      if (special !== "define") continue;
+      const target = safeCar(safeCdr(form));
+      const id = target instanceof SCons ? target.car : target;
+      if (id instanceof SchemeId) this.definitionBinding(id, scope);
+    }
+  }
+}
+
+//
+// Quasiquote
+//
+
+// Returns a function that builds the quasiquoted structure, given the
+// values of the unquoted expressions, which are appended to `unquoted`
+export function quasiquoteTemplate(
+  sexp: SchemeType,
+  unquoted: SchemeType[],
+): (values: SchemeType[]) => SchemeType {
+  // Vectors are built like the list of their items
+  if (sexp instanceof SchemeVector) {
+    const build = quasiquoteTemplate(arrayToList(sexp.items), unquoted);
+    return (values) => listToVector(build(values));
+  }
+
+  // Atoms are returned as-is (like quote)
+  if (!(sexp instanceof SCons)) {
+    const datum = stripSyntax(sexp);
+    return () => datum;
+  }
+
+  // (unquote expr) - evaluate expr
+  if (carIsId(sexp, "unquote")) {
+    const index = unquoted.push(safeCar(sexp.cdr)) - 1;
+    return (values) => values[index];
+  }
+
+  // (unquote-splicing expr) at top level is an error
+  if (carIsId(sexp, "unquote-splicing")) {
+    throw new Error("unquote-splicing: not valid at top level of quasiquote");
+  }
+
+  // It's a list - process each element, handling unquote-splicing
+  const elements: Array<{
+    isSplice: boolean;
+    build: (values: SchemeType[]) => SchemeType;
+  }> = [];
+
+  let current: SchemeType = sexp;
+  while (current instanceof SCons) {
+    const elem = current.car;
+
+    if (carIsId(elem, "unquote-splicing")) {
+      // This element should be spliced
+      const index = unquoted.push(safeCar((elem as SCons).cdr)) - 1;
+      elements.push({ isSplice: true, build: (values) => values[index] });
+    } else {
+      // Regular element - recursively process with quasiquote
+      elements.push({
+        isSplice: false,
+        build: quasiquoteTemplate(elem, unquoted),
+      });
+    }
+
+    current = current.cdr;
+  }
+
+  // Handle improper lists (dotted pairs)
+  const tailBuild =
+    current !== null ? quasiquoteTemplate(current, unquoted) : null;
+
+  return (values) => {
+    // Collect all result elements, splicing where needed
+    const resultElements: SchemeType[] = [];
+
+    for (const { isSplice, build } of elements) {
+      const value = build(values);
+      if (isSplice) {
+        // Splice the list elements
+        if (value !== null && !(value instanceof SCons)) {
+          throw new Error("unquote-splicing: expected a list");
+        }
+        let list = value as SCons | null;
+        while (list !== null) {
+          resultElements.push(list.car);
+          list = list.cdr as SCons | null;
+        }
+      } else {
+        resultElements.push(value);
+      }
+    }
+
+    // Build the cons list from the elements (right to left)
+    let result: SchemeType = tailBuild ? tailBuild(values) : null;
+    for (let i = resultElements.length - 1; i >= 0; i--) {
+      result = new SCons(resultElements[i], result);
+    }
+
+    return result;
+  };
+}
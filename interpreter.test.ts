@@ -1,21 +1,59 @@
 import assert from "assert";
+import { spawnSync } from "child_process";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
 import { InputStream, Lexer, TokenType } from "./lexer";
 import { SchemeParser } from "./parser";
-import { SchemeId, SCons, SchemeType, Frame } from "./types";
-import { SchemeAnalyzer, sexpToStr } from "./analyzer";
+import {
+  SchemeId,
+  SchemeChar,
+  SCons,
+  SchemeVector,
+  SchemeType,
+  SchemeClosure,
+  SchemeBuiltin,
+  Frame,
+  callStack,
+  errorBacktrace,
+} from "./types";
+import { SchemeExpander } from "./expander";
+import { SchemeFlonum, SchemeRational } from "./numbers";
+import { SchemeAnalyzer } from "./analyzer";
+import { SchemeCompiler } from "./compiler";
+import { SchemeJSCompiler } from "./jscompiler";
+import { sexpToStr, formatBacktrace } from "./printer";
 import { initEnv } from "./builtins";
+import { formatError } from "./source";
+import { SourceMap } from "./sourcemap";
+import { compile } from "./cli";
 
 // Test utilities
+
+// The suite runs against the analyzer, the bytecode VM with --vm, or
+// generated JavaScript with --js
+const backend = process.argv.includes("--vm")
+  ? "VM"
+  : process.argv.includes("--js")
+    ? "JS"
+    : "analyzer";
+
+function newBackend(): SchemeExpander {
+  if (backend === "VM") return new SchemeCompiler();
+  if (backend === "JS") return new SchemeJSCompiler();
+  return new SchemeAnalyzer();
+}
+
 async function evaluate(input: string, env?: Frame): Promise<SchemeType> {
   const stream = InputStream.fromString(input);
   const lexer = new Lexer(stream);
   const parser = new SchemeParser(lexer);
-  const analyzer = new SchemeAnalyzer();
+  const analyzer = newBackend();
   const frame = env ?? initEnv();
 
   const result = await parser.parse();
-  const expanded = analyzer.expandMacros(result);
-  const analyzed = analyzer.analyzeSexp(expanded);
+  const analyzed = analyzer.analyzeSexp(result, frame);
   const value = analyzed(frame);
 
   lexer.close();
@@ -25,11 +63,11 @@ async function evaluate(input: string, env?: Frame): Promise<SchemeType> {
 async function evaluateAll(
   input: string,
   env?: Frame,
+  analyzer: SchemeExpander = newBackend(),
 ): Promise<{ results: SchemeType[]; env: Frame }> {
   const stream = InputStream.fromString(input);
   const lexer = new Lexer(stream);
   const parser = new SchemeParser(lexer);
-  const analyzer = new SchemeAnalyzer();
   const frame = env ?? initEnv();
   const results: SchemeType[] = [];
 
@@ -38,8 +76,7 @@ async function evaluateAll(
     if (token.type === TokenType.EOF) break;
 
     const result = await parser.parse();
-    const expanded = analyzer.expandMacros(result);
-    const analyzed = analyzer.analyzeSexp(expanded);
+    const analyzed = analyzer.analyzeSexp(result, frame);
     results.push(analyzed(frame));
   }
 
@@ -68,7 +105,7 @@ async function test(name: string, fn: () => Promise<void>): Promise<void> {
 // ============================================
 
 async function runTests(): Promise<void> {
-  console.log("=== Interpreter Tests ===\n");
+  console.log(`=== Interpreter Tests (${backend}) ===\n`);
 
   // --- Literals ---
 
@@ -81,7 +118,7 @@ async function runTests(): Promise<void> {
 
   await test("evaluate decimal", async () => {
     const result = await evaluate("3.14");
-    assert.strictEqual(result, 3.14);
+    assert.deepStrictEqual(result, new SchemeFlonum(3.14));
   });
 
   await test("evaluate negative number via subtraction", async () => {
@@ -142,7 +179,7 @@ async function runTests(): Promise<void> {
 
   await test("division", async () => {
     const result = await evaluate("(/ 20 4 2)");
-    assert.strictEqual(result, 2.5);
+    assert.deepStrictEqual(result, new SchemeRational(5n, 2n));
   });
 
   await test("nested arithmetic", async () => {
@@ -167,7 +204,7 @@ async function runTests(): Promise<void> {
 
   await test("sqrt decimal", async () => {
     const result = await evaluate("(sqrt 2)");
-    assert.strictEqual(result, Math.sqrt(2));
+    assert.deepStrictEqual(result, new SchemeFlonum(Math.sqrt(2)));
   });
 
   await test("remainder positive", async () => {
@@ -192,42 +229,42 @@ async function runTests(): Promise<void> {
 
   await test("floor", async () => {
     const result = await evaluate("(floor 3.7)");
-    assert.strictEqual(result, 3);
+    assert.deepStrictEqual(result, new SchemeFlonum(3));
   });
 
   await test("floor negative", async () => {
     const result = await evaluate("(floor (- 0 3.2))");
-    assert.strictEqual(result, -4);
+    assert.deepStrictEqual(result, new SchemeFlonum(-4));
   });
 
   await test("ceiling", async () => {
     const result = await evaluate("(ceiling 3.2)");
-    assert.strictEqual(result, 4);
+    assert.deepStrictEqual(result, new SchemeFlonum(4));
   });
 
   await test("ceiling negative", async () => {
     const result = await evaluate("(ceiling (- 0 3.7))");
-    assert.strictEqual(result, -3);
+    assert.deepStrictEqual(result, new SchemeFlonum(-3));
   });
 
   await test("truncate positive", async () => {
     const result = await evaluate("(truncate 3.7)");
-    assert.strictEqual(result, 3);
+    assert.deepStrictEqual(result, new SchemeFlonum(3));
   });
 
   await test("truncate negative", async () => {
     const result = await evaluate("(truncate (- 0 3.7))");
-    assert.strictEqual(result, -3);
+    assert.deepStrictEqual(result, new SchemeFlonum(-3));
   });
 
   await test("round", async () => {
     const result = await evaluate("(round 3.5)");
-    assert.strictEqual(result, 4);
+    assert.deepStrictEqual(result, new SchemeFlonum(4));
   });
 
   await test("round down", async () => {
     const result = await evaluate("(round 3.4)");
-    assert.strictEqual(result, 3);
+    assert.deepStrictEqual(result, new SchemeFlonum(3));
   });
 
   // --- Comparison ---
@@ -254,6 +291,145 @@ async function runTests(): Promise<void> {
     assert.strictEqual(result, false);
   });
 
+  await test("numeric equality across exactness", async () => {
+    assert.strictEqual(await evaluate("(= 1 1.0 (/ 2 2))"), true);
+    assert.strictEqual(await evaluate("(< (/ 1 3) 0.34 (/ 1 2))"), true);
+    assert.strictEqual(await evaluate("(>= 2 2 1)"), true);
+    assert.strictEqual(await evaluate("(<= 1 0)"), false);
+  });
+
+  await test("comparison requires numbers", async () => {
+    await assert.rejects(async () => {
+      await evaluate('(< 1 "2")');
+    }, /<: Expected a number/);
+  });
+
+  // --- Numeric Tower ---
+
+  console.log("\n--- Numeric Tower ---");
+
+  await test("exact integers promote to bigints", async () => {
+    const { results } = await evaluateAll(`
+      (define (fact n) (if (< n 2) 1 (* n (fact (- n 1)))))
+      (fact 30)
+      (/ (fact 30) (fact 28))
+      (- (+ 9007199254740991 1) 1)
+    `);
+    assert.strictEqual(results[1], 265252859812191058636308480000000n);
+    assert.strictEqual(results[2], 870);
+    assert.strictEqual(results[3], 9007199254740991);
+  });
+
+  await test("exact division gives rationals", async () => {
+    assert.strictEqual(sexpToStr(await evaluate("(/ 1 3)")), "1/3");
+    assert.strictEqual(sexpToStr(await evaluate("(+ (/ 1 3) (/ 1 6))")), "1/2");
+    assert.strictEqual(sexpToStr(await evaluate("(* (/ 2 3) (/ 3 2))")), "1");
+    assert.strictEqual(sexpToStr(await evaluate("(- (/ 1 2))")), "-1/2");
+    assert.strictEqual(sexpToStr(await evaluate("(/ 4)")), "1/4");
+  });
+
+  await test("division by exact zero", async () => {
+    await assert.rejects(async () => {
+      await evaluate("(/ 1 0)");
+    }, /\/: Division by zero/);
+  });
+
+  await test("inexact contaminates", async () => {
+    assert.strictEqual(sexpToStr(await evaluate("(+ (/ 1 2) 0.5)")), "1.0");
+    assert.strictEqual(sexpToStr(await evaluate("(* 2 1.5)")), "3.0");
+    assert.strictEqual(sexpToStr(await evaluate("(/ 1.0 0.0)")), "+inf.0");
+  });
+
+  await test("exactness predicates", async () => {
+    assert.strictEqual(await evaluate("(exact? (/ 1 2))"), true);
+    assert.strictEqual(await evaluate("(exact? 0.5)"), false);
+    assert.strictEqual(await evaluate("(inexact? 0.5)"), true);
+    assert.strictEqual(await evaluate("(integer? 2.0)"), true);
+    assert.strictEqual(await evaluate("(rational? (/ 1 2))"), true);
+    assert.strictEqual(await evaluate("(number? 'a)"), false);
+  });
+
+  await test("exact->inexact and inexact->exact", async () => {
+    assert.strictEqual(
+      sexpToStr(await evaluate("(exact->inexact (/ 1 4))")),
+      "0.25",
+    );
+    assert.strictEqual(
+      sexpToStr(await evaluate("(inexact->exact 0.25)")),
+      "1/4",
+    );
+    assert.strictEqual(sexpToStr(await evaluate("(inexact->exact 3.0)")), "3");
+  });
+
+  await test("numerator and denominator", async () => {
+    assert.strictEqual(await evaluate("(numerator (/ 6 4))"), 3);
+    assert.strictEqual(await evaluate("(denominator (/ 6 4))"), 2);
+    assert.strictEqual(await evaluate("(denominator 5)"), 1);
+    assert.strictEqual(sexpToStr(await evaluate("(denominator 0.5)")), "2.0");
+  });
+
+  await test("quotient", async () => {
+    assert.strictEqual(await evaluate("(quotient 17 5)"), 3);
+    assert.strictEqual(await evaluate("(quotient (- 0 17) 5)"), -3);
+    assert.strictEqual(sexpToStr(await evaluate("(quotient 17.0 5)")), "3.0");
+    await assert.rejects(async () => {
+      await evaluate("(quotient 1 0)");
+    }, /quotient: Division by zero/);
+    await assert.rejects(async () => {
+      await evaluate("(quotient (/ 1 2) 3)");
+    }, /quotient: Expected an integer/);
+  });
+
+  await test("gcd and lcm", async () => {
+    assert.strictEqual(await evaluate("(gcd 12 18)"), 6);
+    assert.strictEqual(await evaluate("(gcd (- 0 4) 6)"), 2);
+    assert.strictEqual(await evaluate("(gcd)"), 0);
+    assert.strictEqual(await evaluate("(lcm 4 6)"), 12);
+    assert.strictEqual(await evaluate("(lcm)"), 1);
+  });
+
+  await test("exact sqrt and rounding of rationals", async () => {
+    assert.strictEqual(sexpToStr(await evaluate("(sqrt (/ 1 4))")), "1/2");
+    assert.strictEqual(await evaluate("(round (/ 5 2))"), 2);
+    assert.strictEqual(await evaluate("(round (/ 7 2))"), 4);
+    assert.strictEqual(await evaluate("(floor (/ (- 0 7) 2))"), -4);
+    assert.strictEqual(sexpToStr(await evaluate("(round 2.5)")), "2.0");
+  });
+
+  await test("printing numbers", async () => {
+    const list = await evaluate(
+      "(cons 2.0 (cons 3.25 (cons (/ 1 (- 0 2)) '())))",
+    );
+    assert.strictEqual(sexpToStr(list), "(2.0 3.25 -1/2)");
+    assert.strictEqual(
+      sexpToStr(await evaluate("(* 1.0 1000000000000000000000)")),
+      "1e21",
+    );
+    assert.strictEqual(sexpToStr(await evaluate("(- (/ 1.0 0.0))")), "-inf.0");
+    assert.strictEqual(
+      sexpToStr(await evaluate("(- (/ 0.0 0.0) 1)")),
+      "+nan.0",
+    );
+  });
+
+  await test("numeric literals", async () => {
+    assert.strictEqual(await evaluate("(+ 1/2 -1/2 #x10 #b11)"), 19);
+    assert.strictEqual(sexpToStr(await evaluate("(* 2 1.5e2)")), "300.0");
+    assert.strictEqual(
+      sexpToStr(await evaluate("'(-inf.0 #e2.5)")),
+      "(-inf.0 5/2)",
+    );
+  });
+
+  await test("eqv? compares exactness", async () => {
+    assert.strictEqual(await evaluate("(eqv? 2.0 2.0)"), true);
+    assert.strictEqual(await evaluate("(eqv? 2 2.0)"), false);
+    assert.strictEqual(
+      await evaluate("(eqv? 100000000000000000000 100000000000000000000)"),
+      true,
+    );
+  });
+
   // --- Boolean Operations ---
 
   console.log("\n--- Boolean Operations ---");
@@ -327,6 +503,132 @@ async function runTests(): Promise<void> {
     assert.strictEqual(result, 4);
   });
 
+  await test("cond picks the first true clause", async () => {
+    const result = await evaluate("(cond (#f 1) ((< 1 2) 2 3) (else 4))");
+    assert.strictEqual(result, 3);
+  });
+
+  await test("cond else clause", async () => {
+    const result = await evaluate("(cond (#f 1) (else 2))");
+    assert.strictEqual(result, 2);
+  });
+
+  await test("cond test-only clause returns the test's value", async () => {
+    const result = await evaluate("(cond (#f) (42) (else 1))");
+    assert.strictEqual(result, 42);
+  });
+
+  await test("cond => passes the test's value to the receiver", async () => {
+    const result = await evaluate("(cond ((car (cons 5 6)) => (lambda (x) (* x 2))))");
+    assert.strictEqual(result, 10);
+  });
+
+  await test("cond without a match is #f", async () => {
+    const result = await evaluate("(cond (#f 1))");
+    assert.strictEqual(result, false);
+  });
+
+  await test("cond clauses are in tail position", async () => {
+    const { results } = await evaluateAll(`
+      (define (count n) (cond ((< n 1) 'done) (else (count (- n 1)))))
+      (count 100000)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "done");
+  });
+
+  await test("malformed cond clause throws", async () => {
+    await assert.rejects(async () => {
+      await evaluate("(cond (#f 1) 2)");
+    }, /cond: Malformed clause: 2/);
+    await assert.rejects(async () => {
+      await evaluate("(guard (e (#t 1) (else)) 0)");
+    }, /guard: Malformed clause: \(else\)/);
+    await assert.rejects(async () => {
+      await evaluate("(case 1 ((1) => car cdr))");
+    }, /case: => must be followed by exactly one expression/);
+  });
+
+  await test("case matches data with eqv?", async () => {
+    const result = await evaluate(`
+      (case (* 2 3)
+        ((2 3 5 7) 'prime)
+        ((1 4 6 8 9) 'composite))
+    `);
+    assert.strictEqual(sexpToStr(result), "composite");
+  });
+
+  await test("case else and => clauses", async () => {
+    const { results } = await evaluateAll(`
+      (case 'x ((a) 1) (else => (lambda (v) (cons v v))))
+      (case 5 ((5) => (lambda (v) (+ v 1))) (else 0))
+      (case 'z ((a) 1) ((b c) 2))
+    `);
+    assert.strictEqual(sexpToStr(results[0]), "(x . x)");
+    assert.strictEqual(results[1], 6);
+    assert.strictEqual(results[2], false);
+  });
+
+  await test("case else clause must be last", async () => {
+    await assert.rejects(async () => {
+      await evaluate("(case 1 (else 1) ((1) 2))");
+    }, /case: else clause must be last/);
+  });
+
+  await test("when and unless", async () => {
+    const { results } = await evaluateAll(`
+      (when (< 1 2) 'a 'b)
+      (when #f 'a)
+      (unless #f 'c)
+      (unless 1 'c)
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), ["b", "#f", "c", "#f"]);
+  });
+
+  await test("when without a body throws", async () => {
+    await assert.rejects(async () => {
+      await evaluate("(when #t)");
+    }, /when: Expected \(when test expr\.\.\.\)/);
+  });
+
+  await test("do steps its variables until the test is true", async () => {
+    const result = await evaluate(`
+      (do ((i 0 (+ i 1))
+           (acc '() (cons i acc)))
+          ((eq? i 3) acc))
+    `);
+    assert.strictEqual(sexpToStr(result), "(2 1 0)");
+  });
+
+  await test("do runs its commands, and variables without steps keep their value", async () => {
+    const result = await evaluate(`
+      (do ((i 0 (+ i 1))
+           (total 0))
+          ((eq? i 5) total)
+        (set! total (+ total i)))
+    `);
+    assert.strictEqual(result, 10);
+  });
+
+  await test("do binds fresh variables on each iteration", async () => {
+    const result = await evaluate(`
+      (do ((i 0 (+ i 1))
+           (fs '() (cons (lambda () i) fs)))
+          ((eq? i 3) (cons ((car fs)) ((car (cdr fs))))))
+    `);
+    assert.strictEqual(sexpToStr(result), "(2 . 1)");
+  });
+
+  await test("do loops in constant stack", async () => {
+    const result = await evaluate("(do ((i 0 (+ i 1))) ((eq? i 100000) i))");
+    assert.strictEqual(result, 100000);
+  });
+
+  await test("malformed do binding throws", async () => {
+    await assert.rejects(async () => {
+      await evaluate("(do ((i)) (#t))");
+    }, /do: Malformed binding: \(i\)/);
+  });
+
   // --- Define and Variables ---
 
   console.log("\n--- Define and Variables ---");
@@ -373,213 +675,2106 @@ async function runTests(): Promise<void> {
     }, /set!: Unbound variable/);
   });
 
-  // --- Lambda ---
-
-  console.log("\n--- Lambda ---");
-
-  await test("lambda immediate call", async () => {
-    const result = await evaluate("((lambda (x) (* x 2)) 5)");
-    assert.strictEqual(result, 10);
-  });
-
-  await test("lambda multiple params", async () => {
-    const result = await evaluate("((lambda (x y) (+ x y)) 3 4)");
-    assert.strictEqual(result, 7);
+  await test("inner lambda reads outer parameters", async () => {
+    const result = await evaluate("((((lambda (a) (lambda (b) (lambda (c) (cons a (cons b c))))) 1) 2) 3)");
+    assert.strictEqual(sexpToStr(result), "(1 2 . 3)");
   });
 
-  await test("lambda closure", async () => {
+  await test("set! on a captured parameter is shared", async () => {
     const { results } = await evaluateAll(`
-      (define (make-adder n) (lambda (x) (+ x n)))
-      (define add5 (make-adder 5))
-      (add5 10)
+      (define (make-counter)
+        (define n 0)
+        (lambda () (set! n (+ n 1)) n))
+      (define c (make-counter))
+      (c) (c)
+      (c)
     `);
-    assert.strictEqual(results[2], 15);
+    assert.strictEqual(results[4], 3);
   });
 
-  await test("lambda rest parameter", async () => {
+  await test("internal define shadows a global", async () => {
     const { results } = await evaluateAll(`
-      (define (sum-all . nums) (apply + nums))
-      (sum-all 1 2 3 4)
+      (define x 'global)
+      (define (f) (define x 'local) x)
+      (cons (f) x)
     `);
-    assert.strictEqual(results[1], 10);
+    assert.strictEqual(sexpToStr(results[2]), "(local . global)");
   });
 
-  await test("lambda with body", async () => {
-    const result = await evaluate("((lambda (x) (+ x 1) (* x 2)) 5)");
-    assert.strictEqual(result, 10);
+  await test("internal defines can refer to each other", async () => {
+    const result = await evaluate(`
+      ((lambda (n)
+         (define (even? n) (if (eq? n 0) #t (odd? (- n 1))))
+         (define (odd? n) (if (eq? n 0) #f (even? (- n 1))))
+         (even? n))
+       10)
+    `);
+    assert.strictEqual(result, true);
   });
 
-  // --- List Operations ---
-
-  console.log("\n--- List Operations ---");
-
-  await test("cons", async () => {
-    const result = await evaluate("(cons 1 '(2 3))");
-    assert.strictEqual(sexpToStr(result), "(1 2 3)");
+  await test("internal define used before it runs throws", async () => {
+    await assert.rejects(async () => {
+      await evaluate("((lambda () (define a b) (define b 1) a))");
+    }, /Unbound variable: b/);
   });
 
-  await test("cons pair", async () => {
-    const result = await evaluate("(cons 1 2)");
-    assert.strictEqual(sexpToStr(result), "(1 . 2)");
+  await test("global defined after a procedure is visible to it", async () => {
+    const { results } = await evaluateAll(`
+      (define (get) later)
+      (define later 5)
+      (get)
+    `);
+    assert.strictEqual(results[2], 5);
   });
 
-  await test("car", async () => {
-    const result = await evaluate("(car '(1 2 3))");
-    assert.strictEqual(result, 1);
-  });
+  // --- Error Locations ---
 
-  await test("cdr", async () => {
-    const result = await evaluate("(cdr '(1 2 3))");
-    assert.strictEqual(sexpToStr(result), "(2 3)");
+  console.log("\n--- Error Locations ---");
+
+  await test("unbound variable reports its location", async () => {
+    await assert.rejects(
+      evaluate("(+ 1\n   foo)"),
+      (error) => {
+        assert.strictEqual(
+          formatError(error),
+          "<string>:2:4: Unbound variable: foo\n     foo)\n     ^^^",
+        );
+        return true;
+      },
+    );
   });
 
-  await test("cdr of single element", async () => {
-    const result = await evaluate("(cdr '(1))");
-    assert.strictEqual(result, null);
+  await test("builtin error reports the call site", async () => {
+    const { env } = await evaluateAll("(define (f x) (car x))");
+    await assert.rejects(evaluate("(f 1)", env), (error) => {
+      assert.match(formatError(error), /^<string>:1:15: car: Expected a cons cell\./);
+      return true;
+    });
   });
 
-  await test("nested car/cdr", async () => {
-    const result = await evaluate("(car (cdr '(1 2 3)))");
-    assert.strictEqual(result, 2);
+  await test("calling a non-function reports the call site", async () => {
+    await assert.rejects(evaluate("(if #t (1 2))"), (error) => {
+      assert.match(formatError(error), /^<string>:1:8: Not a function: 1/);
+      return true;
+    });
   });
 
-  await test("apply", async () => {
-    const result = await evaluate("(apply + '(1 2 3))");
-    assert.strictEqual(result, 6);
+  await test("syntax error reports the enclosing form", async () => {
+    await assert.rejects(evaluate("(define)"), (error) => {
+      assert.match(formatError(error), /^<string>:1:1: /);
+      return true;
+    });
   });
 
-  // --- Type Predicates ---
+  // --- Backtraces ---
 
-  console.log("\n--- Type Predicates ---");
+  console.log("\n--- Backtraces ---");
 
-  await test("null? true", async () => {
-    const result = await evaluate("(null? '())");
-    assert.strictEqual(result, true);
+  await test("define names closures", async () => {
+    const { results } = await evaluateAll("(define (square x) (* x x)) square");
+    assert.ok(results[1] instanceof SchemeClosure);
+    assert.strictEqual((results[1] as SchemeClosure).describe(), "(square x)");
+    assert.strictEqual(sexpToStr(results[1]), "#<closure square>");
   });
 
-  await test("null? false", async () => {
-    const result = await evaluate("(null? '(1))");
-    assert.strictEqual(result, false);
+  await test("error carries a Scheme backtrace", async () => {
+    const { env } = await evaluateAll(`
+      (define (inner y) (car y))
+      (define (outer x) (+ 1 (inner x)))
+    `);
+    await assert.rejects(evaluate("(outer 5)", env), (error) => {
+      const trace = formatBacktrace(errorBacktrace(error));
+      assert.match(trace, /in \(inner y\) at <string>:3:\d+\n\s+in \(outer x\) at <string>:1:1/);
+      return true;
+    });
   });
 
-  await test("pair? true", async () => {
-    const result = await evaluate("(pair? '(1 2))");
-    assert.strictEqual(result, true);
+  await test("backtrace marks tail calls", async () => {
+    const { env } = await evaluateAll(`
+      (define (fail n) (car n))
+      (define (loop n) (if (< n 1) (fail n) (loop (- n 1))))
+    `);
+    await assert.rejects(evaluate("(loop 3)", env), (error) => {
+      const trace = formatBacktrace(errorBacktrace(error));
+      assert.match(trace, /in \(fail n\) .*\[4 tail calls elided\]/);
+      assert.ok(!trace.includes("in (loop n)"));
+      return true;
+    });
   });
 
-  await test("pair? false for null", async () => {
-    const result = await evaluate("(pair? '())");
-    assert.strictEqual(result, false);
+  await test("call stack is unwound after an error", async () => {
+    const { env } = await evaluateAll("(define (f x) (car x))");
+    await assert.rejects(evaluate("(f 1)", env));
+    assert.strictEqual(callStack.top, null);
   });
 
-  await test("symbol? true", async () => {
-    const result = await evaluate("(symbol? 'foo)");
-    assert.strictEqual(result, true);
+  // --- Exceptions ---
+
+  console.log("\n--- Exceptions ---");
+
+  await test("guard catches raise", async () => {
+    const result = await evaluate("(guard (e (#t (cons 'caught e))) (raise 'oops))");
+    assert.strictEqual(sexpToStr(result), "(caught . oops)");
   });
 
-  await test("symbol? false", async () => {
-    const result = await evaluate("(symbol? 42)");
-    assert.strictEqual(result, false);
+  await test("guard returns body value when nothing is raised", async () => {
+    const result = await evaluate("(guard (e (#t 'caught)) (+ 1 2))");
+    assert.strictEqual(result, 3);
   });
 
-  // --- Equality ---
+  await test("guard tries clauses in order", async () => {
+    const result = await evaluate(`
+      (guard (e ((symbol? e) 'symbol) ((eq? e 42) 'number) (else 'other))
+        (raise 42))
+    `);
+    assert.ok(result instanceof SchemeId);
+    assert.strictEqual((result as SchemeId).id, "number");
+  });
 
-  console.log("\n--- Equality ---");
+  await test("guard => clause", async () => {
+    const result = await evaluate(
+      "(guard (e ((eq? e 7) => (lambda (x) (cons x e)))) (raise 7))",
+    );
+    assert.strictEqual(sexpToStr(result), "(#t . 7)");
+  });
 
-  await test("eq? same numbers", async () => {
-    const result = await evaluate("(eq? 1 1)");
-    assert.strictEqual(result, true);
+  await test("guard re-raises when no clause matches", async () => {
+    const result = await evaluate(`
+      (guard (outer (#t (cons 'outer outer)))
+        (guard (inner ((symbol? inner) 'inner))
+          (raise 5)))
+    `);
+    assert.strictEqual(sexpToStr(result), "(outer . 5)");
   });
 
-  await test("eq? different numbers", async () => {
-    const result = await evaluate("(eq? 1 2)");
-    assert.strictEqual(result, false);
+  await test("guard catches builtin errors as error objects", async () => {
+    const result = await evaluate(`
+      (guard (e ((error-object? e) (error-object-message e)))
+        (car 5))
+    `);
+    assert.strictEqual(result, "car: Expected a cons cell.");
   });
 
-  await test("eq? same symbols", async () => {
-    const result = await evaluate("(eq? 'a 'a)");
+  await test("guard catches unbound variables", async () => {
+    const result = await evaluate("(guard (e (#t (error-object? e))) nope)");
     assert.strictEqual(result, true);
   });
 
-  await test("eq? different symbols", async () => {
-    const result = await evaluate("(eq? 'a 'b)");
-    assert.strictEqual(result, false);
+  await test("guard catches errors from nested calls", async () => {
+    const { results } = await evaluateAll(`
+      (define (f x) (+ 1 (g x)))
+      (define (g x) (car x))
+      (guard (e (#t 'recovered)) (f 1))
+    `);
+    assert.strictEqual(sexpToStr(results[2]), "recovered");
   });
 
-  await test("eq? booleans", async () => {
-    const result = await evaluate("(eq? #t #t)");
-    assert.strictEqual(result, true);
+  await test("error with irritants", async () => {
+    const result = await evaluate(`
+      (guard (e ((error-object? e)
+                 (cons (error-object-message e) (error-object-irritants e))))
+        (error "Bad thing:" 1 'two))
+    `);
+    assert.strictEqual(sexpToStr(result), '("Bad thing:" 1 two)');
   });
 
-  await test("eq? null", async () => {
-    const result = await evaluate("(eq? '() '())");
-    assert.strictEqual(result, true);
+  await test("error objects print readably", async () => {
+    const result = await evaluate(`(guard (e (#t e)) (error "Oops" 1 2))`);
+    assert.strictEqual(sexpToStr(result), '#<error "Oops" 1 2>');
   });
 
-  await test("eq? variadic", async () => {
-    const result = await evaluate("(eq? 1 1 1 1)");
-    assert.strictEqual(result, true);
+  await test("raise-continuable returns handler value", async () => {
+    const result = await evaluate(`
+      (with-exception-handler
+        (lambda (c) (+ c 1))
+        (lambda () (* 2 (raise-continuable 20))))
+    `);
+    assert.strictEqual(result, 42);
   });
 
-  await test("eqv? same numbers", async () => {
-    const result = await evaluate("(eqv? 42 42)");
-    assert.strictEqual(result, true);
+  await test("handler runs with outer handlers installed", async () => {
+    const result = await evaluate(`
+      (guard (e (#t (cons 'outer e)))
+        (with-exception-handler
+          (lambda (c) (raise (cons 'wrapped c)))
+          (lambda () (raise 'inner))))
+    `);
+    assert.strictEqual(sexpToStr(result), "(outer wrapped . inner)");
   });
 
-  await test("eqv? different numbers", async () => {
-    const result = await evaluate("(eqv? 1 2)");
-    assert.strictEqual(result, false);
+  await test("handler sees builtin errors", async () => {
+    const result = await evaluate(`
+      (guard (e (#t e))
+        (with-exception-handler
+          (lambda (c) (raise (error-object-message c)))
+          (lambda () (cdr 1))))
+    `);
+    assert.strictEqual(result, "cdr: Expected a cons cell.");
   });
 
-  await test("eqv? same symbols", async () => {
-    const result = await evaluate("(eqv? 'foo 'foo)");
-    assert.strictEqual(result, true);
+  await test("handler returning from raise is an error", async () => {
+    await assert.rejects(
+      evaluate("(with-exception-handler (lambda (c) 0) (lambda () (raise 'x)))"),
+      /non-continuable/,
+    );
   });
 
-  await test("eqv? booleans", async () => {
-    const result = await evaluate("(eqv? #f #f)");
-    assert.strictEqual(result, true);
+  await test("uncaught raise reaches the top level", async () => {
+    await assert.rejects(evaluate("(raise 'boom)"), /Uncaught exception: boom/);
+    await assert.rejects(evaluate(`(error "Failed:" 42)`), /^Error: Failed: 42$/);
   });
 
-  await test("eqv? mixed booleans", async () => {
-    const result = await evaluate("(eqv? #t #f)");
-    assert.strictEqual(result, false);
+  await test("guard clauses are in tail position", async () => {
+    const { results } = await evaluateAll(`
+      (define (loop n)
+        (if (< n 1)
+            'done
+            (guard (e (#t (loop (- n 1))))
+              (raise n))))
+      (loop 10000)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "done");
   });
 
-  // --- Macros ---
-
-  console.log("\n--- Macros ---");
+  await test("guard does not catch JS engine failures", async () => {
+    const env = initEnv();
+    env.set(
+      "overflow",
+      new SchemeBuiltin(() => {
+        throw new RangeError("Maximum call stack size exceeded");
+      }),
+    );
+    await assert.rejects(
+      evaluate("(guard (e (#t 'caught)) (overflow))", env),
+      RangeError,
+    );
+  });
 
-  await test("simple macro", async () => {
+  await test("guard catches sizes too large to allocate", async () => {
     const { results } = await evaluateAll(`
-      (define-macro (double x) (cons '+ (cons x (cons x '()))))
-      (double 5)
+      (guard (e (#t 'caught)) (make-vector 4294967296))
+      (guard (e (#t 'caught)) (make-string 4294967296))
+      (guard (e (#t 'caught)) (make-bytevector 9007199254740991))
     `);
-    assert.strictEqual(results[1], 10);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      "caught",
+      "caught",
+      "caught",
+    ]);
+    await assert.rejects(
+      evaluate("(make-vector 4294967296)"),
+      /make-vector: Size is too large: 4294967296/,
+    );
+    await assert.rejects(
+      evaluate("(make-vector 1.5)"),
+      /make-vector: Expected a non-negative integer/,
+    );
+  });
+
+  await test("deep recursion through guard", async () => {
+    const { results } = await evaluateAll(`
+      (define (loop n)
+        (if (= n 0) 'done (guard (e (#t e)) (loop (- n 1)))))
+      (loop 20000)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "done");
   });
 
-  await test("macro with multiple args", async () => {
+  await test("deep recursion through with-exception-handler", async () => {
     const { results } = await evaluateAll(`
-      (define-macro (add3 a b c) (cons '+ (cons a (cons b (cons c '())))))
-      (add3 1 2 3)
+      (define (loop n)
+        (if (= n 0)
+            'done
+            (with-exception-handler
+              (lambda (e) e)
+              (lambda () (loop (- n 1))))))
+      (loop 20000)
     `);
-    assert.strictEqual(results[1], 6);
+    assert.strictEqual(sexpToStr(results[1]), "done");
   });
 
-  // --- Quasiquote ---
+  // --- Lambda ---
 
-  console.log("\n--- Quasiquote ---");
+  console.log("\n--- Lambda ---");
 
-  await test("quasiquote without unquote", async () => {
-    const result = await evaluate("`(a b c)");
-    assert.strictEqual(sexpToStr(result), "(a b c)");
+  await test("lambda immediate call", async () => {
+    const result = await evaluate("((lambda (x) (* x 2)) 5)");
+    assert.strictEqual(result, 10);
   });
 
-  await test("quasiquote with unquote", async () => {
-    const { results } = await evaluateAll(`
-      (define x 42)
-      \`(a ,x c)
-    `);
+  await test("lambda multiple params", async () => {
+    const result = await evaluate("((lambda (x y) (+ x y)) 3 4)");
+    assert.strictEqual(result, 7);
+  });
+
+  await test("lambda closure", async () => {
+    const { results } = await evaluateAll(`
+      (define (make-adder n) (lambda (x) (+ x n)))
+      (define add5 (make-adder 5))
+      (add5 10)
+    `);
+    assert.strictEqual(results[2], 15);
+  });
+
+  await test("lambda rest parameter", async () => {
+    const { results } = await evaluateAll(`
+      (define (sum-all . nums) (apply + nums))
+      (sum-all 1 2 3 4)
+    `);
+    assert.strictEqual(results[1], 10);
+  });
+
+  await test("lambda with body", async () => {
+    const result = await evaluate("((lambda (x) (+ x 1) (* x 2)) 5)");
+    assert.strictEqual(result, 10);
+  });
+
+  // --- Local Bindings ---
+
+  console.log("\n--- Local Bindings ---");
+
+  await test("let binds in parallel", async () => {
+    const { results } = await evaluateAll(`
+      (define x 1)
+      (let ((x 2) (y x)) (cons x y))
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "(2 . 1)");
+  });
+
+  await test("let* binds in sequence", async () => {
+    const result = await evaluate("(let* ((x 1) (y (+ x 1)) (x 10)) (cons x y))");
+    assert.strictEqual(sexpToStr(result), "(10 . 2)");
+  });
+
+  await test("letrec binds mutually recursive procedures", async () => {
+    const result = await evaluate(`
+      (letrec ((ev? (lambda (n) (if (eq? n 0) #t (od? (- n 1)))))
+               (od? (lambda (n) (if (eq? n 0) #f (ev? (- n 1))))))
+        (ev? 100))
+    `);
+    assert.strictEqual(result, true);
+  });
+
+  await test("letrec* inits see earlier bindings", async () => {
+    const result = await evaluate("(letrec* ((a 1) (b (+ a 1))) (cons a b))");
+    assert.strictEqual(sexpToStr(result), "(1 . 2)");
+  });
+
+  await test("letrec binding used before its init runs throws", async () => {
+    await assert.rejects(async () => {
+      await evaluate("(letrec ((a b) (b 1)) a)");
+    }, /Unbound variable: b/);
+  });
+
+  await test("named let loops in constant stack", async () => {
+    const result = await evaluate(`
+      (let loop ((i 0) (acc 0))
+        (if (< i 100000) (loop (+ i 1) (+ acc 1)) acc))
+    `);
+    assert.strictEqual(result, 100000);
+  });
+
+  await test("named let's name is not in scope for the inits", async () => {
+    const { results } = await evaluateAll(`
+      (define loop 10)
+      (let loop ((x loop)) x)
+    `);
+    assert.strictEqual(results[1], 10);
+  });
+
+  await test("let body is in tail position", async () => {
+    const { results } = await evaluateAll(`
+      (define (count n) (let ((m (- n 1))) (if (< m 0) 'done (count m))))
+      (count 100000)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "done");
+  });
+
+  await test("closures capture each entry's let frame", async () => {
+    const { results } = await evaluateAll(`
+      (define (make n) (let ((x n)) (lambda () x)))
+      (cons ((make 1)) ((make 2)))
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "(1 . 2)");
+  });
+
+  await test("let body can have internal defines", async () => {
+    const result = await evaluate("(let ((x 1)) (define y 2) (+ x y))");
+    assert.strictEqual(result, 3);
+  });
+
+  await test("malformed let binding throws", async () => {
+    await assert.rejects(async () => {
+      await evaluate("(let ((x)) x)");
+    }, /let: Malformed binding: \(x\)/);
+  });
+
+  await test("duplicate bindings throw", async () => {
+    await assert.rejects(async () => {
+      await evaluate("(let ((x 1) (x 2)) x)");
+    }, /let: Duplicate binding: x/);
+    await assert.rejects(async () => {
+      await evaluate("(letrec ((f 1) (f 2)) f)");
+    }, /letrec: Duplicate binding: f/);
+    await assert.rejects(async () => {
+      await evaluate("(lambda (a b . a) a)");
+    }, /lambda: Duplicate parameter: a/);
+    assert.strictEqual(await evaluate("(let* ((x 1) (x (+ x 1))) x)"), 2);
+  });
+
+  await test("begin returns its last value", async () => {
+    const { results } = await evaluateAll(`
+      (begin (define a 1) (define b 2) (+ a b))
+      (begin)
+    `);
+    assert.strictEqual(results[0], 3);
+    assert.strictEqual(results[1], false);
+  });
+
+  await test("definitions inside begin belong to the body", async () => {
+    const result = await evaluate(`
+      ((lambda ()
+         (begin (define a 1) (define (get) b))
+         (define b 2)
+         (+ a (get))))
+    `);
+    assert.strictEqual(result, 3);
+  });
+
+  // --- List Operations ---
+
+  console.log("\n--- List Operations ---");
+
+  await test("cons", async () => {
+    const result = await evaluate("(cons 1 '(2 3))");
+    assert.strictEqual(sexpToStr(result), "(1 2 3)");
+  });
+
+  await test("cons pair", async () => {
+    const result = await evaluate("(cons 1 2)");
+    assert.strictEqual(sexpToStr(result), "(1 . 2)");
+  });
+
+  await test("car", async () => {
+    const result = await evaluate("(car '(1 2 3))");
+    assert.strictEqual(result, 1);
+  });
+
+  await test("cdr", async () => {
+    const result = await evaluate("(cdr '(1 2 3))");
+    assert.strictEqual(sexpToStr(result), "(2 3)");
+  });
+
+  await test("cdr of single element", async () => {
+    const result = await evaluate("(cdr '(1))");
+    assert.strictEqual(result, null);
+  });
+
+  await test("nested car/cdr", async () => {
+    const result = await evaluate("(car (cdr '(1 2 3)))");
+    assert.strictEqual(result, 2);
+  });
+
+  await test("apply", async () => {
+    const result = await evaluate("(apply + '(1 2 3))");
+    assert.strictEqual(result, 6);
+  });
+
+  await test("length, append and reverse", async () => {
+    const { results } = await evaluateAll(`
+      (length '(1 2 3))
+      (append '(1) '(2 3) '() '(4))
+      (append '(1) 2)
+      (append)
+      (reverse '(1 2 3))
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      "3",
+      "(1 2 3 4)",
+      "(1 . 2)",
+      "()",
+      "(3 2 1)",
+    ]);
+  });
+
+  await test("list-tail, list-ref, last and list-copy", async () => {
+    const { results } = await evaluateAll(`
+      (list-tail '(a b c d) 2)
+      (list-ref '(a b c d) 3)
+      (last '(a b c))
+      (define l '(1 2 3))
+      (define c (list-copy l))
+      (eq? l c)
+      (equal? l c)
+    `);
+    assert.strictEqual(sexpToStr(results[0]), "(c d)");
+    assert.strictEqual(sexpToStr(results[1]), "d");
+    assert.strictEqual(sexpToStr(results[2]), "c");
+    assert.deepStrictEqual(results.slice(5), [false, true]);
+  });
+
+  await test("list-ref out of range", async () => {
+    await assert.rejects(
+      async () => await evaluate("(list-ref '(1 2) 2)"),
+      /list-ref: Index out of range: 2/,
+    );
+  });
+
+  await test("iota", async () => {
+    const { results } = await evaluateAll(`
+      (iota 4)
+      (iota 3 1)
+      (iota 3 0 0.5)
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      "(0 1 2 3)",
+      "(1 2 3)",
+      "(0 0.5 1.0)",
+    ]);
+  });
+
+  await test("cxr accessors", async () => {
+    const { results } = await evaluateAll(`
+      (cadr '(1 2 3))
+      (cddr '(1 2 3))
+      (caadr '(1 (2 3)))
+      (cadddr '(1 2 3 4))
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), ["2", "(3)", "2", "4"]);
+  });
+
+  await test("filter, delete and reduce", async () => {
+    const { results } = await evaluateAll(`
+      (filter (lambda (x) (> x 2)) '(1 3 2 4))
+      (delete 2 '(1 2 3 2))
+      (delete 2 '(1 2 3 4) <)
+      (reduce + 0 '(1 2 3 4))
+      (reduce + 0 '())
+      (reduce cons '() '(1 2 3))
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      "(3 4)",
+      "(1 3)",
+      "(1 2)",
+      "10",
+      "0",
+      "(3 2 . 1)",
+    ]);
+  });
+
+  await test("filter and delete survive re-entered continuations", async () => {
+    const { results } = await evaluateAll(`
+      (define k #f)
+      (define n 0)
+      (define kept
+        (filter
+          (lambda (x)
+            (call/cc (lambda (c) (if (= x 2) (set! k c)) #t)))
+          '(1 2 3)))
+      (if (= n 0) (begin (set! n 1) (k #f)))
+      kept
+      (define deleted
+        (delete 2 '(1 2 3)
+          (lambda (x y)
+            (call/cc (lambda (c) (if (= y 2) (set! k c)) (= x y))))))
+      (if (= n 1) (begin (set! n 2) (k #f)))
+      deleted
+    `);
+    assert.strictEqual(sexpToStr(results[4]), "(1 3)");
+    assert.strictEqual(sexpToStr(results[7]), "(1 2 3)");
+  });
+
+  await test("fold-left, fold-right and for-each", async () => {
+    const { results } = await evaluateAll(`
+      (fold-left cons '() '(1 2 3))
+      (fold-right cons '() '(1 2 3))
+      (fold-left (lambda (acc a b) (+ acc (* a b))) 0 '(1 2 3) '(4 5 6))
+      (define acc '())
+      (for-each (lambda (a b) (set! acc (cons (+ a b) acc))) '(1 2) '(10 20))
+      acc
+    `);
+    assert.strictEqual(sexpToStr(results[0]), "(((() . 1) . 2) . 3)");
+    assert.strictEqual(sexpToStr(results[1]), "(1 2 3)");
+    assert.strictEqual(results[2], 32);
+    assert.strictEqual(sexpToStr(results[5]), "(22 11)");
+  });
+
+  await test("list procedures handle long lists", async () => {
+    const { results } = await evaluateAll(`
+      (define big (iota 100000))
+      (length (append big big))
+      (fold-left (lambda (acc x) (+ acc x)) 0 big)
+      (length (filter (lambda (x) (< x 10)) big))
+      (define n 0)
+      (for-each (lambda (x) (set! n (+ n 1))) big)
+      n
+      (length (delete 5 (iota 200000)))
+      (length (delete 5 big (lambda (x y) (< y x))))
+    `);
+    assert.strictEqual(results[1], 200000);
+    assert.strictEqual(results[2], 4999950000);
+    assert.strictEqual(results[3], 10);
+    assert.strictEqual(results[6], 100000);
+    assert.strictEqual(results[7], 199999);
+    assert.strictEqual(results[8], 99995);
+  });
+
+  // --- Type Predicates ---
+
+  console.log("\n--- Type Predicates ---");
+
+  await test("null? true", async () => {
+    const result = await evaluate("(null? '())");
+    assert.strictEqual(result, true);
+  });
+
+  await test("null? false", async () => {
+    const result = await evaluate("(null? '(1))");
+    assert.strictEqual(result, false);
+  });
+
+  await test("pair? true", async () => {
+    const result = await evaluate("(pair? '(1 2))");
+    assert.strictEqual(result, true);
+  });
+
+  await test("pair? false for null", async () => {
+    const result = await evaluate("(pair? '())");
+    assert.strictEqual(result, false);
+  });
+
+  await test("symbol? true", async () => {
+    const result = await evaluate("(symbol? 'foo)");
+    assert.strictEqual(result, true);
+  });
+
+  await test("symbol? false", async () => {
+    const result = await evaluate("(symbol? 42)");
+    assert.strictEqual(result, false);
+  });
+
+  // --- Characters ---
+
+  console.log("\n--- Characters ---");
+
+  await test("character literals evaluate to themselves", async () => {
+    const result = await evaluate("#\\a");
+    assert.strictEqual(result, SchemeChar.of("a"));
+    assert.strictEqual(await evaluate("(char? #\\space)"), true);
+    assert.strictEqual(await evaluate("(char? \"a\")"), false);
+  });
+
+  await test("printing characters", async () => {
+    const result = await evaluate("'(#\\a #\\space #\\newline #\\x7 #\\()");
+    assert.strictEqual(
+      sexpToStr(result),
+      "(#\\a #\\space #\\newline #\\alarm #\\()",
+    );
+  });
+
+  await test("char->integer and integer->char", async () => {
+    assert.strictEqual(await evaluate("(char->integer #\\A)"), 65);
+    assert.strictEqual(
+      await evaluate("(integer->char 955)"),
+      SchemeChar.of("λ"),
+    );
+    await assert.rejects(async () => {
+      await evaluate("(integer->char 55296)");
+    }, /integer->char: Expected a Unicode scalar value/);
+  });
+
+  await test("char case", async () => {
+    assert.strictEqual(
+      await evaluate("(char-upcase #\\a)"),
+      SchemeChar.of("A"),
+    );
+    assert.strictEqual(
+      await evaluate("(char-downcase #\\A)"),
+      SchemeChar.of("a"),
+    );
+    assert.strictEqual(
+      await evaluate("(char-upcase #\\1)"),
+      SchemeChar.of("1"),
+    );
+  });
+
+  await test("char classes", async () => {
+    assert.strictEqual(await evaluate("(char-alphabetic? #\\a)"), true);
+    assert.strictEqual(await evaluate("(char-alphabetic? #\\1)"), false);
+    assert.strictEqual(await evaluate("(char-numeric? #\\1)"), true);
+    assert.strictEqual(await evaluate("(char-whitespace? #\\tab)"), true);
+    assert.strictEqual(await evaluate("(char-upper-case? #\\A)"), true);
+    assert.strictEqual(await evaluate("(char-lower-case? #\\A)"), false);
+  });
+
+  await test("char comparisons", async () => {
+    assert.strictEqual(await evaluate("(char<? #\\a #\\b #\\c)"), true);
+    assert.strictEqual(await evaluate("(char<? #\\a #\\c #\\b)"), false);
+    assert.strictEqual(await evaluate("(char=? #\\a #\\a)"), true);
+    assert.strictEqual(await evaluate("(char>=? #\\b #\\a #\\a)"), true);
+    assert.strictEqual(await evaluate("(char=? #\\a #\\A)"), false);
+    assert.strictEqual(await evaluate("(char-ci=? #\\a #\\A)"), true);
+    await assert.rejects(async () => {
+      await evaluate("(char<? #\\a 1)");
+    }, /char<\?: Expected a character/);
+  });
+
+  await test("characters are eqv? and work in case", async () => {
+    assert.strictEqual(await evaluate("(eqv? #\\a (integer->char 97))"), true);
+    const result = await evaluate(
+      "(case #\\b ((#\\a) 'first) ((#\\b #\\c) 'second) (else 'other))",
+    );
+    assert.strictEqual(sexpToStr(result), "second");
+  });
+
+  // --- Vectors ---
+
+  console.log("\n--- Vectors ---");
+
+  await test("vector literals evaluate to themselves", async () => {
+    const result = await evaluate("#(1 #\\a (2 3))");
+    assert.ok(result instanceof SchemeVector);
+    assert.strictEqual(sexpToStr(result), "#(1 #\\a (2 3))");
+  });
+
+  await test("vector literal is the same object each time", async () => {
+    const { results } = await evaluateAll(`
+      (define (f) '#(1 2))
+      (eq? (f) (f))
+    `);
+    assert.strictEqual(results[1], true);
+  });
+
+  await test("make-vector, vector-ref and vector-set!", async () => {
+    const { results } = await evaluateAll(`
+      (define v (make-vector 3 0))
+      (vector-set! v 1 'x)
+      (vector-ref v 1)
+      (vector-length v)
+      v
+    `);
+    assert.strictEqual((results[2] as SchemeId).id, "x");
+    assert.strictEqual(results[3], 3);
+    assert.strictEqual(sexpToStr(results[4]), "#(0 x 0)");
+  });
+
+  await test("vector-ref out of range", async () => {
+    await assert.rejects(async () => {
+      await evaluate("(vector-ref (vector 1 2) 2)");
+    }, /vector-ref: Index out of range: 2/);
+    await assert.rejects(async () => {
+      await evaluate("(vector-ref '(1 2) 0)");
+    }, /vector-ref: Expected a vector/);
+  });
+
+  await test("vector->list and list->vector", async () => {
+    const list = await evaluate("(vector->list #(1 2 3 4) 1 3)");
+    assert.strictEqual(sexpToStr(list), "(2 3)");
+    const vector = await evaluate("(list->vector '(a b))");
+    assert.strictEqual(sexpToStr(vector), "#(a b)");
+  });
+
+  await test("vector-fill! and vector-copy", async () => {
+    const { results } = await evaluateAll(`
+      (define v (vector 1 2 3 4))
+      (define w (vector-copy v 1))
+      (vector-fill! v 'z 2)
+      v
+      w
+    `);
+    assert.strictEqual(sexpToStr(results[3]), "#(1 2 z z)");
+    assert.strictEqual(sexpToStr(results[4]), "#(2 3 4)");
+  });
+
+  await test("vector-map", async () => {
+    const result = await evaluate("(vector-map + #(1 2 3) #(10 20))");
+    assert.strictEqual(sexpToStr(result), "#(11 22)");
+    const squares = await evaluate(
+      "(vector-map (lambda (x) (* x x)) #(1 2 3))",
+    );
+    assert.strictEqual(sexpToStr(squares), "#(1 4 9)");
+  });
+
+  await test("vector-for-each runs in order", async () => {
+    const { results } = await evaluateAll(`
+      (define acc '())
+      (vector-for-each (lambda (x) (set! acc (cons x acc))) #(1 2 3))
+      acc
+    `);
+    assert.strictEqual(sexpToStr(results[2]), "(3 2 1)");
+  });
+
+  await test("quasiquoted vectors", async () => {
+    const { results } = await evaluateAll(`
+      (define x 1)
+      (define ys '(2 3))
+      \`#(,x ,@ys 4)
+      \`(a #(b ,x))
+    `);
+    assert.strictEqual(sexpToStr(results[2]), "#(1 2 3 4)");
+    assert.strictEqual(sexpToStr(results[3]), "(a #(b 1))");
+  });
+
+  // --- Bytevectors ---
+
+  console.log("\n--- Bytevectors ---");
+
+  await test("bytevector literals evaluate to themselves", async () => {
+    const result = await evaluate("#u8(1 2 255)");
+    assert.deepStrictEqual(result, new Uint8Array([1, 2, 255]));
+    assert.strictEqual(sexpToStr(result), "#u8(1 2 255)");
+    assert.strictEqual(await evaluate("(bytevector? #u8())"), true);
+    assert.strictEqual(await evaluate("(bytevector? #(1))"), false);
+  });
+
+  await test("make-bytevector and bytevector-u8-set!", async () => {
+    const { results } = await evaluateAll(`
+      (define b (make-bytevector 3 7))
+      (bytevector-u8-set! b 0 42)
+      (bytevector-u8-ref b 0)
+      (bytevector-length b)
+      b
+    `);
+    assert.strictEqual(results[2], 42);
+    assert.strictEqual(results[3], 3);
+    assert.strictEqual(sexpToStr(results[4]), "#u8(42 7 7)");
+  });
+
+  await test("bytes are checked", async () => {
+    await assert.rejects(async () => {
+      await evaluate("(bytevector 1 256)");
+    }, /bytevector: Expected a byte/);
+    await assert.rejects(async () => {
+      await evaluate("(bytevector-u8-ref (bytevector 1) 1)");
+    }, /bytevector-u8-ref: Index out of range: 1/);
+  });
+
+  await test("bytevector-copy, -copy! and -append", async () => {
+    const { results } = await evaluateAll(`
+      (define b (bytevector 1 2 3 4))
+      (bytevector-copy b 1 3)
+      (bytevector-append #u8(1) #u8() #u8(2 3))
+      (define c (make-bytevector 4 0))
+      (bytevector-copy! c 1 b 2)
+      c
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "#u8(2 3)");
+    assert.strictEqual(sexpToStr(results[2]), "#u8(1 2 3)");
+    assert.strictEqual(sexpToStr(results[5]), "#u8(0 3 4 0)");
+  });
+
+  await test("utf8->string and string->utf8", async () => {
+    const bytes = await evaluate('(string->utf8 "aλ")');
+    assert.strictEqual(sexpToStr(bytes), "#u8(97 206 187)");
+    const string = await evaluate("(utf8->string #u8(104 105 206 187))");
+    assert.strictEqual(sexpToStr(string), '"hiλ"');
+  });
+
+  // --- Strings ---
+
+  console.log("\n--- Strings ---");
+
+  await test("string basics", async () => {
+    const { results } = await evaluateAll(`
+      (string? "abc")
+      (string? #\\a)
+      (string-length "hello")
+      (string-ref "hello" 1)
+      (string #\\a #\\b)
+      (make-string 3 #\\x)
+    `);
+    assert.strictEqual(results[0], true);
+    assert.strictEqual(results[1], false);
+    assert.strictEqual(results[2], 5);
+    assert.strictEqual(sexpToStr(results[3]), "#\\e");
+    assert.strictEqual(sexpToStr(results[4]), '"ab"');
+    assert.strictEqual(sexpToStr(results[5]), '"xxx"');
+  });
+
+  await test("string-set! and string-fill! mutate a copy", async () => {
+    const { results } = await evaluateAll(`
+      (define s (string-copy "hello"))
+      (string-set! s 0 #\\j)
+      (string-copy s)
+      (string-fill! s #\\z 3)
+      s
+      (string=? s "jelzz")
+    `);
+    assert.strictEqual(sexpToStr(results[2]), '"jello"');
+    assert.strictEqual(sexpToStr(results[4]), '"jelzz"');
+    assert.strictEqual(results[5], true);
+  });
+
+  await test("literals and symbol names are immutable strings", async () => {
+    await assert.rejects(
+      async () => await evaluate('(string-set! "abc" 0 #\\x)'),
+      /string-set!: String is immutable/,
+    );
+    await assert.rejects(
+      async () => await evaluate("(string-set! (symbol->string 'abc) 0 #\\x)"),
+      /string-set!: String is immutable/,
+    );
+  });
+
+  await test("string-copy!", async () => {
+    const { results } = await evaluateAll(`
+      (define s (make-string 5 #\\-))
+      (string-copy! s 1 "abcd" 1 3)
+      s
+    `);
+    assert.strictEqual(sexpToStr(results[2]), '"-bc--"');
+  });
+
+  await test("string comparisons", async () => {
+    const { results } = await evaluateAll(`
+      (string<? "apple" "banana" "cherry")
+      (string=? "a" "a" "b")
+      (string-ci=? "Hello" "hELLO")
+      (string>=? "b" "b" "a")
+    `);
+    assert.deepStrictEqual(results, [true, false, true, true]);
+  });
+
+  await test("string case and substrings", async () => {
+    const { results } = await evaluateAll(`
+      (string-upcase "abc")
+      (string-downcase "ABC")
+      (substring "hello world" 6 11)
+      (string-append "foo" "bar" (string #\\!))
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      '"ABC"',
+      '"abc"',
+      '"world"',
+      '"foobar!"',
+    ]);
+  });
+
+  await test("string conversions", async () => {
+    const { results } = await evaluateAll(`
+      (string->list "abc")
+      (list->string (string->list "xyz"))
+      (string->vector "ab")
+      (vector->string #(#\\h #\\i))
+      (symbol->string 'foo)
+      (string->symbol "bar")
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      "(#\\a #\\b #\\c)",
+      '"xyz"',
+      "#(#\\a #\\b)",
+      '"hi"',
+      '"foo"',
+      "bar",
+    ]);
+  });
+
+  await test("number->string and string->number", async () => {
+    const { results } = await evaluateAll(`
+      (number->string 255 16)
+      (number->string 1.5)
+      (string->number "ff" 16)
+      (string->number "1/2")
+      (string->number "abc")
+      (define s (number->string 12))
+      (string-set! s 0 #\\3)
+      s
+    `);
+    assert.strictEqual(sexpToStr(results[0]), '"ff"');
+    assert.strictEqual(sexpToStr(results[1]), '"1.5"');
+    assert.strictEqual(results[2], 255);
+    assert.strictEqual(sexpToStr(results[3]), "1/2");
+    assert.strictEqual(results[4], false);
+    assert.strictEqual(sexpToStr(results[7]), '"32"');
+  });
+
+  await test("string-map and string-for-each", async () => {
+    const { results } = await evaluateAll(`
+      (string-map char-upcase "abc")
+      (define n 0)
+      (string-for-each (lambda (a b) (set! n (+ n 1))) "abc" "de")
+      n
+    `);
+    assert.strictEqual(sexpToStr(results[0]), '"ABC"');
+    assert.strictEqual(results[3], 2);
+  });
+
+  await test("string-index and string-contains", async () => {
+    const { results } = await evaluateAll(`
+      (string-index "hello" #\\l)
+      (string-index "hello" char-upper-case?)
+      (string-contains "hello world" "o w")
+      (string-contains "hello" "z")
+      (string-null? "")
+    `);
+    assert.deepStrictEqual(results, [2, false, 4, false, true]);
+  });
+
+  await test("string-join and string-split", async () => {
+    const { results } = await evaluateAll(`
+      (string-join (cons "a" (cons "b" (cons "c" '()))) ", ")
+      (string-join (cons "x" (cons "y" '())))
+      (string-split "a,b,,c" #\\,)
+      (string-split "one two")
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      '"a, b, c"',
+      '"x y"',
+      '("a" "b" "" "c")',
+      '("one" "two")',
+    ]);
+  });
+
+  await test("string-trim", async () => {
+    const { results } = await evaluateAll(`
+      (string-trim "  hi  ")
+      (string-trim-left "  hi  ")
+      (string-trim-right "  hi  ")
+      (string-trim "xxhixx" #\\x)
+      (string-trim "123abc456" char-numeric?)
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      '"hi"',
+      '"hi  "',
+      '"  hi"',
+      '"hi"',
+      '"abc"',
+    ]);
+  });
+
+  await test("strings index by code point", async () => {
+    const { results } = await evaluateAll(`
+      (string-length "a😀b")
+      (string-ref "a😀b" 1)
+      (string->list "😀")
+      (string-length (string #\\x1F600))
+      (define s (string-copy "a😀b"))
+      (string-set! s 0 #\\x1F601)
+      (string-set! s 1 #\\c)
+      s
+      (substring "a😀b" 1 3)
+      (string-index "😀x" #\\x)
+      (string-contains "😀😀ab" "ab")
+    `);
+    assert.strictEqual(results[0], 3);
+    assert.strictEqual(sexpToStr(results[1]), "#\\😀");
+    assert.strictEqual(sexpToStr(results[2]), "(#\\😀)");
+    assert.strictEqual(results[3], 1);
+    assert.strictEqual(sexpToStr(results[7]), '"😁cb"');
+    assert.strictEqual(sexpToStr(results[8]), '"😀b"');
+    assert.deepStrictEqual(results.slice(9), [1, 2]);
+  });
+
+  // --- Symbols ---
+
+  console.log("\n--- Symbols ---");
+
+  await test("symbols with the same name are the same object", async () => {
+    const { results } = await evaluateAll(`
+      'abc
+      (string->symbol "abc")
+      (eq? 'abc (string->symbol (string-append "ab" "c")))
+    `);
+    assert.strictEqual(results[0], results[1]);
+    assert.strictEqual(results[2], true);
+  });
+
+  await test("gensym makes uninterned symbols", async () => {
+    const { results } = await evaluateAll(`
+      (define g (gensym))
+      (symbol? g)
+      (eq? g (string->symbol (symbol->string g)))
+      (eq? g g)
+      (eq? (gensym "t") (gensym "t"))
+      (symbol->string (generate-uninterned-symbol 'tmp))
+    `);
+    assert.deepStrictEqual(results.slice(1, 5), [true, false, true, false]);
+    assert.match(results[5] as string, /^tmp\d+$/);
+  });
+
+  await test("gensym temporaries are capture-free", async () => {
+    const { results } = await evaluateAll(`
+      (define-macro (twice-sum x)
+        (let* ((u (gensym))
+               (v (string->symbol (symbol->string u))))
+          \`(let ((,u ,x) (,v 10)) (+ ,u ,u ,v))))
+      (twice-sum 4)
+    `);
+    assert.strictEqual(results[1], 18);
+  });
+
+  await test("quoted uninterned symbols keep their identity", async () => {
+    const { results } = await evaluateAll(`
+      (define-macro (same-twice) (let ((g (gensym))) \`(eq? ',g ',g)))
+      (same-twice)
+    `);
+    assert.strictEqual(results[1], true);
+  });
+
+  await test("define-macro sees identifiers as symbols", async () => {
+    const { results } = await evaluateAll(`
+      (define-macro (kind x) (if (eq? x 'else) ''default ''other))
+      (kind else)
+      (kind y)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "default");
+    assert.strictEqual(sexpToStr(results[2]), "other");
+  });
+
+  // --- Hash Tables ---
+
+  console.log("\n--- Hash Tables ---");
+
+  await test("hash-table-set! and hash-table-ref", async () => {
+    const { results } = await evaluateAll(`
+      (define t (make-hash-table))
+      (hash-table-set! t 'a 1)
+      (hash-table-set! t "b" 2)
+      (hash-table-set! t 'a 3)
+      (hash-table-ref t 'a)
+      (hash-table-ref t (string-copy "b"))
+      (hash-table-size t)
+      (hash-table? t)
+    `);
+    assert.strictEqual(results[4], 3);
+    assert.strictEqual(results[5], 2);
+    assert.strictEqual(results[6], 2);
+    assert.strictEqual(results[7], true);
+  });
+
+  await test("hash-table-ref with default thunks", async () => {
+    const { results } = await evaluateAll(`
+      (define t (make-hash-table eq?))
+      (hash-table-ref t 'missing (lambda () 'none))
+      (hash-table-ref/default t 'missing 0)
+      (hash-table-set! t 'x 10)
+      (hash-table-ref t 'x (lambda () 'none) (lambda (v) (* v 2)))
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "none");
+    assert.strictEqual(results[2], 0);
+    assert.strictEqual(results[4], 20);
+  });
+
+  await test("hash-table-ref on a missing key", async () => {
+    await assert.rejects(
+      async () => await evaluate("(hash-table-ref (make-hash-table) 'k)"),
+      /hash-table-ref: Key not found: k/,
+    );
+  });
+
+  await test("hash-table-update! and hash-table-delete!", async () => {
+    const { results } = await evaluateAll(`
+      (define t (make-hash-table eqv?))
+      (hash-table-update! t 1 (lambda (n) (+ n 1)) (lambda () 0))
+      (hash-table-update! t 1 (lambda (n) (+ n 1)))
+      (hash-table-update!/default t 2 (lambda (n) (* n 5)) 2)
+      (hash-table-ref t 1)
+      (hash-table-ref t 2)
+      (hash-table-delete! t 1)
+      (hash-table-contains? t 1)
+      (hash-table-size t)
+    `);
+    assert.strictEqual(results[4], 2);
+    assert.strictEqual(results[5], 10);
+    assert.strictEqual(results[7], false);
+    assert.strictEqual(results[8], 1);
+  });
+
+  await test("equal? tables hash by structure", async () => {
+    const { results } = await evaluateAll(`
+      (define t (make-hash-table equal?))
+      (hash-table-set! t '(1 #(2 "x")) 'found)
+      (hash-table-ref/default t (cons 1 (cons (vector 2 "x") '())) #f)
+      (hash-table-ref/default t 1.0 #f)
+    `);
+    assert.strictEqual(sexpToStr(results[2]), "found");
+    assert.strictEqual(results[3], false);
+  });
+
+  await test("eqv? tables compare numbers by value", async () => {
+    const { results } = await evaluateAll(`
+      (define t (make-hash-table eqv?))
+      (hash-table-set! t (/ 1 3) 'third)
+      (hash-table-set! t (* 1.0 1) 'inexact)
+      (hash-table-ref/default t (/ 2 6) #f)
+      (hash-table-ref/default t 1.0 #f)
+      (hash-table-ref/default t 1 #f)
+    `);
+    assert.strictEqual(sexpToStr(results[3]), "third");
+    assert.strictEqual(sexpToStr(results[4]), "inexact");
+    assert.strictEqual(results[5], false);
+  });
+
+  await test("string tables", async () => {
+    const { results } = await evaluateAll(`
+      (define t (make-hash-table string-ci=?))
+      (hash-table-set! t "Key" 1)
+      (hash-table-ref/default t "KEY" #f)
+      (= (string-hash "abc") (string-hash (string #\\a #\\b #\\c)))
+      (< (hash '(1 2) 10) 10)
+    `);
+    assert.deepStrictEqual(results.slice(2), [1, true, true]);
+  });
+
+  await test("custom hash functions", async () => {
+    const { results } = await evaluateAll(`
+      (define (parity n) (remainder n 2))
+      (define (same-parity? a b) (= (parity a) (parity b)))
+      (define t (make-hash-table same-parity? parity))
+      (hash-table-set! t 1 'odd)
+      (hash-table-set! t 2 'even)
+      (hash-table-ref t 7)
+      (hash-table-ref t 100)
+      (hash-table-size t)
+    `);
+    assert.strictEqual(sexpToStr(results[5]), "odd");
+    assert.strictEqual(sexpToStr(results[6]), "even");
+    assert.strictEqual(results[7], 2);
+  });
+
+  await test("hash-table-walk, keys and alist", async () => {
+    const { results } = await evaluateAll(`
+      (define t (make-hash-table))
+      (hash-table-set! t 'a 1)
+      (hash-table-set! t 'b 2)
+      (define sum 0)
+      (hash-table-walk t (lambda (k v) (set! sum (+ sum v))))
+      sum
+      (hash-table-keys t)
+      (hash-table-values t)
+      (hash-table->alist t)
+    `);
+    assert.strictEqual(results[5], 3);
+    assert.strictEqual(sexpToStr(results[6]), "(a b)");
+    assert.strictEqual(sexpToStr(results[7]), "(1 2)");
+    assert.strictEqual(sexpToStr(results[8]), "((a . 1) (b . 2))");
+  });
+
+  await test("SRFI-69 fold, copy, exists? and alist->hash-table", async () => {
+    const { results } = await evaluateAll(`
+      (define t (alist->hash-table '((a . 1) (b . 2) (a . 3)) eq?))
+      (hash-table->alist t)
+      (hash-table-fold t (lambda (k v acc) (cons k acc)) '())
+      (define c (hash-table-copy t))
+      (hash-table-set! c 'a 10)
+      (hash-table-ref c 'a)
+      (hash-table-ref t 'a)
+      (hash-table-exists? t 'b)
+      (hash-table-exists? t 'z)
+      (hash-table-size (alist->hash-table '(("x" . 1)) string=?))
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "((a . 1) (b . 2))");
+    assert.strictEqual(sexpToStr(results[2]), "(b a)");
+    assert.deepStrictEqual(results.slice(5), [10, 1, true, false, 1]);
+  });
+
+  // --- Records ---
+
+  console.log("\n--- Records ---");
+
+  const pointType = `
+    (define-record-type <point>
+      (make-point x y)
+      point?
+      (x point-x set-point-x!)
+      (y point-y))
+  `;
+
+  await test("define-record-type procedures", async () => {
+    const { results } = await evaluateAll(`
+      ${pointType}
+      (define p (make-point 1 2))
+      (point? p)
+      (point? (cons 1 2))
+      (point-x p)
+      (point-y p)
+      (set-point-x! p 10)
+      (point-x p)
+    `);
+    assert.deepStrictEqual(results.slice(2), [true, false, 1, 2, true, 10]);
+  });
+
+  await test("records print their fields", async () => {
+    const { results } = await evaluateAll(`
+      ${pointType}
+      (make-point 1 "a")
+      <point>
+    `);
+    assert.strictEqual(sexpToStr(results[1]), '#<point x: 1 y: "a">');
+    assert.strictEqual(sexpToStr(results[2]), "#<record-type point>");
+  });
+
+  await test("accessors check the record type", async () => {
+    await assert.rejects(
+      async () =>
+        await evaluateAll(`
+          ${pointType}
+          (define-record-type other (make-other) other?)
+          (point-x (make-other))
+        `),
+      /point-x: Expected a point\./,
+    );
+  });
+
+  await test("constructors may take some fields", async () => {
+    const { results } = await evaluateAll(`
+      (define-record-type node (make-node value) node?
+        (value node-value) (next node-next set-node-next!))
+      (node-next (make-node 1))
+    `);
+    assert.strictEqual(results[1], false);
+  });
+
+  await test("self-referential records print", async () => {
+    const { results } = await evaluateAll(`
+      (define-record-type node (make-node value) node?
+        (value node-value) (next node-next set-node-next!))
+      (define n (make-node 1))
+      (set-node-next! n n)
+      n
+      (define m (make-node 1))
+      (set-node-next! m (cons (make-node 2) m))
+      m
+    `);
+    assert.strictEqual(
+      sexpToStr(results[3]),
+      "#<node value: 1 next: #<node ...>>",
+    );
+    assert.strictEqual(
+      sexpToStr(results[6]),
+      "#<node value: 1 next: (#<node value: 2 next: #f> . #<node ...>)>",
+    );
+  });
+
+  await test("define-record-type errors report its location", async () => {
+    await assert.rejects(
+      evaluate("(begin\n  (define-record-type bad (make-bad z) bad?))"),
+      (error) => {
+        assert.match(
+          formatError(error),
+          /^<string>:2:3: record-constructor: bad has no field z\./,
+        );
+        return true;
+      },
+    );
+  });
+
+  await test("define-record-type as an internal definition", async () => {
+    const result = await evaluate(`
+      (let ()
+        (define-record-type box (make-box v) box? (v unbox))
+        (define record-accessor #f)
+        (unbox (make-box 42)))
+    `);
+    assert.strictEqual(result, 42);
+  });
+
+  await test("equal? and hash tables compare records by fields", async () => {
+    const { results } = await evaluateAll(`
+      ${pointType}
+      (equal? (make-point 1 2) (make-point 1 2))
+      (equal? (make-point 1 2) (make-point 1 3))
+      (define t (make-hash-table))
+      (hash-table-set! t (make-point 1 2) 'found)
+      (hash-table-ref/default t (make-point 1 2) #f)
+    `);
+    assert.strictEqual(results[1], true);
+    assert.strictEqual(results[2], false);
+    assert.strictEqual(sexpToStr(results[5]), "found");
+  });
+
+  // --- Sorting ---
+
+  console.log("\n--- Sorting ---");
+
+  await test("sort lists and vectors", async () => {
+    const { results } = await evaluateAll(`
+      (sort '(3 1 2) <)
+      (sort #(3 1 2) >)
+      (list-sort < '(5 4 3 2 1))
+      (vector-sort < #(9 8 7 6 5) 1 4)
+      (sort '() <)
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      "(1 2 3)",
+      "#(3 2 1)",
+      "(1 2 3 4 5)",
+      "#(6 7 8)",
+      "()",
+    ]);
+  });
+
+  await test("sort is stable", async () => {
+    const result = await evaluate(`
+      (sort '((1 . a) (0 . b) (1 . c) (0 . d) (1 . e))
+            (lambda (x y) (< (car x) (car y))))
+    `);
+    assert.strictEqual(
+      sexpToStr(result),
+      "((0 . b) (0 . d) (1 . a) (1 . c) (1 . e))",
+    );
+  });
+
+  await test("sort! sorts in place", async () => {
+    const { results } = await evaluateAll(`
+      (define v (vector 3 1 2))
+      (sort! v <)
+      v
+      (define l (cons 2 (cons 3 (cons 1 '()))))
+      (sort! l <)
+      l
+    `);
+    assert.strictEqual(sexpToStr(results[2]), "#(1 2 3)");
+    assert.strictEqual(sexpToStr(results[5]), "(1 2 3)");
+  });
+
+  await test("merge", async () => {
+    const result = await evaluate(`
+      (merge (lambda (x y) (< (car x) (car y)))
+             '((1 . a) (3 . a))
+             '((1 . b) (2 . b) (4 . b)))
+    `);
+    assert.strictEqual(
+      sexpToStr(result),
+      "((1 . a) (1 . b) (2 . b) (3 . a) (4 . b))",
+    );
+  });
+
+  await test("sort survives re-entered continuations", async () => {
+    const { results } = await evaluateAll(`
+      (define k #f)
+      (define n 0)
+      (define sorted
+        (sort '(3 2 1)
+          (lambda (a b)
+            (call/cc (lambda (c) (if (eq? k #f) (set! k c)) (< a b))))))
+      (if (= n 0) (begin (set! n 1) (k #f)))
+      sorted
+    `);
+    // Re-entered, the first comparison says 3 goes before 2
+    assert.strictEqual(sexpToStr(results[4]), "(1 3 2)");
+  });
+
+  await test("sort with a closure on a long list", async () => {
+    const { results } = await evaluateAll(`
+      (define sorted (sort (reverse (iota 20000)) (lambda (a b) (< a b))))
+      (car sorted)
+      (last sorted)
+    `);
+    assert.deepStrictEqual(results.slice(1), [0, 19999]);
+  });
+
+  // --- Multiple Values ---
+
+  console.log("\n--- Multiple Values ---");
+
+  await test("values and call-with-values", async () => {
+    const { results } = await evaluateAll(`
+      (call-with-values (lambda () (values 1 2)) cons)
+      (call-with-values (lambda () (values)) (lambda () 'none))
+      (call-with-values (lambda () 5) (lambda (x) (* x x)))
+      (values 1)
+      (values 1 'a "b")
+    `);
+    assert.strictEqual(sexpToStr(results[0]), "(1 . 2)");
+    assert.strictEqual(sexpToStr(results[1]), "none");
+    assert.strictEqual(results[2], 25);
+    // A single value is the value itself
+    assert.strictEqual(results[3], 1);
+    assert.strictEqual(sexpToStr(results[4]), '1 a "b"');
+  });
+
+  await test("receive", async () => {
+    const { results } = await evaluateAll(`
+      (receive (q r) (floor/ 7 2) (cons q r))
+      (receive (a . rest) (values 1 2 3) (cons a rest))
+      (receive all (values 1 2) all)
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      "(3 . 1)",
+      "(1 2 3)",
+      "(1 2)",
+    ]);
+  });
+
+  await test("let-values evaluates inits outside the bindings", async () => {
+    const { results } = await evaluateAll(`
+      (define x 1)
+      (let-values (((x y) (values 2 x)) (z (values x 3))) (cons x (cons y z)))
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "(2 1 1 3)");
+  });
+
+  await test("let*-values sees earlier bindings", async () => {
+    const result = await evaluate(`
+      (let*-values (((a b) (values 1 2)) ((c) (values (+ a b))))
+        (define d (* c 2))
+        (cons c d))
+    `);
+    assert.strictEqual(sexpToStr(result), "(3 . 6)");
+  });
+
+  await test("define-values", async () => {
+    const { results } = await evaluateAll(`
+      (define-values (q r) (truncate/ -7 2))
+      (cons q r)
+      (define (f)
+        (define-values (s . rest) (exact-integer-sqrt 17))
+        (cons s rest))
+      (f)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "(-3 . -1)");
+    assert.strictEqual(sexpToStr(results[3]), "(4 1)");
+  });
+
+  await test("integer division returns two values", async () => {
+    const { results } = await evaluateAll(`
+      (call-with-values (lambda () (floor/ -7 2)) cons)
+      (call-with-values (lambda () (truncate/ 7 -2)) cons)
+      (floor-quotient -7 2)
+      (call-with-values (lambda () (exact-integer-sqrt 16)) cons)
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      "(-4 . 1)",
+      "(-3 . 1)",
+      "-4",
+      "(4 . 0)",
+    ]);
+  });
+
+  await test("continuations accept multiple values", async () => {
+    const result = await evaluate(`
+      (call-with-values
+        (lambda () (call-with-current-continuation (lambda (k) (k 1 2))))
+        cons)
+    `);
+    assert.strictEqual(sexpToStr(result), "(1 . 2)");
+  });
+
+  await test("consumer is called in tail position", async () => {
+    const { results, env } = await evaluateAll(`
+      (define (count n)
+        (if (< n 1) 'done (receive (m) (values (- n 1)) (count m))))
+      (count 10000)
+      (define (fail n) (car n))
+      (define (loop n)
+        (if (< n 1) (fail n) (let-values (((m) (- n 1))) (loop m))))
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "done");
+    await assert.rejects(evaluate("(loop 3)", env), (error) => {
+      const trace = formatBacktrace(errorBacktrace(error));
+      assert.match(trace, /in \(fail n\) .*tail calls elided/);
+      assert.ok(!trace.includes("in (loop n)"));
+      return true;
+    });
+  });
+
+  await test("binding forms check the number of values", async () => {
+    await assert.rejects(
+      async () => evaluate("(receive (a b) (values 1 2 3) a)"),
+      /receive: Expected 2 values, got 3/,
+    );
+    await assert.rejects(
+      async () => evaluate("(let-values (((a b) (values 1))) a)"),
+      /let-values: Expected 2 values, got 1/,
+    );
+    await assert.rejects(
+      async () => evaluate("(let*-values (((a) (values 1 2))) a)"),
+      /let\*-values: Expected 1 value, got 2/,
+    );
+    await assert.rejects(
+      async () => evaluate("(define-values (a b . c) (values 1))"),
+      /define-values: Expected at least 2 values, got 1/,
+    );
+  });
+
+  await test("binding forms don't depend on global bindings", async () => {
+    const { results } = await evaluateAll(`
+      (define (*call-with-values* . args) 'redefined)
+      (define (call-with-values . args) 'redefined)
+      (receive (a b) (values 1 2) (cons a b))
+    `);
+    assert.strictEqual(sexpToStr(results[2]), "(1 . 2)");
+  });
+
+  await test("malformed multiple-value forms", async () => {
+    await assert.rejects(
+      async () => evaluate("(receive (a) (values 1))"),
+      /receive: Expected/,
+    );
+    await assert.rejects(
+      async () => evaluate("(let-values ((a)) a)"),
+      /let-values: Malformed binding/,
+    );
+    await assert.rejects(
+      async () => evaluate("(call-with-values (lambda () (values 1 2)) car)"),
+      /car/,
+    );
+  });
+
+  // --- Equality ---
+
+  console.log("\n--- Equality ---");
+
+  await test("eq? same numbers", async () => {
+    const result = await evaluate("(eq? 1 1)");
+    assert.strictEqual(result, true);
+  });
+
+  await test("eq? different numbers", async () => {
+    const result = await evaluate("(eq? 1 2)");
+    assert.strictEqual(result, false);
+  });
+
+  await test("eq? same symbols", async () => {
+    const result = await evaluate("(eq? 'a 'a)");
+    assert.strictEqual(result, true);
+  });
+
+  await test("eq? different symbols", async () => {
+    const result = await evaluate("(eq? 'a 'b)");
+    assert.strictEqual(result, false);
+  });
+
+  await test("eq? booleans", async () => {
+    const result = await evaluate("(eq? #t #t)");
+    assert.strictEqual(result, true);
+  });
+
+  await test("eq? null", async () => {
+    const result = await evaluate("(eq? '() '())");
+    assert.strictEqual(result, true);
+  });
+
+  await test("eq? variadic", async () => {
+    const result = await evaluate("(eq? 1 1 1 1)");
+    assert.strictEqual(result, true);
+  });
+
+  await test("eqv? same numbers", async () => {
+    const result = await evaluate("(eqv? 42 42)");
+    assert.strictEqual(result, true);
+  });
+
+  await test("eqv? different numbers", async () => {
+    const result = await evaluate("(eqv? 1 2)");
+    assert.strictEqual(result, false);
+  });
+
+  await test("eqv? same symbols", async () => {
+    const result = await evaluate("(eqv? 'foo 'foo)");
+    assert.strictEqual(result, true);
+  });
+
+  await test("eqv? booleans", async () => {
+    const result = await evaluate("(eqv? #f #f)");
+    assert.strictEqual(result, true);
+  });
+
+  await test("eqv? mixed booleans", async () => {
+    const result = await evaluate("(eqv? #t #f)");
+    assert.strictEqual(result, false);
+  });
+
+  await test("eqv? numbers of different exactness", async () => {
+    const { results } = await evaluateAll(`
+      (eqv? 2 2.0)
+      (eqv? (/ 1 2) (/ 2 4))
+      (eqv? 0.0 (- 0.0))
+      (eqv? (* 99999999999 99999999999) (* 99999999999 99999999999))
+      (eqv? 1.5 (/ 3.0 2))
+    `);
+    assert.deepStrictEqual(results, [false, true, false, true, true]);
+  });
+
+  await test("eqv? and eq? characters", async () => {
+    const { results } = await evaluateAll(`
+      (eqv? #\\a (integer->char 97))
+      (eq? #\\a (string-ref "abc" 0))
+      (eqv? #\\a #\\b)
+    `);
+    assert.deepStrictEqual(results, [true, true, false]);
+  });
+
+  await test("equal? compares structure", async () => {
+    const { results } = await evaluateAll(`
+      (equal? '(1 (2 #(3))) '(1 (2 #(3))))
+      (equal? "abc" (string-copy "abc"))
+      (equal? #u8(1 2) (bytevector 1 2))
+      (equal? '(1 2) '(1 3))
+      (equal? 2 2.0)
+    `);
+    assert.deepStrictEqual(results, [true, true, true, false, false]);
+  });
+
+  await test("equal? terminates on cyclic structures", async () => {
+    const { results } = await evaluateAll(`
+      (define a (cons 1 (cons 2 '())))
+      (set-cdr! (cdr a) a)
+      (define b (cons 1 (cons 2 (cons 1 (cons 2 '())))))
+      (set-cdr! (cdr (cdr (cdr b))) b)
+      (equal? a b)
+      (define v (vector 1 #f))
+      (vector-set! v 1 v)
+      (define w (vector 1 #f))
+      (vector-set! w 1 w)
+      (equal? v w)
+      (define c (cons 1 (cons 3 '())))
+      (set-cdr! (cdr c) c)
+      (equal? a c)
+    `);
+    assert.strictEqual(results[4], true);
+    assert.strictEqual(results[9], true);
+    assert.strictEqual(results[12], false);
+  });
+
+  await test("equal? handles deeply nested structures", async () => {
+    const { results } = await evaluateAll(`
+      (define (nest n)
+        (do ((i 0 (+ i 1)) (x '() (cons x (vector i))))
+          ((= i n) x)))
+      (equal? (nest 100000) (nest 100000))
+      (equal? (nest 100000) (cons (nest 99999) (vector 0)))
+    `);
+    assert.deepStrictEqual(results.slice(1), [true, false]);
+  });
+
+  await test("memq, memv and member", async () => {
+    const { results } = await evaluateAll(`
+      (memq 'c '(a b c d))
+      (memv 2.0 '(1 2 3))
+      (memv (/ 4 2) '(1 2 3))
+      (member '(2) '(1 (2) 3))
+      (member 2.0 '(1 2 3) =)
+      (memq 'z '(a b))
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      "(c d)",
+      "#f",
+      "(2 3)",
+      "((2) 3)",
+      "(2 3)",
+      "#f",
+    ]);
+  });
+
+  await test("assq, assv and assoc", async () => {
+    const { results } = await evaluateAll(`
+      (assq 'b '((a 1) (b 2)))
+      (assv 5 '((2 3) (5 7)))
+      (assoc "b" '(("a" . 1) ("b" . 2)))
+      (assoc 2.0 '((1 one) (2 two)) =)
+      (assv 1.0 '((1 one)))
+    `);
+    assert.deepStrictEqual(results.map(sexpToStr), [
+      "(b 2)",
+      "(5 7)",
+      '("b" . 2)',
+      "(2 two)",
+      "#f",
+    ]);
+  });
+
+  await test("member rejects an improper list", async () => {
+    await assert.rejects(
+      async () => await evaluate("(memv 9 '(1 . 2))"),
+      /memv: Expected a list/,
+    );
+  });
+
+  // --- Macros ---
+
+  console.log("\n--- Macros ---");
+
+  await test("simple macro", async () => {
+    const { results } = await evaluateAll(`
+      (define-macro (double x) (cons '+ (cons x (cons x '()))))
+      (double 5)
+    `);
+    assert.strictEqual(results[1], 10);
+  });
+
+  await test("macro with multiple args", async () => {
+    const { results } = await evaluateAll(`
+      (define-macro (add3 a b c) (cons '+ (cons a (cons b (cons c '())))))
+      (add3 1 2 3)
+    `);
+    assert.strictEqual(results[1], 6);
+  });
+
+  await test("macro defined in a lambda body is local to it", async () => {
+    const env = initEnv();
+    const analyzer = newBackend();
+    const { results } = await evaluateAll(
+      `
+      (define (f)
+        (define-macro (seven) 7)
+        (seven))
+      (f)
+    `,
+      env,
+      analyzer,
+    );
+    assert.strictEqual(results[1], 7);
+    await assert.rejects(
+      evaluateAll("(seven)", env, analyzer),
+      /Unbound variable: seven/,
+    );
+  });
+
+  await test("local variable shadows a macro", async () => {
+    const { results } = await evaluateAll(`
+      (define-macro (one) 1)
+      ((lambda (one) (one)) (lambda () 2))
+      (define (g) (define (one) 3) (one))
+      (g)
+      (one)
+    `);
+    assert.strictEqual(results[1], 2);
+    assert.strictEqual(results[3], 3);
+    assert.strictEqual(results[4], 1);
+  });
+
+  await test("local variable shadows a special form", async () => {
+    const result = await evaluate(
+      "((lambda (if) (if 1 2 3)) (lambda (a b c) (+ a b c)))",
+    );
+    assert.strictEqual(result, 6);
+  });
+
+  await test("environments don't share macros", async () => {
+    const analyzer = newBackend();
+    const first = initEnv();
+    const second = initEnv();
+    await evaluateAll("(define-macro (m) 1)", first, analyzer);
+    await evaluateAll("(define (m) 2)", second, analyzer);
+    const { results: fromFirst } = await evaluateAll("(m)", first, analyzer);
+    const { results: fromSecond } = await evaluateAll("(m)", second, analyzer);
+    assert.strictEqual(fromFirst[0], 1);
+    assert.strictEqual(fromSecond[0], 2);
+  });
+
+  await test("top-level define replaces a macro", async () => {
+    const { results } = await evaluateAll(`
+      (define-macro (m) 1)
+      (define (m) 2)
+      (m)
+    `);
+    assert.strictEqual(results[2], 2);
+  });
+
+  // --- Hygienic Macros ---
+
+  console.log("\n--- Hygienic Macros ---");
+
+  await test("define-syntax with syntax-rules", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax swap!
+        (syntax-rules ()
+          ((_ a b) ((lambda (tmp) (set! a b) (set! b tmp)) a))))
+      (define x 1)
+      (define y 2)
+      (swap! x y)
+      (cons x y)
+    `);
+    assert.strictEqual(sexpToStr(results[4]), "(2 . 1)");
+  });
+
+  await test("template bindings don't capture user variables", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax swap!
+        (syntax-rules ()
+          ((_ a b) ((lambda (tmp) (set! a b) (set! b tmp)) a))))
+      (define tmp 1)
+      (define other 2)
+      (swap! tmp other)
+      (cons tmp other)
+    `);
+    assert.strictEqual(sexpToStr(results[4]), "(2 . 1)");
+  });
+
+  await test("recursive macro with an introduced temporary", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax my-or
+        (syntax-rules ()
+          ((_) #f)
+          ((_ e) e)
+          ((_ e r ...) ((lambda (t) (if t t (my-or r ...))) e))))
+      (define t 5)
+      (my-or #f t)
+    `);
+    assert.strictEqual(results[2], 5);
+  });
+
+  await test("free template identifiers refer to the definition", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax first
+        (syntax-rules () ((_ x) (car x))))
+      ((lambda (car) (first '(1 2))) cdr)
+    `);
+    assert.strictEqual(results[1], 1);
+  });
+
+  await test("shadowing a special form doesn't break macros", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax my-when
+        (syntax-rules () ((_ c e) (if c e #f))))
+      ((lambda (if) (my-when #t 'yes)) 0)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "yes");
+  });
+
+  await test("literals match by binding", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax arrow
+        (syntax-rules (=>)
+          ((_ a => b) (cons a b))
+          ((_ a b c) 'no-arrow)))
+      (arrow 1 => 2)
+      ((lambda (=>) (arrow 1 => 2)) 0)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "(1 . 2)");
+    assert.strictEqual(sexpToStr(results[2]), "no-arrow");
+  });
+
+  await test("vector patterns and templates", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax rotate
+        (syntax-rules ()
+          ((_ #(a b ...)) (vector b ... a))
+          ((_ x) 'not-a-vector)))
+      (rotate #(1 2 3))
+      (rotate (1 2 3))
+      (define-syntax tag
+        (syntax-rules () ((_ x ...) '#(x ... end))))
+      (tag 1 2)
+      (tag)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "#(2 3 1)");
+    assert.strictEqual(sexpToStr(results[2]), "not-a-vector");
+    assert.strictEqual(sexpToStr(results[4]), "#(1 2 end)");
+    assert.strictEqual(sexpToStr(results[5]), "#(end)");
+  });
+
+  await test("ellipsis followed by more patterns", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax last-of
+        (syntax-rules () ((_ a ... z) 'z)))
+      (last-of 1 2 3)
+    `);
+    assert.strictEqual(results[1], 3);
+  });
+
+  await test("nested ellipses", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax flatten
+        (syntax-rules () ((_ (a b ...) ...) '(a ... b ... ...))))
+      (flatten (1 2 3) (4 5))
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "(1 4 2 3 5)");
+  });
+
+  await test("custom ellipsis identifier", async () => {
+    const result = await evaluate(`
+      (let-syntax ((quote-all (syntax-rules etc () ((_ x etc) '(x etc)))))
+        (quote-all a b c))
+    `);
+    assert.strictEqual(sexpToStr(result), "(a b c)");
+  });
+
+  await test("macro-defining macro with escaped ellipsis", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax define-lister
+        (syntax-rules ()
+          ((_ name)
+           (define-syntax name
+             (syntax-rules () ((_ x (... ...)) '(x (... ...))))))))
+      (define-lister lst)
+      (lst 1 2 3)
+    `);
+    assert.strictEqual(sexpToStr(results[2]), "(1 2 3)");
+  });
+
+  await test("quoted template symbols are plain symbols", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax hello (syntax-rules () ((_) 'hello)))
+      (eq? (hello) 'hello)
+    `);
+    assert.strictEqual(results[1], true);
+  });
+
+  await test("macro can define a top-level variable", async () => {
+    const { results } = await evaluateAll(`
+      (define-syntax def (syntax-rules () ((_ n v) (define n v))))
+      (def z 3)
+      z
+    `);
+    assert.strictEqual(results[2], 3);
+  });
+
+  await test("let-syntax is scoped to its body", async () => {
+    const env = initEnv();
+    const result = await evaluate(
+      "(let-syntax ((one (syntax-rules () ((_) 1)))) (one))",
+      env,
+    );
+    assert.strictEqual(result, 1);
+    await assert.rejects(evaluate("(one)", env), /Unbound variable: one/);
+  });
+
+  await test("let-syntax macros see the outer binding", async () => {
+    const result = await evaluate(`
+      ((lambda (x)
+         (let-syntax ((m (syntax-rules () ((_) x))))
+           ((lambda (x) (m)) 'inner)))
+       'outer)
+    `);
+    assert.strictEqual(sexpToStr(result), "outer");
+  });
+
+  await test("letrec-syntax allows recursive macros", async () => {
+    const result = await evaluate(`
+      (letrec-syntax
+          ((my-and (syntax-rules ()
+                     ((_) #t)
+                     ((_ e) e)
+                     ((_ e r ...) (if e (my-and r ...) #f)))))
+        (my-and 1 2 3))
+    `);
+    assert.strictEqual(result, 3);
+  });
+
+  await test("internal define-syntax", async () => {
+    const { results } = await evaluateAll(`
+      (define (f x)
+        (define-syntax double (syntax-rules () ((_ e) (+ e e))))
+        (double x))
+      (f 21)
+    `);
+    assert.strictEqual(results[1], 42);
+  });
+
+  await test("no matching rule reports the macro call", async () => {
+    const error = await evaluateAll(
+      "(define-syntax two (syntax-rules () ((_ a b) a)))\n(two 1)",
+    ).catch((e) => e);
+    assert.match(formatError(error), /<string>:2:1: two: No rule matches \(two 1\)/);
+  });
+
+  // --- Quasiquote ---
+
+  console.log("\n--- Quasiquote ---");
+
+  await test("quasiquote without unquote", async () => {
+    const result = await evaluate("`(a b c)");
+    assert.strictEqual(sexpToStr(result), "(a b c)");
+  });
+
+  await test("quasiquote with unquote", async () => {
+    const { results } = await evaluateAll(`
+      (define x 42)
+      \`(a ,x c)
+    `);
     assert.strictEqual(sexpToStr(results[1]), "(a 42 c)");
   });
 
@@ -713,6 +2908,363 @@ async function runTests(): Promise<void> {
     assert.strictEqual(results[2], true);
   });
 
+  // --- Continuations ---
+
+  console.log("\n--- Continuations ---");
+
+  await test("call/cc escapes from a computation", async () => {
+    const result = await evaluate(
+      "(+ 1 (call/cc (lambda (k) (+ 10 (k 2)))))",
+    );
+    assert.strictEqual(result, 3);
+  });
+
+  await test("call/cc returns normally when k is not invoked", async () => {
+    const result = await evaluate(
+      "(+ 1 (call-with-current-continuation (lambda (k) 5)))",
+    );
+    assert.strictEqual(result, 6);
+  });
+
+  await test("early exit from a list walk", async () => {
+    const { results } = await evaluateAll(`
+      (define (find-first pred lst)
+        (call/cc
+          (lambda (return)
+            (define (walk l)
+              (if (null? l)
+                  #f
+                  (if (pred (car l)) (return (car l)) (walk (cdr l)))))
+            (walk lst))))
+      (find-first (lambda (x) (< 2 x)) '(1 2 3 4))
+    `);
+    assert.strictEqual(results[1], 3);
+  });
+
+  await test("continuation re-entered within an expression", async () => {
+    const { results } = await evaluateAll(`
+      (define (collect)
+        (define acc '())
+        (define k (call/cc (lambda (c) c)))
+        (set! acc (cons 1 acc))
+        (if (null? (cdr (cdr (cons 0 acc)))) (k k) acc))
+      (collect)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "(1 1)");
+  });
+
+  await test("continuation re-entered from a later top-level form", async () => {
+    const { results } = await evaluateAll(`
+      (define saved #f)
+      (define n 0)
+      (+ 1 (call/cc (lambda (k) (set! saved k) 1)))
+      (set! n (+ n 1))
+      (saved 10)
+      n
+    `);
+    assert.strictEqual(results[2], 2);
+    assert.strictEqual(results[4], 11);
+    assert.strictEqual(results[5], 1);
+  });
+
+  await test("re-entry keeps earlier argument values", async () => {
+    const { results } = await evaluateAll(`
+      (define saved #f)
+      (define pair (cons 1 (call/cc (lambda (k) (set! saved k) 2))))
+      (define kept pair)
+      (saved 3)
+      (cons kept pair)
+    `);
+    assert.strictEqual(sexpToStr(results[4]), "((1 . 2) 1 . 3)");
+  });
+
+  await test("call/cc works with apply", async () => {
+    const result = await evaluate(
+      "(+ 1 (apply call/cc (cons (lambda (k) (k 41)) '())))",
+    );
+    assert.strictEqual(result, 42);
+  });
+
+  await test("continuation escapes a with-exception-handler handler", async () => {
+    const result = await evaluate(`
+      (call/cc
+        (lambda (k)
+          (with-exception-handler
+            (lambda (e) (k (error-object-message e)))
+            (lambda () (car 1)))))
+    `);
+    assert.strictEqual(result, "car: Expected a cons cell.");
+  });
+
+  await test("tail loop through call/cc runs in constant stack", async () => {
+    const { results } = await evaluateAll(`
+      (define (loop n)
+        (if (< n 1)
+            'done
+            (call/cc (lambda (k) (loop (- n 1))))))
+      (loop 10000)
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "done");
+  });
+
+  await test("deep non-tail recursion does not overflow the JS stack", async () => {
+    const { results } = await evaluateAll(`
+      (define (count n)
+        (if (< n 1) 0 (+ 1 (count (- n 1)))))
+      (count 100000)
+    `);
+    assert.strictEqual(results[1], 100000);
+  });
+
+  await test("continuation invoked from a macro transformer's driver", async () => {
+    const { results } = await evaluateAll(`
+      (define saved #f)
+      (+ 100 (call/cc (lambda (k) (set! saved k) 0)))
+      (define-macro (jump) (saved 5))
+      (jump)
+    `);
+    assert.strictEqual(results[1], 100);
+    assert.strictEqual(results[3], 105);
+  });
+
+  await test("call stack is restored when a continuation is invoked", async () => {
+    await evaluateAll(`
+      (define saved #f)
+      (define (inner) (call/cc (lambda (k) (set! saved k) 1)))
+      (define (outer) (+ 1 (inner)))
+      (outer)
+      (saved 2)
+    `);
+    assert.strictEqual(callStack.top, null);
+  });
+
+  // --- Dynamic Wind ---
+
+  console.log("\n--- Dynamic Wind ---");
+
+  const windPrelude = `
+    (define trace '())
+    (define (note x) (set! trace (cons x trace)))
+  `;
+
+  await test("dynamic-wind runs before, thunk and after in order", async () => {
+    const { results } = await evaluateAll(`${windPrelude}
+      (dynamic-wind
+        (lambda () (note 'before))
+        (lambda () (note 'body) 42)
+        (lambda () (note 'after)))
+      trace
+    `);
+    assert.strictEqual(results[2], 42);
+    assert.strictEqual(sexpToStr(results[3]), "(after body before)");
+  });
+
+  await test("escaping with a continuation runs the after thunk", async () => {
+    const { results } = await evaluateAll(`${windPrelude}
+      (call/cc
+        (lambda (k)
+          (dynamic-wind
+            (lambda () (note 'before))
+            (lambda () (k 'escaped) (note 'unreached))
+            (lambda () (note 'after)))))
+      trace
+    `);
+    assert.strictEqual(sexpToStr(results[2]), "escaped");
+    assert.strictEqual(sexpToStr(results[3]), "(after before)");
+  });
+
+  await test("re-entering the extent runs the before thunk again", async () => {
+    const { results } = await evaluateAll(`${windPrelude}
+      (define saved #f)
+      (define count 0)
+      (dynamic-wind
+        (lambda () (note 'before))
+        (lambda () (call/cc (lambda (k) (set! saved k))) (note 'body))
+        (lambda () (note 'after)))
+      (set! count (+ count 1))
+      (if (< count 2) (saved #f) count)
+      trace
+    `);
+    assert.strictEqual(
+      sexpToStr(results[7]),
+      "(after body before after body before)",
+    );
+  });
+
+  await test("nested extents unwind innermost first", async () => {
+    const { results } = await evaluateAll(`${windPrelude}
+      (call/cc
+        (lambda (k)
+          (dynamic-wind
+            (lambda () (note 'outer-in))
+            (lambda ()
+              (dynamic-wind
+                (lambda () (note 'inner-in))
+                (lambda () (k 0))
+                (lambda () (note 'inner-out))))
+            (lambda () (note 'outer-out)))))
+      trace
+    `);
+    assert.strictEqual(
+      sexpToStr(results[3]),
+      "(outer-out inner-out inner-in outer-in)",
+    );
+  });
+
+  await test("guard leaving the extent runs the after thunk", async () => {
+    const { results } = await evaluateAll(`${windPrelude}
+      (guard (e (#t (note 'handled) (error-object-message e)))
+        (dynamic-wind
+          (lambda () (note 'before))
+          (lambda () (error "boom"))
+          (lambda () (note 'after))))
+      trace
+    `);
+    assert.strictEqual(results[2], "boom");
+    assert.strictEqual(sexpToStr(results[3]), "(handled after before)");
+  });
+
+  await test("raise-continuable handler runs inside the extent", async () => {
+    const { results } = await evaluateAll(`${windPrelude}
+      (with-exception-handler
+        (lambda (e) (note 'handler) 10)
+        (lambda ()
+          (dynamic-wind
+            (lambda () (note 'before))
+            (lambda () (+ 1 (raise-continuable 'oops)))
+            (lambda () (note 'after)))))
+      trace
+    `);
+    assert.strictEqual(results[2], 11);
+    assert.strictEqual(sexpToStr(results[3]), "(after handler before)");
+  });
+
+  await test("uncaught error runs the after thunk", async () => {
+    const env = initEnv();
+    await evaluateAll(windPrelude, env);
+    await assert.rejects(
+      evaluate(
+        `(dynamic-wind
+           (lambda () (note 'before))
+           (lambda () (car 1))
+           (lambda () (note 'after)))`,
+        env,
+      ),
+      /car: Expected a cons cell/,
+    );
+    const { results } = await evaluateAll("trace", env);
+    assert.strictEqual(sexpToStr(results[0]), "(after before)");
+  });
+
+  await test("tail calls inside the body thunk run in constant stack", async () => {
+    const { results } = await evaluateAll(`
+      (define (loop n) (if (< n 1) 'done (loop (- n 1))))
+      (dynamic-wind
+        (lambda () #f)
+        (lambda () (loop 100000))
+        (lambda () #f))
+    `);
+    assert.strictEqual(sexpToStr(results[1]), "done");
+  });
+
+  // --- Compiled Modules ---
+  if (backend === "JS") {
+    console.log("\n--- Compiled Modules ---");
+
+    // Generates a module for the program and runs it with node
+    async function runModule(
+      input: string,
+    ): Promise<{ stdout: string; stderr: string; status: number | null; map: SourceMap }> {
+      const lexer = new Lexer(InputStream.fromString(input, "prog.scm"));
+      const parser = new SchemeParser(lexer);
+      const forms: SchemeType[] = [];
+      while ((await lexer.peek()).type !== TokenType.EOF) {
+        forms.push(await parser.parse());
+      }
+      lexer.close();
+
+      const dir = mkdtempSync(join(tmpdir(), "tsscm-"));
+      const output = join(dir, "prog.js");
+      const { code, map } = new SchemeJSCompiler().generateModule(forms, initEnv(), {
+        source: "prog.scm",
+        output,
+        runtime: pathToFileURL(join(__dirname, "runtime.js")).href,
+        sourceName: (file) => file.name,
+      });
+      writeFileSync(output, code);
+      const result = spawnSync(process.execPath, [output], { encoding: "utf8" });
+      rmSync(dir, { recursive: true });
+      return { stdout: result.stdout, stderr: result.stderr, status: result.status, map };
+    }
+
+    await test("compiled module runs under node", async () => {
+      const { stdout, status } = await runModule(`
+        (define (count n acc) (if (< n 1) acc (count (- n 1) (+ acc 1))))
+        (log (count 100000 0))
+        (define-syntax swap!
+          (syntax-rules () ((_ a b) ((lambda (tmp) (set! a b) (set! b tmp)) a))))
+        (define p 1)
+        (define q 2)
+        (swap! p q)
+        (log \`(,p ,q))
+        (log (guard (e (#t (cons 'caught e))) (raise 'oops)))
+      `);
+      assert.strictEqual(status, 0);
+      assert.strictEqual(stdout, "100000\n(2 1)\n(caught . oops)\n");
+    });
+
+    await test("compiled module reports errors at the source location", async () => {
+      const { stdout, stderr, status } = await runModule(`(log 1)\n(car 5)\n(log 2)`);
+      assert.strictEqual(status, 1);
+      assert.strictEqual(stdout, "1\n");
+      assert.match(stderr, /^prog\.scm:2:1: car: Expected a cons cell/);
+    });
+
+    await test("tsscm compile writes a runnable module", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "tsscm-"));
+      const input = join(dir, "prog.scm");
+      const output = join(dir, "out", "prog.js");
+      writeFileSync(input, `
+        (define (wrap x) (list 'quote x))
+        (define-macro (quoted x) (wrap x))
+        (define c (begin (log "run") 0))
+        (log (quoted (a b)))
+        (log (map (lambda (x) (* x x)) '(1 2 3)))
+      `);
+      try {
+        await compile(input, output);
+        const result = spawnSync(process.execPath, [output], {
+          encoding: "utf8",
+        });
+        assert.strictEqual(result.status, 0, result.stderr);
+        assert.strictEqual(result.stdout, "run\n(a b)\n(1 4 9)\n");
+      } finally {
+        rmSync(dir, { recursive: true });
+      }
+    });
+
+    await test("tsscm compile does not run the program", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "tsscm-"));
+      const input = join(dir, "prog.scm");
+      const output = join(dir, "prog.js");
+      writeFileSync(input, "(define y (vector-ref (vector) 0))");
+      try {
+        await compile(input, output);
+        assert.ok(existsSync(output));
+      } finally {
+        rmSync(dir, { recursive: true });
+      }
+    });
+
+    await test("source map points back at the program", async () => {
+      const { map } = await runModule(`(log (+ 1 2))`);
+      assert.deepStrictEqual(map.sources, ["prog.scm"]);
+      assert.deepStrictEqual(map.sourcesContent, ["(log (+ 1 2))"]);
+      assert.strictEqual(map.file, "prog.js");
+      assert.notStrictEqual(map.mappings.replace(/;/g, ""), "");
+    });
+  }
+
   // --- Print Summary ---
 
   console.log("\n===================");
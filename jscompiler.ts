@@ -0,0 +1,1021 @@
+import {
+  SchemeId,
+  SchemeChar,
+  SchemeVector,
+  MutableString,
+  SCons,
+  Frame,
+  SchemeProcedure,
+  SchemeType,
+  Code,
+} from "./types";
+import { SourceFile, SourceSpan, annotate, spanOf } from "./source";
+import { sexpToStr } from "./printer";
+import { SchemeFlonum, SchemeRational } from "./numbers";
+import { arrayToList, receiveValues } from "./builtins";
+import { execute } from "./control";
+import { Scope, stripSyntax } from "./syntax";
+import {
+  LetForm,
+  SchemeExpander,
+  carIsId,
+  isDerivedForm,
+  isSelfEvaluating,
+  safeCar,
+  safeCdr,
+  safeId,
+} from "./expander";
+import { SourceMap, SourceMapBuilder } from "./sourcemap";
+import * as runtime from "./runtime";
+
+//
+// JavaScript compiler
+//
+// Compiles expanded forms to JavaScript source in continuation-passing
+// style, calling into runtime.ts.  Generated code has the same shape as the
+// analyzer's closures: a form becomes (f, k) => ..., where f is the frame
+// and k the continuation, and tail calls go through the trampoline.
+//
+// analyzeSexp compiles and evaluates a form in-process; generateModule
+// writes a whole program as an ES module that needs only the runtime.
+//
+
+// JS source that evaluates a form and passes its value to the continuation
+// k, itself JS source
+type Gen = (k: string) => string;
+
+// Generated code refers to quoted data as C[i] and source spans as S[i].
+// Quoted data refers to uninterned symbols as U[i].
+class Unit {
+  public readonly constants: string[] = [];
+  public readonly symbols: SchemeId[] = [];
+  public readonly spans: SourceSpan[] = [];
+  private names = 0;
+
+  public fresh(prefix: string): string {
+    return `${prefix}${++this.names}`;
+  }
+}
+
+// Marks where the code for span S[i] starts, for the source map
+const MARKS = /\u0000(\d+)\u0001/g;
+
+function stripMarks(source: string): string {
+  return source.replace(MARKS, "");
+}
+
+// The name (define name ...) or (define (name ...) ...) defines
+function definedName(form: SchemeType): string | null {
+  let target = form instanceof SCons ? safeCar(form.cdr) : null;
+  while (target instanceof SCons) target = target.car;
+  return target instanceof SchemeId ? target.id : null;
+}
+
+// Names of the symbols anywhere in sexp
+function symbolNames(sexp: SchemeType): Set<string> {
+  const names = new Set<string>();
+  const pending = [sexp];
+  while (pending.length > 0) {
+    const next = pending.pop();
+    if (next instanceof SchemeId) {
+      names.add(next.id);
+    } else if (next instanceof SCons) {
+      pending.push(next.car, next.cdr);
+    } else if (next instanceof SchemeVector) {
+      pending.push(...next.items);
+    }
+  }
+  return names;
+}
+
+function isIdentifier(source: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(source);
+}
+
+export interface ModuleOptions {
+  // The program's source file and the module's path, for the header and
+  // the source map
+  source: string;
+  output: string;
+  // Import specifier for runtime.js
+  runtime: string;
+  // How the source map names a source file
+  sourceName: (file: SourceFile) => string;
+}
+
+export class SchemeJSCompiler extends SchemeExpander {
+  private unit = new Unit();
+
+  // Public API: returns a function that runs the code to completion
+  analyzeSexp(sexp: SchemeType, env: Frame): (frame: Frame) => SchemeType {
+    this.env = env;
+    this.unit = new Unit();
+    const source = this.gen(sexp, this.globalScope(env), false)("k");
+    const form = this.instantiate(`(f, k) => ${source}`) as Code;
+    return (frame: Frame) => execute((k) => form(frame, k));
+  }
+
+  // Compiles a program, whose forms are run in order in a fresh
+  // environment.  env is the compile-time environment, which define-macro
+  // transformers are evaluated in.  The program's own definitions run only
+  // when the module does, except those a define-macro form refers to,
+  // which run in env first so its transformer can call them.
+  public generateModule(
+    forms: SchemeType[],
+    env: Frame,
+    options: ModuleOptions,
+  ): { code: string; map: SourceMap } {
+    this.env = env;
+    this.unit = new Unit();
+    const scope = this.globalScope(env);
+    // Top-level definitions by name, until they run at compile time
+    const definitions = new Map<string, SchemeType>();
+    const bodies = forms.map((form) => {
+      const special = this.specialForm(form, scope);
+      if (special === "define-macro") {
+        this.defineDependencies(form, definitions, env);
+      }
+      const { mark } = this.site(form);
+      const body = `${mark}(f, k) => ${this.gen(form, scope, false)("k")}`;
+      const name = special === "define" ? definedName(form) : null;
+      if (name !== null) definitions.set(name, form);
+      return body;
+    });
+
+    const files: SourceFile[] = [];
+    const spans = this.unit.spans.map(({ start, end }) => {
+      if (!files.includes(start.file)) files.push(start.file);
+      return [files.indexOf(start.file), start.line, start.column, end.line, end.column];
+    });
+    const output = options.output.replace(/^.*[\\/]/, "");
+    const source = [
+      `// Generated by tsscm from ${options.source}.  Do not edit.`,
+      `import rt from ${JSON.stringify(options.runtime)};`,
+      `const S = rt.sourceSpans(${JSON.stringify(
+        files.map((file) => [file.name, file.lines]),
+      )}, ${JSON.stringify(spans)});`,
+      `const U = ${this.uninterned()};`,
+      `const C = [${this.unit.constants.join(", ")}];`,
+      `rt.runModule([`,
+      ...bodies.map((body) => `  ${body},`),
+      `]);`,
+      `//# sourceMappingURL=${output}.map`,
+      ``,
+    ].join("\n");
+
+    const map = new SourceMapBuilder();
+    let code = "";
+    let line = 0;
+    let column = 0;
+    let last = 0;
+    const advance = (text: string) => {
+      code += text;
+      const newlines = text.split("\n");
+      if (newlines.length > 1) {
+        line += newlines.length - 1;
+        column = newlines[newlines.length - 1].length;
+      } else {
+        column += text.length;
+      }
+    };
+    for (const match of source.matchAll(MARKS)) {
+      advance(source.slice(last, match.index));
+      last = (match.index as number) + match[0].length;
+      const { start } = this.unit.spans[Number(match[1])];
+      const file = map.addSource(
+        options.sourceName(start.file),
+        start.file.lines.join("\n"),
+      );
+      map.addMapping(line, column, file, start.line - 1, start.column - 1);
+    }
+    advance(source.slice(last));
+    return { code, map: map.toJSON(output) };
+  }
+
+  // Runs the definitions whose names appear in form, and the ones their
+  // names appear in, in the compile-time environment.  Quoted names count
+  // too, which may run a definition the transformer doesn't need.
+  private defineDependencies(
+    form: SchemeType,
+    definitions: Map<string, SchemeType>,
+    env: Frame,
+  ): void {
+    for (const name of symbolNames(form)) {
+      const definition = definitions.get(name);
+      if (definition === undefined) continue;
+      definitions.delete(name);
+      this.defineDependencies(definition, definitions, env);
+      this.defineAtCompileTime(definition, env);
+    }
+  }
+
+  // Runs a top-level definition in the compile-time environment, without
+  // disturbing the module being compiled
+  private defineAtCompileTime(form: SchemeType, env: Frame): void {
+    const unit = this.unit;
+    try {
+      this.analyzeSexp(form, env)(env);
+    } finally {
+      this.unit = unit;
+      this.env = env;
+    }
+  }
+
+  // Evaluates generated source against the runtime
+  private instantiate(source: string): unknown {
+    const { constants, spans } = this.unit;
+    const symbols = new Function("rt", `return ${this.uninterned()};`)(runtime);
+    const values = new Function(
+      "rt",
+      "U",
+      `return [${constants.join(", ")}];`,
+    )(runtime, symbols);
+    return new Function("rt", "C", "S", `return ${stripMarks(source)};`)(
+      runtime,
+      values,
+      spans,
+    );
+  }
+
+  // JS source making the unit's uninterned symbols
+  private uninterned(): string {
+    const symbols = this.unit.symbols.map(
+      (symbol) => `rt.SchemeId.uninterned(${JSON.stringify(symbol.id)})`,
+    );
+    return `[${symbols.join(", ")}]`;
+  }
+
+  protected makeTransformer(
+    lambdaSexp: SCons,
+    scope: Scope,
+    env: Frame,
+  ): SchemeProcedure {
+    const lambda = this.lambda(lambdaSexp, scope);
+    const make = this.instantiate(`(f) => ${lambda}`) as (f: Frame) => SchemeType;
+    return make(env) as SchemeProcedure;
+  }
+
+  // S[i] for sexp's span, and a mark for the source map
+  private site(sexp: SchemeType): { span: string; mark: string } {
+    return this.spanSite(spanOf(sexp));
+  }
+
+  private spanSite(span: SourceSpan | undefined): { span: string; mark: string } {
+    if (span === undefined) return { span: "undefined", mark: "" };
+    const index = this.unit.spans.push(span) - 1;
+    return { span: `S[${index}]`, mark: `\u0000${index}\u0001` };
+  }
+
+  // Binds k to a name if it isn't one, for code that uses it twice
+  private withK(k: string, body: (k: string) => string): string {
+    if (isIdentifier(k)) return body(k);
+    const name = this.unit.fresh("k");
+    return `((${name}) => ${body(name)})(${k})`;
+  }
+
+  //
+  // Data
+  //
+
+  // JS source building a quoted datum
+  private datum(sexp: SchemeType): string {
+    if (typeof sexp === "number") {
+      return String(sexp);
+    } else if (typeof sexp === "bigint") {
+      return `${sexp}n`;
+    } else if (sexp instanceof SchemeRational) {
+      return `new rt.SchemeRational(${sexp.num}n, ${sexp.den}n)`;
+    } else if (sexp instanceof SchemeFlonum) {
+      const value = Object.is(sexp.value, -0) ? "-0" : String(sexp.value);
+      return `new rt.SchemeFlonum(${value})`;
+    } else if (typeof sexp === "string") {
+      return JSON.stringify(sexp);
+    } else if (sexp instanceof MutableString) {
+      return `new rt.MutableString(${JSON.stringify(sexp.value)})`;
+    } else if (typeof sexp === "boolean" || sexp === null) {
+      return String(sexp);
+    } else if (sexp instanceof SchemeChar) {
+      return `rt.SchemeChar.of(${JSON.stringify(sexp.char)})`;
+    } else if (sexp instanceof SchemeId && sexp.uninterned) {
+      // One object for all of the symbol's occurrences
+      const symbols = this.unit.symbols;
+      if (!symbols.includes(sexp)) symbols.push(sexp);
+      return `U[${symbols.indexOf(sexp)}]`;
+    } else if (sexp instanceof SchemeId) {
+      return `rt.SchemeId.of(${JSON.stringify(sexp.id)})`;
+    } else if (sexp instanceof SCons) {
+      return `new rt.SCons(${this.datum(sexp.car)}, ${this.datum(sexp.cdr)})`;
+    } else if (sexp instanceof SchemeVector) {
+      const items = sexp.items.map((item) => this.datum(item));
+      return `new rt.SchemeVector([${items.join(", ")}])`;
+    } else if (sexp instanceof Uint8Array) {
+      return `new Uint8Array([${sexp.join(", ")}])`;
+    } else if (sexp === receiveValues) {
+      // Quoted into the forms receive and the like expand to
+      return "rt.receiveValues";
+    }
+    throw new Error(`Can't compile a constant: ${sexpToStr(sexp)}`);
+  }
+
+  // Quoted data.  Symbols, lists, vectors, bytevectors and mutable strings
+  // are built once, so every evaluation gives the same object.
+  private constant(sexp: SchemeType): string {
+    if (
+      sexp instanceof SchemeId ||
+      sexp instanceof SCons ||
+      sexp instanceof SchemeVector ||
+      sexp instanceof Uint8Array ||
+      sexp instanceof MutableString
+    ) {
+      return `C[${this.unit.constants.push(this.datum(sexp)) - 1}]`;
+    }
+    return this.datum(sexp);
+  }
+
+  //
+  // Expressions
+  //
+
+  // Internal: tracks tail position, which decides whether calls replace the
+  // caller's frame on the shadow call stack
+  private gen(sexp: SchemeType, scope: Scope, tail: boolean): Gen {
+    const direct = this.direct(sexp, scope);
+    if (direct !== null) return (k) => `rt.resume(${k}, ${direct})`;
+    if (sexp instanceof SCons) {
+      try {
+        return this.genForm(sexp, scope, tail);
+      } catch (error) {
+        // Syntax errors are reported at the innermost enclosing form
+        throw annotate(error, spanOf(sexp));
+      }
+    }
+    throw new Error(`Unexpected type: ${typeof sexp}`);
+  }
+
+  // Variables, literals, quote and lambda are JS expressions for their
+  // value.  Returns null for everything else.
+  private direct(sexp: SchemeType, scope: Scope): string | null {
+    if (sexp instanceof SchemeId) {
+      return this.variable(sexp, scope);
+    } else if (isSelfEvaluating(sexp)) {
+      return this.constant(stripSyntax(sexp));
+    }
+    const form = this.specialForm(sexp, scope);
+    if (form === "quote" || form === "lambda") {
+      try {
+        if (form === "quote") {
+          return this.constant(stripSyntax(safeCar(safeCdr(sexp))));
+        }
+        return this.lambda(safeCdr(sexp) as SCons, scope);
+      } catch (error) {
+        throw annotate(error, spanOf(sexp));
+      }
+    }
+    return null;
+  }
+
+  private genForm(sexp: SCons, scope: Scope, tail: boolean): Gen {
+    const expanded = this.expandMacroUse(sexp, scope);
+    if (expanded !== null) return this.gen(expanded, scope, tail);
+    const form = this.specialForm(sexp, scope);
+    if (form === "define") {
+      return this.genDefine(sexp.cdr as SCons, scope);
+    } else if (form === "set!") {
+      return this.genSet(sexp.cdr as SCons, scope);
+    } else if (form === "or" || form === "and") {
+      return this.genJunction(sexp.cdr, scope, tail, form === "or");
+    } else if (form === "if") {
+      return this.genIf(sexp.cdr as SCons, scope, tail);
+    } else if (form === "define-macro") {
+      const name = this.constant(this.defineMacro(sexp.cdr as SCons, scope));
+      return (k) => `rt.resume(${k}, ${name})`;
+    } else if (form === "quasiquote") {
+      return this.genQuasiquote((sexp.cdr as SCons).car, scope);
+    } else if (form === "guard") {
+      return this.genGuard(safeCdr(sexp), scope, tail);
+    } else if (form === "define-syntax") {
+      const name = this.constant(this.defineSyntax(sexp.cdr as SCons, scope));
+      return (k) => `rt.resume(${k}, ${name})`;
+    } else if (form === "let-syntax" || form === "letrec-syntax") {
+      const bodyScope = this.letSyntaxScope(
+        (sexp.cdr as SCons).car,
+        scope,
+        form === "letrec-syntax",
+      );
+      return this.genBody((sexp.cdr as SCons).cdr as SCons, bodyScope, tail);
+    } else if (form === "syntax-rules") {
+      throw new Error("syntax-rules: Only valid as a macro transformer.");
+    } else if (form === "begin") {
+      if (sexp.cdr !== null) {
+        return this.genSequence(sexp.cdr as SCons, scope, tail);
+      }
+      // (begin) is #f, like the empty (if #f #f) it used to expand to
+      return (k) => `rt.resume(${k}, false)`;
+    } else if (form === "cond") {
+      return this.genCondClauses(
+        "cond",
+        sexp.cdr,
+        scope,
+        tail,
+        (k) => `rt.resume(${k}, false)`,
+      );
+    } else if (form === "case") {
+      return this.genCase(sexp.cdr, scope, tail);
+    } else if (form === "when" || form === "unless") {
+      return this.genWhen(sexp.cdr, form, scope, tail);
+    } else if (form === "do") {
+      return this.genDo(sexp.cdr, scope, tail);
+    } else if (isDerivedForm(form)) {
+      return this.gen(this.derivedForm(sexp, form as string), scope, tail);
+    } else if (
+      form === "let" ||
+      form === "let*" ||
+      form === "letrec" ||
+      form === "letrec*"
+    ) {
+      return this.genLetForm(sexp, form, scope, tail);
+    } else {
+      return this.genApplication(sexp, scope, tail);
+    }
+  }
+
+  //
+  // Variables
+  //
+
+  // f.parent... up `hops` frames
+  private frame(hops: number): string {
+    return "f" + ".parent".repeat(hops);
+  }
+
+  private variable(id: SchemeId, scope: Scope): string {
+    const location = this.locate(id, scope);
+    const { span, mark } = this.site(id);
+    const name = JSON.stringify(id.id);
+    if ("name" in location) {
+      return `${mark}rt.global(f, ${JSON.stringify(location.name)}, ${name}, ${span})`;
+    }
+    const slot = `${this.frame(location.hops)}.slots[${location.index}]`;
+    return `${mark}rt.local(${slot}, ${name}, ${span})`;
+  }
+
+  private genDefine(sexp: SCons, scope: Scope): Gen {
+    let id: SchemeId;
+    let value: Gen;
+    if (sexp.car instanceof SCons) {
+      // sexp is like ((funcname arg1 arg2) body)
+      id = safeId(safeCar(sexp.car));
+      const lambda = this.lambda(new SCons(safeCdr(sexp.car), sexp.cdr), scope);
+      value = (k) => `rt.resume(${k}, ${lambda})`;
+    } else {
+      id = safeId(sexp.car);
+      value = this.gen(safeCar(sexp.cdr), scope, false);
+    }
+    const binding = this.definitionBinding(id, scope);
+    // Definitions go in the current frame, or the global one at top level
+    const index = binding.kind === "local" ? binding.index : -1;
+    const global = JSON.stringify(binding.kind === "global" ? binding.name : "");
+    const name = JSON.stringify(id.id);
+    return (k) => {
+      const v = this.unit.fresh("v");
+      return value(
+        `(${v}) => rt.resume(${k}, rt.define(f, ${index}, ${global}, ${name}, ${v}))`,
+      );
+    };
+  }
+
+  private genSet(sexp: SCons, scope: Scope): Gen {
+    // sexp is (id value)
+    const id = safeId(sexp.car);
+    const location = this.locate(id, scope);
+    const value = this.gen(safeCar(sexp.cdr), scope, false);
+    const { span } = this.site(sexp.car);
+    const name = JSON.stringify(id.id);
+    return (k) => {
+      const v = this.unit.fresh("v");
+      const store =
+        "name" in location
+          ? `rt.setGlobal(f, ${JSON.stringify(location.name)}, ${v}, ${name}, ${span})`
+          : `rt.setLocal(${this.frame(location.hops)}, ${location.index}, ${v}, ${name}, ${span})`;
+      return value(`(${v}) => rt.resume(${k}, ${store})`);
+    };
+  }
+
+  //
+  // Procedures
+  //
+  private genApplication(sexp: SCons, scope: Scope, tail: boolean): Gen {
+    const evaluate = this.genOperands(
+      [sexp.car, ...(sexp.cdr instanceof SCons ? sexp.cdr : [])],
+      scope,
+    );
+    const { span, mark } = this.site(sexp);
+    return (k) =>
+      evaluate(
+        ([func, ...args]) =>
+          `${mark}rt.invoke(${func}, [${args.join(", ")}], ${k}, ${span}, ${tail})`,
+      );
+  }
+
+  // Evaluates sexps left to right, then builds code from JS expressions for
+  // their values.  Values that are computed before a later operand's
+  // continuation are bound to names; the rest are used inline.
+  private genOperands(
+    sexps: SchemeType[],
+    scope: Scope,
+  ): (build: (values: string[]) => string) => string {
+    const directs = sexps.map((s) => this.direct(s, scope));
+    const gens = sexps.map((s, i) =>
+      directs[i] === null ? this.gen(s, scope, false) : null,
+    );
+    const lastGen = directs.lastIndexOf(null);
+    return (build) => {
+      const values = sexps.map((s, i) =>
+        i > lastGen ? (directs[i] as string) : this.unit.fresh("v"),
+      );
+      let code = build(values);
+      for (let i = lastGen; i >= 0; i--) {
+        const gen = gens[i];
+        code =
+          gen === null
+            ? `((${values[i]}) => ${code})(${directs[i]})`
+            : gen(`(${values[i]}) => ${code}`);
+      }
+      return code;
+    };
+  }
+
+  // Assumes sexp is of the form ((arg1 arg2 ...) body).  Returns the JS
+  // expression creating the closure.
+  private lambda(sexp: SCons, scope: Scope): string {
+    const bodyScope = new Scope(scope, true);
+    const [params, restParam] = this.bindLambdaArgs(sexp.car, bodyScope);
+    // The last expression in the body is in tail position
+    const body = this.genBody(sexp.cdr as SCons, bodyScope, true)("k");
+    return (
+      `new rt.SchemeClosure(${JSON.stringify(params)}, ${JSON.stringify(restParam)}, ` +
+      `${bodyScope.size}, (f, k) => ${body}, f)`
+    );
+  }
+
+  //
+  // Control
+  //
+
+  // sexp is of the form (expr1 expr2 ...).  `or` stops at the first true
+  // value, `and` at the first #f.
+  private genJunction(
+    sexp: SchemeType,
+    scope: Scope,
+    tail: boolean,
+    isOr: boolean,
+  ): Gen {
+    if (sexp === null) return (k) => `rt.resume(${k}, ${!isOr})`;
+    const formsList = [...(sexp as SCons)];
+    // All but last are not in tail position, last one is
+    const forms = formsList.map((s, i) =>
+      this.gen(s, scope, tail && i === formsList.length - 1),
+    );
+    return (k) =>
+      this.withK(k, (k) =>
+        forms.slice(0, -1).reduceRight((rest, form) => {
+          const v = this.unit.fresh("v");
+          return form(
+            isOr
+              ? `(${v}) => ${v} !== false ? rt.resume(${k}, ${v}) : ${rest}`
+              : `(${v}) => ${v} === false ? rt.resume(${k}, false) : ${rest}`,
+          );
+        }, forms[forms.length - 1](k)),
+      );
+  }
+
+  private genIf(sexp: SCons, scope: Scope, tail: boolean): Gen {
+    const conditionDirect = this.direct(sexp.car, scope);
+    const condition =
+      conditionDirect === null ? this.gen(sexp.car, scope, false) : null;
+    const consequent = this.gen(safeCar(sexp.cdr), scope, tail);
+    const altSexp = safeCdr(sexp.cdr);
+    const alternative: Gen =
+      altSexp !== null
+        ? this.genSequence(altSexp as SCons, scope, tail)
+        : (k) => `rt.resume(${k}, false)`;
+    return (k) =>
+      this.withK(k, (k) => {
+        if (condition === null) {
+          return `(${conditionDirect} !== false ? ${consequent(k)} : ${alternative(k)})`;
+        }
+        const v = this.unit.fresh("v");
+        return condition(
+          `(${v}) => ${v} !== false ? ${consequent(k)} : ${alternative(k)}`,
+        );
+      });
+  }
+
+  // sexp is ((var clause...) body...)
+  private genGuard(sexp: SchemeType, scope: Scope, tail: boolean): Gen {
+    const spec = safeCar(sexp);
+    if (!(spec instanceof SCons) || !(spec.car instanceof SchemeId)) {
+      throw new Error("guard: Expected (guard (var clause...) body...).");
+    }
+    const clauseScope = new Scope(scope, true);
+    // The condition is in slot 0 of the clauses' frame
+    this.bindVariable(spec.car, clauseScope);
+    // The body isn't in tail position: the guard stays installed around it
+    const body = this.genBody(safeCdr(sexp) as SCons, scope, false);
+    // With no matching clause, re-raise to the handlers outside the guard
+    const clauses = this.genCondClauses(
+      "guard",
+      spec.cdr,
+      clauseScope,
+      tail,
+      (k) => `rt.raise(f.slots[0], true, ${k})`,
+    );
+    const frameSize = clauseScope.size;
+    return (k) => {
+      const bodyK = this.unit.fresh("k");
+      const clauseK = this.unit.fresh("k");
+      const condition = this.unit.fresh("v");
+      return (
+        `rt.guard((${bodyK}) => ${body(bodyK)}, ` +
+        `(${condition}, ${clauseK}) => ((f) => ${clauses(clauseK)})` +
+        `(rt.enter(f, ${frameSize}, [${condition}])), ${k})`
+      );
+    };
+  }
+
+  // Clauses of the form (test expr...), (test => receiver), (test) or
+  // (else expr...), tried in order.  fallback runs if none match.  form
+  // names the cond or guard form the clauses are in, for errors.
+  private genCondClauses(
+    form: string,
+    clauses: SchemeType,
+    scope: Scope,
+    tail: boolean,
+    fallback: Gen,
+  ): Gen {
+    if (clauses === null) return fallback;
+    const clause = safeCar(clauses);
+    if (!(clause instanceof SCons)) {
+      throw new Error(`${form}: Malformed clause: ${sexpToStr(clause)}`);
+    }
+    if (carIsId(clause, "else")) {
+      if (safeCdr(clauses) !== null) {
+        throw new Error(`${form}: else clause must be last.`);
+      } else if (clause.cdr === null) {
+        throw new Error(`${form}: Malformed clause: ${sexpToStr(clause)}`);
+      }
+      return this.genSequence(clause.cdr as SCons, scope, tail);
+    }
+    const rest = this.genCondClauses(
+      form,
+      safeCdr(clauses),
+      scope,
+      tail,
+      fallback,
+    );
+    const test = this.gen(clause.car, scope, false);
+    if (clause.cdr === null) {
+      return (k) =>
+        this.withK(k, (k) => {
+          const v = this.unit.fresh("v");
+          return test(`(${v}) => ${v} !== false ? rt.resume(${k}, ${v}) : ${rest(k)}`);
+        });
+    }
+    if (carIsId(clause.cdr, "=>")) {
+      const receiverSexp = safeCdr(clause.cdr);
+      if (!(receiverSexp instanceof SCons) || receiverSexp.cdr !== null) {
+        throw new Error(
+          `${form}: => must be followed by exactly one expression.`,
+        );
+      }
+      const receiver = this.gen(receiverSexp.car, scope, false);
+      const { span, mark } = this.site(clause);
+      return (k) =>
+        this.withK(k, (k) => {
+          const v = this.unit.fresh("v");
+          const func = this.unit.fresh("v");
+          const call = receiver(
+            `(${func}) => ${mark}rt.invoke(${func}, [${v}], ${k}, ${span}, ${tail})`,
+          );
+          return test(`(${v}) => ${v} === false ? ${rest(k)} : ${call}`);
+        });
+    }
+    const body = this.genSequence(clause.cdr as SCons, scope, tail);
+    return (k) =>
+      this.withK(k, (k) => {
+        const v = this.unit.fresh("v");
+        return test(`(${v}) => ${v} !== false ? ${body(k)} : ${rest(k)}`);
+      });
+  }
+
+  // sexp is (test expr...).  when runs the exprs if test is true, unless
+  // if it is #f.  Otherwise the value is #f.
+  private genWhen(
+    sexp: SchemeType,
+    form: string,
+    scope: Scope,
+    tail: boolean,
+  ): Gen {
+    if (!(sexp instanceof SCons) || !(sexp.cdr instanceof SCons)) {
+      throw new Error(`${form}: Expected (${form} test expr...).`);
+    }
+    const test = this.gen(sexp.car, scope, false);
+    const body = this.genSequence(sexp.cdr, scope, tail);
+    const runOn = form === "when";
+    return (k) =>
+      this.withK(k, (k) => {
+        const v = this.unit.fresh("v");
+        return test(
+          `(${v}) => (${v} !== false) === ${runOn} ? ${body(k)} : rt.resume(${k}, false)`,
+        );
+      });
+  }
+
+  // sexp is (key clause...).  The first clause with a datum eqv? to the
+  // key runs; with no match the value is #f.
+  private genCase(sexp: SchemeType, scope: Scope, tail: boolean): Gen {
+    const clauses = this.caseClauses(sexp);
+    const key = this.gen(safeCar(sexp), scope, false);
+    const list = (items: SchemeType[]) =>
+      items.reduceRight<SchemeType>((rest, item) => new SCons(item, rest), null);
+    const data = clauses.flatMap(({ data }) => (data === null ? [] : [list(data)]));
+    const table = data.length > 0 ? this.constant(list(data)) : "null";
+    const bodies = clauses.map(({ body, receiver, span }): ((v: string) => Gen) => {
+      if (!receiver) {
+        const sequence = this.genSequence(body, scope, tail);
+        return () => sequence;
+      }
+      const receiverGen = this.gen(body.car, scope, false);
+      const site = this.spanSite(span);
+      return (v) => (k) => {
+        const func = this.unit.fresh("v");
+        return receiverGen(
+          `(${func}) => ${site.mark}rt.invoke(${func}, [${v}], ${k}, ${site.span}, ${tail})`,
+        );
+      };
+    });
+    return (k) =>
+      this.withK(k, (k) => {
+        const v = this.unit.fresh("v");
+        const index = this.unit.fresh("v");
+        const otherwise = clauses.findIndex(({ data }) => data === null);
+        let code =
+          otherwise >= 0 ? bodies[otherwise](v)(k) : `rt.resume(${k}, false)`;
+        for (let i = clauses.length - 1, n = data.length - 1; i >= 0; i--) {
+          if (clauses[i].data === null) continue;
+          code = `${index} === ${n--} ? ${bodies[i](v)(k)} : ${code}`;
+        }
+        return key(`(${v}) => ((${index}) => ${code})(rt.caseClause(${v}, ${table}))`);
+      });
+  }
+
+  // Each iteration runs in a fresh frame, so closures made in one see that
+  // iteration's bindings.  The steps are evaluated in the old frame.
+  private genDo(sexp: SchemeType, scope: Scope, tail: boolean): Gen {
+    const doForm = this.doForm(sexp);
+    const inits = this.genOperands(doForm.inits, scope);
+    const loopScope = new Scope(scope, true);
+    for (const id of doForm.ids) this.bindVariable(id, loopScope);
+    const test = this.gen(doForm.test, loopScope, false);
+    const results: Gen =
+      doForm.results !== null
+        ? this.genSequence(doForm.results, loopScope, tail)
+        : (k) => `rt.resume(${k}, false)`;
+    const commands = doForm.commands.map((command) =>
+      this.gen(command, loopScope, false),
+    );
+    const steps = this.genOperands(doForm.steps, loopScope);
+    const frameSize = loopScope.size;
+    return (k) =>
+      this.withK(k, (k) => {
+        const loop = this.unit.fresh("loop");
+        const v = this.unit.fresh("v");
+        const next = commands.reduceRight(
+          (rest, command) => command(`() => ${rest}`),
+          steps(
+            (values) =>
+              `${loop}(rt.enter(f.parent, ${frameSize}, [${values.join(", ")}]))`,
+          ),
+        );
+        const body = test(`(${v}) => ${v} !== false ? ${results(k)} : ${next}`);
+        return inits(
+          (values) =>
+            `(function ${loop}(f) { return ${body}; })` +
+            `(rt.enter(f, ${frameSize}, [${values.join(", ")}]))`,
+        );
+      });
+  }
+
+  //
+  // Local bindings
+  //
+  // Each let gets a frame of its own, which shadows f in the body.  k is
+  // bound to a name first, since continuation code refers to the outer f.
+  // let* nests one frame per binding.
+  //
+  private genLetForm(
+    sexp: SCons,
+    form: string,
+    scope: Scope,
+    tail: boolean,
+  ): Gen {
+    const letForm = this.letForm(sexp.cdr, form);
+    const { ids, inits, body } = letForm;
+    if (letForm.name !== null) {
+      return this.genNamedLet(letForm, sexp, scope, tail);
+    } else if (form === "letrec" || form === "letrec*") {
+      return this.genLetrec(letForm, scope, tail);
+    } else if (form === "let*") {
+      const nest = (i: number, scope: Scope): Gen =>
+        this.genLet(ids.slice(i, i + 1), inits.slice(i, i + 1), scope, (s) =>
+          i + 1 < ids.length ? nest(i + 1, s) : this.genBody(body, s, tail),
+        );
+      return nest(0, scope);
+    }
+    return this.genLet(ids, inits, scope, (s) => this.genBody(body, s, tail));
+  }
+
+  // Evaluates inits in scope, then runs the body made by `genBody` in a new
+  // frame with ids bound to their values
+  private genLet(
+    ids: SchemeId[],
+    inits: SchemeType[],
+    scope: Scope,
+    genBody: (scope: Scope) => Gen,
+  ): Gen {
+    const evaluate = this.genOperands(inits, scope);
+    const letScope = new Scope(scope, true);
+    for (const id of ids) this.bindVariable(id, letScope);
+    const body = genBody(letScope);
+    const frameSize = letScope.size;
+    return (k) =>
+      this.withK(k, (k) =>
+        evaluate(
+          (values) =>
+            `((f) => ${body(k)})(rt.enter(f, ${frameSize}, [${values.join(", ")}]))`,
+        ),
+      );
+  }
+
+  // The bindings are unassigned until their inits run, in order, in the
+  // scope of all of them (letrec* semantics, for letrec too)
+  private genLetrec(letForm: LetForm, scope: Scope, tail: boolean): Gen {
+    const letScope = new Scope(scope, true);
+    // The bindings take the first slots
+    for (const id of letForm.ids) this.bindVariable(id, letScope);
+    const stores = letForm.inits.map((init, index): Gen => {
+      const value = this.gen(init, letScope, false);
+      const name = JSON.stringify(letForm.ids[index].id);
+      return (k) => {
+        const v = this.unit.fresh("v");
+        return value(
+          `(${v}) => (rt.define(f, ${index}, "", ${name}, ${v}), rt.resume(${k}, ${v}))`,
+        );
+      };
+    });
+    const body = this.genBody(letForm.body, letScope, tail);
+    const frameSize = letScope.size;
+    return (k) =>
+      this.withK(k, (k) => {
+        const code = stores.reduceRight(
+          (rest, store) => store(`() => ${rest}`),
+          body(k),
+        );
+        return `((f) => ${code})(rt.enter(f, ${frameSize}, []))`;
+      });
+  }
+
+  // (let name ((id init)...) body...) calls a procedure bound to name in
+  // the body only.  The procedure's frame is also where the inits are
+  // evaluated, without name in scope.
+  private genNamedLet(
+    letForm: LetForm,
+    sexp: SCons,
+    scope: Scope,
+    tail: boolean,
+  ): Gen {
+    const name = letForm.name as SchemeId;
+    const loopScope = new Scope(scope, true);
+    const evaluate = this.genOperands(letForm.inits, loopScope);
+    const nameScope = new Scope(loopScope, false);
+    const { index } = this.bindVariable(name, nameScope) as { index: number };
+    const params = letForm.ids.reduceRight<SchemeType>(
+      (rest, id) => new SCons(id, rest),
+      null,
+    );
+    const lambda = this.lambda(new SCons(params, letForm.body), nameScope);
+    const { span, mark } = this.site(sexp);
+    const frameSize = loopScope.size;
+    return (k) =>
+      this.withK(k, (k) => {
+        const call = evaluate(
+          (args) =>
+            `${mark}rt.invoke(f.slots[${index}], [${args.join(", ")}], ${k}, ${span}, ${tail})`,
+        );
+        return (
+          `((f) => (rt.define(f, ${index}, "", ${JSON.stringify(name.id)}, ${lambda}), ${call}))` +
+          `(rt.enter(f, ${frameSize}, []))`
+        );
+      });
+  }
+
+  //
+  // Quasiquote
+  //
+  private genQuasiquote(sexp: SchemeType, scope: Scope): Gen {
+    const unquoted: SchemeType[] = [];
+    const build = this.quasiquoteTemplate(sexp, unquoted);
+    const evaluate = this.genOperands(unquoted, scope);
+    return (k) => evaluate((values) => `rt.resume(${k}, ${build(values)})`);
+  }
+
+  // Returns a function that builds JS source for the quasiquoted
+  // structure, given JS expressions for the values of the unquoted
+  // expressions, which are appended to `unquoted`
+  private quasiquoteTemplate(
+    sexp: SchemeType,
+    unquoted: SchemeType[],
+  ): (values: string[]) => string {
+    // Vectors are built like the list of their items
+    if (sexp instanceof SchemeVector) {
+      const build = this.quasiquoteTemplate(arrayToList(sexp.items), unquoted);
+      return (values) => `rt.listToVector(${build(values)})`;
+    }
+
+    // Atoms are returned as-is (like quote)
+    if (!(sexp instanceof SCons)) {
+      const datum = this.constant(stripSyntax(sexp));
+      return () => datum;
+    }
+
+    // (unquote expr) - evaluate expr
+    if (carIsId(sexp, "unquote")) {
+      const index = unquoted.push(safeCar(sexp.cdr)) - 1;
+      return (values) => values[index];
+    }
+
+    // (unquote-splicing expr) at top level is an error
+    if (carIsId(sexp, "unquote-splicing")) {
+      throw new Error("unquote-splicing: not valid at top level of quasiquote");
+    }
+
+    // It's a list - process each element, handling unquote-splicing
+    const elements: Array<{
+      isSplice: boolean;
+      build: (values: string[]) => string;
+    }> = [];
+
+    let current: SchemeType = sexp;
+    while (current instanceof SCons) {
+      const elem = current.car;
+      if (carIsId(elem, "unquote-splicing")) {
+        const index = unquoted.push(safeCar((elem as SCons).cdr)) - 1;
+        elements.push({ isSplice: true, build: (values) => values[index] });
+      } else {
+        elements.push({
+          isSplice: false,
+          build: this.quasiquoteTemplate(elem, unquoted),
+        });
+      }
+      current = current.cdr;
+    }
+
+    // Handle improper lists (dotted pairs)
+    const tailBuild =
+      current !== null ? this.quasiquoteTemplate(current, unquoted) : null;
+
+    return (values) => {
+      // Built right to left, with spliced lists copied in front of the rest
+      let result = tailBuild ? tailBuild(values) : "null";
+      for (let i = elements.length - 1; i >= 0; i--) {
+        const { isSplice, build } = elements[i];
+        result = isSplice
+          ? `rt.splice(${build(values)}, ${result})`
+          : `new rt.SCons(${build(values)}, ${result})`;
+      }
+      return result;
+    };
+  }
+
+  //
+  // Bodies
+  //
+
+  // A lambda, let, guard or let-syntax body
+  private genBody(sexp: SCons, scope: Scope, tail: boolean): Gen {
+    this.bindBodyDefinitions(sexp, scope);
+    return this.genSequence(sexp, scope, tail);
+  }
+
+  private genSequence(sexp: SCons, scope: Scope, tail: boolean): Gen {
+    const bodySexps = [...sexp];
+    // All but last expression are not in tail position
+    const forms = bodySexps.map((expr, i) =>
+      this.gen(expr, scope, tail && i === bodySexps.length - 1),
+    );
+    return (k) =>
+      forms
+        .slice(0, -1)
+        .reduceRight((rest, form) => form(`() => ${rest}`), forms[forms.length - 1](k));
+  }
+}
@@ -1,5 +1,7 @@
 import assert from "assert";
 import { TokenType, Token, InputStream, Lexer } from "./lexer";
+import { formatError } from "./source";
+import { SchemeFlonum, SchemeRational } from "./numbers";
 
 // Test utilities
 async function tokenize(input: string): Promise<Token[]> {
@@ -24,7 +26,8 @@ function assertTokenEquals(
 ): void {
   assert.strictEqual(actual.type, expected.type, message);
   if ("value" in expected) {
-    assert.strictEqual(
+    // Flonums are objects
+    assert.deepStrictEqual(
       (actual as { value: unknown }).value,
       expected.value,
       message,
@@ -69,13 +72,19 @@ async function runTests(): Promise<void> {
   await test("decimal number", async () => {
     const tokens = await tokenize("3.14");
     assert.strictEqual(tokens.length, 2);
-    assertTokenEquals(tokens[0], { type: TokenType.Number, value: 3.14 });
+    assertTokenEquals(tokens[0], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(3.14),
+    });
   });
 
   await test("number starting with decimal point", async () => {
     const tokens = await tokenize(".5");
     assert.strictEqual(tokens.length, 2);
-    assertTokenEquals(tokens[0], { type: TokenType.Number, value: 0.5 });
+    assertTokenEquals(tokens[0], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(0.5),
+    });
   });
 
   await test("multiple numbers", async () => {
@@ -89,7 +98,10 @@ async function runTests(): Promise<void> {
   await test("number with trailing decimal", async () => {
     const tokens = await tokenize("5.");
     assert.strictEqual(tokens.length, 2);
-    assertTokenEquals(tokens[0], { type: TokenType.Number, value: 5 });
+    assertTokenEquals(tokens[0], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(5),
+    });
   });
 
   await test("zero", async () => {
@@ -107,7 +119,111 @@ async function runTests(): Promise<void> {
   await test("small decimal", async () => {
     const tokens = await tokenize("0.001");
     assert.strictEqual(tokens.length, 2);
-    assertTokenEquals(tokens[0], { type: TokenType.Number, value: 0.001 });
+    assertTokenEquals(tokens[0], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(0.001),
+    });
+  });
+
+  await test("signed numbers", async () => {
+    const tokens = await tokenize("-5 +7 -.5");
+    assertTokenEquals(tokens[0], { type: TokenType.Number, value: -5 });
+    assertTokenEquals(tokens[1], { type: TokenType.Number, value: 7 });
+    assertTokenEquals(tokens[2], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(-0.5),
+    });
+  });
+
+  await test("exponents", async () => {
+    const tokens = await tokenize("1e10 2.5E-3");
+    assertTokenEquals(tokens[0], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(1e10),
+    });
+    assertTokenEquals(tokens[1], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(0.0025),
+    });
+  });
+
+  await test("rationals", async () => {
+    const tokens = await tokenize("1/3 -6/4 4/2");
+    assertTokenEquals(tokens[0], {
+      type: TokenType.Number,
+      value: new SchemeRational(1n, 3n),
+    });
+    assertTokenEquals(tokens[1], {
+      type: TokenType.Number,
+      value: new SchemeRational(-3n, 2n),
+    });
+    assertTokenEquals(tokens[2], { type: TokenType.Number, value: 2 });
+  });
+
+  await test("big integers", async () => {
+    const tokens = await tokenize("123456789012345678901234567890");
+    assertTokenEquals(tokens[0], {
+      type: TokenType.Number,
+      value: 123456789012345678901234567890n,
+    });
+  });
+
+  await test("radix prefixes", async () => {
+    const tokens = await tokenize("#x1F #o17 #b1010 #d99 #X-ff");
+    assertTokenEquals(tokens[0], { type: TokenType.Number, value: 31 });
+    assertTokenEquals(tokens[1], { type: TokenType.Number, value: 15 });
+    assertTokenEquals(tokens[2], { type: TokenType.Number, value: 10 });
+    assertTokenEquals(tokens[3], { type: TokenType.Number, value: 99 });
+    assertTokenEquals(tokens[4], { type: TokenType.Number, value: -255 });
+  });
+
+  await test("exactness prefixes", async () => {
+    const tokens = await tokenize("#e1.5 #e0.1 #i3 #x#i10 #e1e3");
+    assertTokenEquals(tokens[0], {
+      type: TokenType.Number,
+      value: new SchemeRational(3n, 2n),
+    });
+    assertTokenEquals(tokens[1], {
+      type: TokenType.Number,
+      value: new SchemeRational(1n, 10n),
+    });
+    assertTokenEquals(tokens[2], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(3),
+    });
+    assertTokenEquals(tokens[3], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(16),
+    });
+    assertTokenEquals(tokens[4], { type: TokenType.Number, value: 1000 });
+  });
+
+  await test("infinities and NaN", async () => {
+    const tokens = await tokenize("+inf.0 -inf.0 +nan.0");
+    assertTokenEquals(tokens[0], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(Infinity),
+    });
+    assertTokenEquals(tokens[1], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(-Infinity),
+    });
+    assertTokenEquals(tokens[2], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(NaN),
+    });
+  });
+
+  await test("signs alone are identifiers", async () => {
+    const tokens = await tokenize("- + ->string -x +inf");
+    assertTokenEquals(tokens[0], { type: TokenType.Identifier, value: "-" });
+    assertTokenEquals(tokens[1], { type: TokenType.Identifier, value: "+" });
+    assertTokenEquals(tokens[2], {
+      type: TokenType.Identifier,
+      value: "->string",
+    });
+    assertTokenEquals(tokens[3], { type: TokenType.Identifier, value: "-x" });
+    assertTokenEquals(tokens[4], { type: TokenType.Identifier, value: "+inf" });
   });
 
   // --- Identifier Tests ---
@@ -265,7 +381,69 @@ async function runTests(): Promise<void> {
   await test("dot followed by digit is number", async () => {
     const tokens = await tokenize(".123");
     assert.strictEqual(tokens.length, 2);
-    assertTokenEquals(tokens[0], { type: TokenType.Number, value: 0.123 });
+    assertTokenEquals(tokens[0], {
+      type: TokenType.Number,
+      value: new SchemeFlonum(0.123),
+    });
+  });
+
+  await test("ellipsis is an identifier", async () => {
+    const tokens = await tokenize("(x ...)");
+    assert.strictEqual(tokens.length, 5);
+    assertTokenEquals(tokens[2], { type: TokenType.Identifier, value: "..." });
+  });
+
+  await test("identifier containing dots", async () => {
+    const tokens = await tokenize("a.b");
+    assert.strictEqual(tokens.length, 2);
+    assertTokenEquals(tokens[0], { type: TokenType.Identifier, value: "a.b" });
+  });
+
+  // --- Character Tests ---
+
+  console.log("\n--- Characters ---");
+
+  await test("character literals", async () => {
+    const tokens = await tokenize("#\\a #\\Z #\\( #\\ #\\;");
+    assert.strictEqual(tokens.length, 6);
+    assertTokenEquals(tokens[0], { type: TokenType.Char, value: "a" });
+    assertTokenEquals(tokens[1], { type: TokenType.Char, value: "Z" });
+    assertTokenEquals(tokens[2], { type: TokenType.Char, value: "(" });
+    assertTokenEquals(tokens[3], { type: TokenType.Char, value: " " });
+    assertTokenEquals(tokens[4], { type: TokenType.Char, value: ";" });
+  });
+
+  await test("named characters", async () => {
+    const tokens = await tokenize("#\\space #\\newline #\\tab #\\null");
+    assertTokenEquals(tokens[0], { type: TokenType.Char, value: " " });
+    assertTokenEquals(tokens[1], { type: TokenType.Char, value: "\n" });
+    assertTokenEquals(tokens[2], { type: TokenType.Char, value: "\t" });
+    assertTokenEquals(tokens[3], { type: TokenType.Char, value: "\0" });
+  });
+
+  await test("hex characters", async () => {
+    const tokens = await tokenize("#\\x41 #\\x3bb #\\x");
+    assertTokenEquals(tokens[0], { type: TokenType.Char, value: "A" });
+    assertTokenEquals(tokens[1], { type: TokenType.Char, value: "\u03bb" });
+    assertTokenEquals(tokens[2], { type: TokenType.Char, value: "x" });
+  });
+
+  await test("hex characters must be Unicode scalar values", async () => {
+    for (const name of ["xD800", "xdfff", "x110000"]) {
+      await assert.rejects(
+        () => tokenize(`#\\${name}`),
+        new RegExp(`Expected a Unicode scalar value: #\\\\${name}`),
+      );
+    }
+    const tokens = await tokenize("#\\xD7FF #\\xE000");
+    assertTokenEquals(tokens[0], { type: TokenType.Char, value: "\uD7FF" });
+    assertTokenEquals(tokens[1], { type: TokenType.Char, value: "\uE000" });
+  });
+
+  await test("character followed by a delimiter", async () => {
+    const tokens = await tokenize("(#\\a)");
+    assertTokenEquals(tokens[1], { type: TokenType.Char, value: "a" });
+    assertTokenEquals(tokens[2], { type: TokenType.RightParen });
   });
 
   // --- Parentheses Tests ---
@@ -300,6 +478,21 @@ async function runTests(): Promise<void> {
     assertTokenEquals(tokens[3], { type: TokenType.RightParen });
   });
 
+  await test("vector start", async () => {
+    const tokens = await tokenize("#(1)");
+    assert.strictEqual(tokens.length, 4);
+    assertTokenEquals(tokens[0], { type: TokenType.VectorStart });
+    assertTokenEquals(tokens[1], { type: TokenType.Number, value: 1 });
+    assertTokenEquals(tokens[2], { type: TokenType.RightParen });
+  });
+
+  await test("bytevector start", async () => {
+    const tokens = await tokenize("#u8(255)");
+    assertTokenEquals(tokens[0], { type: TokenType.BytevectorStart });
+    assertTokenEquals(tokens[1], { type: TokenType.Number, value: 255 });
+    await assert.rejects(() => tokenize("#u7("), /Expected #u8\(/);
+  });
+
   // --- Whitespace Tests ---
 
   console.log("\n--- Whitespace ---");
@@ -499,6 +692,47 @@ async function runTests(): Promise<void> {
     lexer.close();
   });
 
+  // --- Source Location Tests ---
+
+  console.log("\n--- Source Locations ---");
+
+  await test("tokens carry line and column", async () => {
+    const tokens = await tokenize("(foo\n  42)");
+    const starts = tokens.map((t) => [t.span!.start.line, t.span!.start.column]);
+    assert.deepStrictEqual(starts, [
+      [1, 1],
+      [1, 2],
+      [2, 3],
+      [2, 5],
+      [2, 6],
+    ]);
+  });
+
+  await test("token span end is exclusive", async () => {
+    const tokens = await tokenize("  hello");
+    assert.strictEqual(tokens[0].span!.start.column, 3);
+    assert.strictEqual(tokens[0].span!.end.column, 8);
+  });
+
+  await test("tokens carry the input name", async () => {
+    const lexer = new Lexer(InputStream.fromString("x", "test.scm"));
+    const token = await lexer.next();
+    assert.strictEqual(token.span!.start.file.name, "test.scm");
+    lexer.close();
+  });
+
+  await test("lexer errors carry a location", async () => {
+    try {
+      await tokenize("(a\n @)");
+      assert.fail("Expected an error to be thrown");
+    } catch (error) {
+      assert.strictEqual(
+        formatError(error),
+        "<string>:2:2: Unexpected character: @\n   @)\n   ^",
+      );
+    }
+  });
+
   // --- Error Tests ---
 
   console.log("\n--- Error Handling ---");
@@ -523,6 +757,23 @@ async function runTests(): Promise<void> {
     }
   });
 
+  await test("unknown character name throws error", async () => {
+    await assert.rejects(
+      () => tokenize("#\\spaceship"),
+      /Unknown character name: #\\spaceship/,
+    );
+  });
+
+  await test("malformed numbers throw errors", async () => {
+    for (const input of ["12abc", "#xfg", "1/0", "#e+inf.0", "#x1.5"]) {
+      await assert.rejects(
+        () => tokenize(input),
+        /Invalid number/,
+        `for ${input}`,
+      );
+    }
+  });
+
   // --- Summary ---
 
   console.log("\n=== Summary ===");
@@ -1,12 +1,17 @@
 import { Readable } from "stream";
+import { SourceFile, SourceLocation, SourceSpan, annotate } from "./source";
+import { SchemeNumber, parseNumber } from "./numbers";
 
 // Token types
 export enum TokenType {
   Number = "Number",
   String = "String",
   Boolean = "Boolean",
+  Char = "Char",
   Identifier = "Identifier",
   LeftParen = "LeftParen",
+  VectorStart = "VectorStart",
+  BytevectorStart = "BytevectorStart",
   RightParen = "RightParen",
   Quote = "Quote",
   Quasiquote = "Quasiquote",
@@ -16,19 +21,36 @@ export enum TokenType {
   EOF = "EOF",
 }
 
-export type Token =
-  | { type: TokenType.Number; value: number }
+export type Token = (
+  | { type: TokenType.Number; value: SchemeNumber }
   | { type: TokenType.String; value: string }
   | { type: TokenType.Boolean; value: boolean }
+  | { type: TokenType.Char; value: string }
   | { type: TokenType.Identifier; value: string }
   | { type: TokenType.LeftParen }
+  | { type: TokenType.VectorStart }
+  | { type: TokenType.BytevectorStart }
   | { type: TokenType.RightParen }
   | { type: TokenType.Quote }
   | { type: TokenType.Quasiquote }
   | { type: TokenType.Unquote }
   | { type: TokenType.UnquoteSplicing }
   | { type: TokenType.Dot }
-  | { type: TokenType.EOF };
+  | { type: TokenType.EOF }
+) & { span?: SourceSpan };
+
+// Named characters, as in #\\space
+export const CHAR_NAMES: Record<string, string> = {
+  alarm: "\x07",
+  backspace: "\b",
+  delete: "\x7f",
+  escape: "\x1b",
+  newline: "\n",
+  null: "\0",
+  return: "\r",
+  space: " ",
+  tab: "\t",
+};
 
 // Character input stream that reads from any ReadableStream
 export class InputStream {
@@ -38,7 +60,10 @@ export class InputStream {
   private pendingResolve: ((value: string | null) => void) | null = null;
   private eof: boolean = false;
 
-  constructor(input: Readable = process.stdin) {
+  constructor(
+    input: Readable = process.stdin,
+    public readonly name: string = "<stdin>",
+  ) {
     this.input = input;
 
     input.setEncoding("utf8");
@@ -97,8 +122,8 @@ export class InputStream {
   }
 
   // Factory method to create an InputStream from a string
-  static fromString(str: string): InputStream {
-    return new InputStream(Readable.from(str));
+  static fromString(str: string, name: string = "<string>"): InputStream {
+    return new InputStream(Readable.from(str), name);
   }
 }
 
@@ -110,13 +135,33 @@ export class Lexer {
   private currentChar: string | null = null;
   private peekedToken: Token | null = null;
   private initialized: boolean = false;
+  private file: SourceFile;
+  // Position of currentChar
+  private line: number = 1;
+  private column: number = 1;
 
   constructor(input: InputStream) {
     this.input = input;
+    this.file = new SourceFile(input.name);
   }
 
   private async advance(): Promise<void> {
+    if (this.currentChar === "\n") {
+      this.line++;
+      this.column = 1;
+    } else if (this.currentChar !== null) {
+      this.column++;
+    }
     this.currentChar = await this.input.nextChar();
+    if (this.currentChar === "\n") {
+      this.file.lines.push("");
+    } else if (this.currentChar !== null) {
+      this.file.lines[this.file.lines.length - 1] += this.currentChar;
+    }
+  }
+
+  private location(): SourceLocation {
+    return { file: this.file, line: this.line, column: this.column };
   }
 
   private async ensureInitialized(): Promise<void> {
@@ -143,39 +188,53 @@ export class Lexer {
     }
   }
 
-  private async readNumber(prefix: string = ""): Promise<Token> {
-    let numStr = prefix;
-    let hasDecimal = prefix === ".";
-
-    while (this.currentChar !== null && /[0-9.]/.test(this.currentChar)) {
-      if (this.currentChar === ".") {
-        if (hasDecimal) {
-          // Second decimal point is an error
-          throw new Error(
-            `Invalid number: "${numStr}." - unexpected second decimal point`,
-          );
-        }
-        hasDecimal = true;
-      }
-      numStr += this.currentChar;
+  // Identifier characters: letters, digits, underscore, math operators
+  // (+, -, *, /), comparisons (<, >), equals (=), ?, ! and dots.  Numbers are
+  // written with the same characters.
+  private async readAtom(prefix: string): Promise<string> {
+    let atom = prefix;
+    while (
+      this.currentChar !== null &&
+      /[a-zA-Z0-9_+\-*/<>=?!.]/.test(this.currentChar)
+    ) {
+      atom += this.currentChar;
       await this.advance();
     }
-
-    return { type: TokenType.Number, value: parseFloat(numStr) };
+    return atom;
   }
 
-  private async readIdentifier(): Promise<Token> {
-    let identifier = "";
+  private async readNumber(prefix: string = ""): Promise<Token> {
+    const numStr = await this.readAtom(prefix);
+    const value = parseNumber(numStr);
+    if (value !== null) return { type: TokenType.Number, value };
+    if (/\..*\./.test(numStr)) {
+      throw new Error(
+        `Invalid number: "${numStr}" - unexpected second decimal point`,
+      );
+    }
+    throw new Error(`Invalid number: "${numStr}"`);
+  }
 
-    // Identifier can contain: letters, digits, underscore, math operators (+, -, *, /), comparisons (<, >), equals (=), and !
-    while (
-      this.currentChar !== null &&
-      /[a-zA-Z0-9_+\-*/<>=?!]/.test(this.currentChar)
-    ) {
-      identifier += this.currentChar;
+  // A radix or exactness prefix, like #x or #e#x, then the number
+  private async readPrefixedNumber(): Promise<Token> {
+    let prefix = "#";
+    while (this.currentChar !== null && /[xobdei]/i.test(this.currentChar)) {
+      prefix += this.currentChar;
+      await this.advance();
+      if (this.currentChar !== "#") break;
+      prefix += "#";
       await this.advance();
     }
+    return this.readNumber(prefix);
+  }
 
+  private async readIdentifier(prefix: string = ""): Promise<Token> {
+    const identifier = await this.readAtom(prefix);
+    // Signed numbers like -5 and +inf.0 start like identifiers
+    if (/^[+-]./.test(identifier)) {
+      const value = parseNumber(identifier);
+      if (value !== null) return { type: TokenType.Number, value };
+    }
     return { type: TokenType.Identifier, value: identifier };
   }
 
@@ -234,15 +293,66 @@ export class Lexer {
     return { type: TokenType.String, value: str };
   }
 
+  // After #\\: a character, a character name like space, or a hex code
+  // like x41
+  private async readChar(): Promise<Token> {
+    if (this.currentChar === null) {
+      throw new Error("Unexpected end of input in character literal");
+    }
+    let name: string = this.currentChar;
+    await this.advance();
+    if (/[\uD800-\uDBFF]/.test(name) && this.currentChar !== null) {
+      // The rest of a surrogate pair
+      name += this.currentChar;
+      await this.advance();
+    } else if (/[a-zA-Z]/.test(name)) {
+      while (
+        this.currentChar !== null &&
+        /[a-zA-Z0-9]/.test(this.currentChar)
+      ) {
+        name += this.currentChar;
+        await this.advance();
+      }
+    }
+    if ([...name].length === 1) return { type: TokenType.Char, value: name };
+
+    if (Object.hasOwn(CHAR_NAMES, name)) {
+      return { type: TokenType.Char, value: CHAR_NAMES[name] };
+    }
+    const code = /^x([0-9a-fA-F]+)$/.exec(name);
+    if (code !== null) {
+      // Surrogates aren't characters, as for integer->char
+      const point = parseInt(code[1], 16);
+      if (point > 0x10ffff || (point >= 0xd800 && point <= 0xdfff)) {
+        throw new Error(`Expected a Unicode scalar value: #\\${name}`);
+      }
+      return { type: TokenType.Char, value: String.fromCodePoint(point) };
+    }
+    throw new Error(`Unknown character name: #\\${name}`);
+  }
+
   private async readNextToken(): Promise<Token> {
     await this.ensureInitialized();
     await this.skipWhitespace();
 
+    const start = this.location();
+    let token: Token;
+    try {
+      token = await this.readToken();
+    } catch (error) {
+      throw annotate(error, { start, end: this.location() });
+    }
+    token.span = { start, end: this.location() };
+    return token;
+  }
+
+  private async readToken(): Promise<Token> {
     if (this.currentChar === null) {
       return { type: TokenType.EOF };
     }
 
-    // Numbers (start with digit only; dots handled separately)
+    // Numbers starting with a digit.  Signed numbers start like
+    // identifiers, and dots and # prefixes are handled separately.
     if (/[0-9]/.test(this.currentChar)) {
       return this.readNumber();
     }
@@ -266,6 +376,10 @@ export class Lexer {
         if (this.currentChar !== null && /[0-9]/.test(this.currentChar)) {
           return this.readNumber(".");
         }
+        // Identifiers starting with a dot, like the ellipsis ...
+        if (this.currentChar === ".") {
+          return this.readIdentifier(".");
+        }
         return { type: TokenType.Dot };
       case "'":
         return { type: TokenType.Quote };
@@ -286,6 +400,28 @@ export class Lexer {
         } else if (this.currentChar === "f") {
           await this.advance();
           return { type: TokenType.Boolean, value: false };
+        } else if (this.currentChar === "(") {
+          await this.advance();
+          return { type: TokenType.VectorStart };
+        } else if (this.currentChar === "u") {
+          await this.advance();
+          for (const expected of "8(") {
+            if (this.currentChar !== expected) {
+              throw new Error(
+                `Expected #u8( but got #u${this.currentChar ?? "end of input"}`,
+              );
+            }
+            await this.advance();
+          }
+          return { type: TokenType.BytevectorStart };
+        } else if (this.currentChar === "\\") {
+          await this.advance();
+          return this.readChar();
+        } else if (
+          this.currentChar !== null &&
+          /[xobdei]/i.test(this.currentChar)
+        ) {
+          return this.readPrefixedNumber();
         }
         throw new Error(`Unexpected character after #: ${this.currentChar}`);
       default:
@@ -8,7 +8,10 @@
 ;;  or
 ;;  define
 ;;  define-macro (most basic scheme macro support)
+;;  define-syntax / syntax-rules (hygienic macros)
 ;;  quote
+;;  begin, let (and named let), let*, letrec, letrec*
+;;  cond, case, when, unless, do
 ;;
 ;; Builtin functions:
 ;;  apply
@@ -20,22 +23,8 @@
 ;;  pair?
 ;;  set!
 ;;
-(define-macro (begin . body)
-  (cons 'if (cons #f (cons #f body))))
-
 (define (list . args) args)
 
-(define (cond-expand clauses)
-  (if (null? clauses) #f
-    (if (eq? (car (car clauses)) 'else)
-      (cons 'begin (cdr (car clauses)))
-      (cons 'if (cons (car (car clauses))
-        (cons (cons 'begin (cdr (car clauses)))
-          (cons (cond-expand (cdr clauses)) '())))))))
-
-(define-macro (cond . clauses)
-  (cond-expand clauses))
-
 (define not (lambda (x) (if x #f #t)))
 
 (define map
@@ -65,37 +54,6 @@
                  (apply map func (map1 cdr lists)))))
      (cons list1 more-lists))))
 
-(define (length lst)
-  (if (null? lst) 0
-      (+ 1 (length (cdr lst)))))
-
-(define (append l m)
-  (if (null? l) m
-      (cons (car l) (append (cdr l) m))))
-
-(define cadr
-  (lambda (p)
-    (car (cdr p))))
-
-;; Parallel-binding "let"
-(define-macro (let forms . body)
-    (cons (append (cons 'lambda (list (map car forms)))
-                  body)
-          (map cadr forms)))
-
-;; Sequential-binding "let*"
-(define-macro (let* forms . body)
-  (if (null? forms)
-      (cons 'begin body)
-      `(let (,(car forms))
-         (let* ,(cdr forms) ,@body))))
-
-;; Recursive-binding "letrec"
-(define-macro (letrec bindings . body)
-  `(let ,(map (lambda (b) (list (car b) #f)) bindings)
-     ,@(map (lambda (b) `(set! ,(car b) ,(cadr b))) bindings)
-     ,@body))
-
 ;;
 ;; Promises
 ;;
@@ -116,6 +74,7 @@
                          (set! result x)
                          result))))))))
 
-(define-macro (delay expr)
-  `(*make-promise* (lambda () ,expr)))
+(define-syntax delay
+  (syntax-rules ()
+    ((delay expr) (*make-promise* (lambda () expr)))))
 
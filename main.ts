@@ -2,13 +2,24 @@ import { createReadStream, existsSync } from "fs";
 import { resolve } from "path";
 import { TokenType, InputStream, Lexer } from "./lexer";
 import { SchemeParser } from "./parser";
-import { SchemeType, SchemeId, Frame } from "./types";
-import { SchemeAnalyzer, sexpToStr } from "./analyzer";
+import {
+  SchemeType,
+  SchemeId,
+  Frame,
+  errorBacktrace,
+  isString,
+  stringValue,
+} from "./types";
+import { SchemeExpander } from "./expander";
+import { SchemeAnalyzer } from "./analyzer";
+import { SchemeCompiler } from "./compiler";
+import { sexpToStr, formatBacktrace } from "./printer";
 import { initEnv } from "./builtins";
+import { formatError } from "./source";
 
 export async function repl(
   env: Frame,
-  analyzer: SchemeAnalyzer,
+  analyzer: SchemeExpander,
   input: InputStream,
   print: boolean = true
 ): Promise<void> {
@@ -17,20 +28,24 @@ export async function repl(
 
   try {
     while (true) {
-      const token = await lexer.peek();
-      if (token.type === TokenType.EOF) break;
+      try {
+        const token = await lexer.peek();
+        if (token.type === TokenType.EOF) break;
 
-      const parsed = await parser.parse();
-      const expanded = analyzer.expandMacros(parsed, env);
-      const analyzed = analyzer.analyzeSexp(expanded);
-      const result = analyzed(env);
-      const loadNext = env.lookup("*load-next*");
-      if (loadNext !== false) {
-        env.set("*load-next*", false);
-        loadSexp(loadNext, env, analyzer);
-      }
-      if (print) {
-        console.log(sexpToStr(result));
+        const parsed = await parser.parse();
+        const analyzed = analyzer.analyzeSexp(parsed, env);
+        const result = analyzed(env);
+        const loadNext = env.lookup("*load-next*");
+        if (loadNext !== false) {
+          env.set("*load-next*", false);
+          loadSexp(loadNext, env, analyzer);
+        }
+        if (print) {
+          console.log(sexpToStr(result));
+        }
+      } catch (error) {
+        // Report the error and carry on with the next expression
+        reportError(error);
       }
     }
   } finally {
@@ -38,25 +53,33 @@ export async function repl(
   }
 }
 
-async function loadSexp(path: SchemeType, env: Frame, analyzer: SchemeAnalyzer): Promise<void> {
+function reportError(error: unknown): void {
+  console.error(formatError(error));
+  const backtrace = errorBacktrace(error);
+  if (backtrace !== null) {
+    console.error(formatBacktrace(backtrace));
+  }
+}
+
+async function loadSexp(path: SchemeType, env: Frame, analyzer: SchemeExpander): Promise<void> {
   let pathStr: string;
   if (path instanceof SchemeId) {
     pathStr = path.id + ".scm";
-  } else if (typeof(path) === "string") {
-    pathStr = path
+  } else if (isString(path)) {
+    pathStr = stringValue(path)
   } else {
     throw new Error("Incorrect type for path: " + sexpToStr(path));
   }
   return await load(resolve(__dirname, pathStr), env, analyzer);
 }
 
-async function load(libPath: string, env: Frame, analyzer: SchemeAnalyzer): Promise<void> {
+async function load(libPath: string, env: Frame, analyzer: SchemeExpander): Promise<void> {
   console.log("loading ", libPath);
   if (existsSync(libPath)) {
     await repl(
       env,
       analyzer,
-      new InputStream(createReadStream(libPath)),
+      new InputStream(createReadStream(libPath), libPath),
       false  // suppress printing
     );
   } else {
@@ -66,13 +89,16 @@ async function load(libPath: string, env: Frame, analyzer: SchemeAnalyzer): Prom
 
 async function main(): Promise<void> {
   const env = initEnv();
-  const analyzer = new SchemeAnalyzer();
+  // --vm runs code on the bytecode VM instead of the closure analyzer
+  const analyzer = process.argv.includes("--vm")
+    ? new SchemeCompiler()
+    : new SchemeAnalyzer();
 
   try {
     await load(resolve(__dirname, "lib.scm"), env, analyzer);
     await repl(env, analyzer, new InputStream(process.stdin));
   } catch (error) {
-    console.error(error instanceof Error ? error.stack : error);
+    console.error(formatError(error));
   }
 }
 
@@ -0,0 +1,485 @@
+//
+// Numeric tower
+//
+// Exact integers are JS numbers while they are safe integers, and bigints
+// beyond that.  Other exact numbers are SchemeRationals in lowest terms, and
+// inexact numbers are SchemeFlonums.  Every operation normalizes its result,
+// so each number has exactly one representation.
+//
+
+export class SchemeRational {
+  // In lowest terms, with den > 1
+  constructor(
+    public readonly num: bigint,
+    public readonly den: bigint,
+  ) {}
+}
+
+export class SchemeFlonum {
+  constructor(public readonly value: number) {}
+}
+
+export type SchemeNumber = number | bigint | SchemeRational | SchemeFlonum;
+
+export function isNumber(x: unknown): x is SchemeNumber {
+  return (
+    typeof x === "number" ||
+    typeof x === "bigint" ||
+    x instanceof SchemeRational ||
+    x instanceof SchemeFlonum
+  );
+}
+
+export function isExact(x: SchemeNumber): boolean {
+  return !(x instanceof SchemeFlonum);
+}
+
+export function isExactInteger(x: unknown): x is number | bigint {
+  return typeof x === "number" || typeof x === "bigint";
+}
+
+// Exact integers, and inexact ones like 2.0
+export function isInteger(x: SchemeNumber): boolean {
+  return x instanceof SchemeFlonum
+    ? Number.isInteger(x.value)
+    : isExactInteger(x);
+}
+
+export function isZero(x: SchemeNumber): boolean {
+  return x === 0 || (x instanceof SchemeFlonum && x.value === 0);
+}
+
+const MIN_SAFE = BigInt(Number.MIN_SAFE_INTEGER);
+const MAX_SAFE = BigInt(Number.MAX_SAFE_INTEGER);
+
+// The exact integer n
+export function integer(n: bigint): number | bigint {
+  return n >= MIN_SAFE && n <= MAX_SAFE ? Number(n) : n;
+}
+
+function bigAbs(n: bigint): bigint {
+  return n < 0n ? -n : n;
+}
+
+function bigGcd(a: bigint, b: bigint): bigint {
+  a = bigAbs(a);
+  b = bigAbs(b);
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a;
+}
+
+// The exact number num/den
+export function rational(num: bigint, den: bigint): SchemeNumber {
+  if (den === 0n) throw new Error("Division by zero.");
+  if (den < 0n) {
+    num = -num;
+    den = -den;
+  }
+  const divisor = bigGcd(num, den);
+  if (divisor > 1n) {
+    num /= divisor;
+    den /= divisor;
+  }
+  return den === 1n ? integer(num) : new SchemeRational(num, den);
+}
+
+// Numerator and denominator of an exact number
+function parts(x: SchemeNumber): [bigint, bigint] {
+  if (x instanceof SchemeRational) return [x.num, x.den];
+  return [BigInt(x as number | bigint), 1n];
+}
+
+export function toFloat(x: SchemeNumber): number {
+  if (x instanceof SchemeFlonum) return x.value;
+  if (x instanceof SchemeRational) return Number(x.num) / Number(x.den);
+  return Number(x);
+}
+
+export function inexact(x: SchemeNumber): SchemeFlonum {
+  return x instanceof SchemeFlonum ? x : new SchemeFlonum(toFloat(x));
+}
+
+export function exact(x: SchemeNumber): SchemeNumber {
+  if (!(x instanceof SchemeFlonum)) return x;
+  let value = x.value;
+  if (!Number.isFinite(value)) {
+    throw new Error(`No exact representation for ${numberToString(x)}.`);
+  }
+  // Doubling a binary fraction is exact, and ends at an integer
+  let den = 1n;
+  while (!Number.isInteger(value)) {
+    value *= 2;
+    den *= 2n;
+  }
+  return rational(BigInt(value), den);
+}
+
+//
+// Arithmetic
+//
+
+interface Operation {
+  // On safe integers.  A result that isn't a safe integer is redone
+  // exactly.
+  fixnum: (a: number, b: number) => number;
+  flonum: (a: number, b: number) => number;
+  exact: (a: [bigint, bigint], b: [bigint, bigint]) => SchemeNumber;
+}
+
+function binary(op: Operation, a: SchemeNumber, b: SchemeNumber): SchemeNumber {
+  if (typeof a === "number" && typeof b === "number") {
+    const result = op.fixnum(a, b);
+    // No -0 for exact zero
+    if (Number.isSafeInteger(result)) return result === 0 ? 0 : result;
+  }
+  if (a instanceof SchemeFlonum || b instanceof SchemeFlonum) {
+    return new SchemeFlonum(op.flonum(toFloat(a), toFloat(b)));
+  }
+  return op.exact(parts(a), parts(b));
+}
+
+const ADD: Operation = {
+  fixnum: (a, b) => a + b,
+  flonum: (a, b) => a + b,
+  exact: ([an, ad], [bn, bd]) => rational(an * bd + bn * ad, ad * bd),
+};
+
+const SUBTRACT: Operation = {
+  fixnum: (a, b) => a - b,
+  flonum: (a, b) => a - b,
+  exact: ([an, ad], [bn, bd]) => rational(an * bd - bn * ad, ad * bd),
+};
+
+const MULTIPLY: Operation = {
+  fixnum: (a, b) => a * b,
+  flonum: (a, b) => a * b,
+  exact: ([an, ad], [bn, bd]) => rational(an * bn, ad * bd),
+};
+
+// Exact division by zero throws
+const DIVIDE: Operation = {
+  fixnum: (a, b) => a / b,
+  flonum: (a, b) => a / b,
+  exact: ([an, ad], [bn, bd]) => rational(an * bd, ad * bn),
+};
+
+export function add(a: SchemeNumber, b: SchemeNumber): SchemeNumber {
+  return binary(ADD, a, b);
+}
+
+export function subtract(a: SchemeNumber, b: SchemeNumber): SchemeNumber {
+  return binary(SUBTRACT, a, b);
+}
+
+export function multiply(a: SchemeNumber, b: SchemeNumber): SchemeNumber {
+  return binary(MULTIPLY, a, b);
+}
+
+export function divide(a: SchemeNumber, b: SchemeNumber): SchemeNumber {
+  return binary(DIVIDE, a, b);
+}
+
+// Negative, zero or positive as a is less than, equal to or greater than
+// b.  NaN if either is +nan.0.
+export function compare(a: SchemeNumber, b: SchemeNumber): number {
+  if (typeof a === "number" && typeof b === "number") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  if (a instanceof SchemeFlonum || b instanceof SchemeFlonum) {
+    const x = toFloat(a);
+    const y = toFloat(b);
+    // Compare exactly unless that can't change the answer
+    if (
+      Number.isNaN(x) ||
+      Number.isNaN(y) ||
+      !Number.isFinite(x) ||
+      !Number.isFinite(y)
+    ) {
+      return x < y ? -1 : x > y ? 1 : x === y ? 0 : NaN;
+    }
+    return compare(exact(a), exact(b));
+  }
+  const [an, ad] = parts(a);
+  const [bn, bd] = parts(b);
+  const difference = an * bd - bn * ad;
+  return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+}
+
+// eqv? on numbers: the same exactness and value
+export function numberEqv(a: SchemeNumber, b: SchemeNumber): boolean {
+  if (a instanceof SchemeFlonum || b instanceof SchemeFlonum) {
+    return (
+      a instanceof SchemeFlonum &&
+      b instanceof SchemeFlonum &&
+      Object.is(a.value, b.value)
+    );
+  }
+  return compare(a, b) === 0;
+}
+
+export function negate(x: SchemeNumber): SchemeNumber {
+  return x instanceof SchemeFlonum
+    ? new SchemeFlonum(-x.value)
+    : subtract(0, x);
+}
+
+export function abs(x: SchemeNumber): SchemeNumber {
+  if (x instanceof SchemeFlonum) return new SchemeFlonum(Math.abs(x.value));
+  return compare(x, 0) < 0 ? negate(x) : x;
+}
+
+// Integer square root of a non-negative bigint, rounded down
+function bigSqrt(n: bigint): bigint {
+  if (n < 2n) return n;
+  let x = BigInt(Math.floor(Math.sqrt(Number(n))));
+  // Newton's method from the float estimate
+  while (x * x > n) x = (x + n / x) / 2n;
+  while ((x + 1n) * (x + 1n) <= n) x++;
+  return x;
+}
+
+// Exact for exact squares of rationals, inexact otherwise
+export function sqrt(x: SchemeNumber): SchemeNumber {
+  if (isExact(x) && compare(x, 0) >= 0) {
+    const [num, den] = parts(x);
+    const numRoot = bigSqrt(num);
+    const denRoot = bigSqrt(den);
+    if (numRoot * numRoot === num && denRoot * denRoot === den) {
+      return rational(numRoot, denRoot);
+    }
+  }
+  return new SchemeFlonum(Math.sqrt(toFloat(x)));
+}
+
+// s and n - s^2 for the largest s with s^2 <= n, an exact non-negative
+// integer
+export function exactIntegerSqrt(
+  n: SchemeNumber,
+): [SchemeNumber, SchemeNumber] {
+  const x = BigInt(n as number | bigint);
+  const root = bigSqrt(x);
+  return [integer(root), integer(x - root * root)];
+}
+
+//
+// Rounding
+//
+
+function roundHalfEven(value: number): number {
+  const floor = Math.floor(value);
+  const difference = value - floor;
+  if (difference < 0.5) return floor;
+  if (difference > 0.5) return floor + 1;
+  return floor % 2 === 0 ? floor : floor + 1;
+}
+
+function bigFloorDiv(num: bigint, den: bigint): bigint {
+  const quotient = num / den;
+  return num % den !== 0n && num < 0n !== den < 0n ? quotient - 1n : quotient;
+}
+
+export type Rounding = "floor" | "ceiling" | "truncate" | "round";
+
+// Rounds to an integer of the same exactness.  round goes to even on ties.
+export function round(x: SchemeNumber, mode: Rounding): SchemeNumber {
+  if (x instanceof SchemeFlonum) {
+    const round = {
+      floor: Math.floor,
+      ceiling: Math.ceil,
+      truncate: Math.trunc,
+      round: roundHalfEven,
+    }[mode];
+    return new SchemeFlonum(round(x.value));
+  }
+  if (!(x instanceof SchemeRational)) return x;
+  const { num, den } = x;
+  const floor = bigFloorDiv(num, den);
+  switch (mode) {
+    case "floor":
+      return integer(floor);
+    case "ceiling":
+      return integer(floor + 1n);
+    case "truncate":
+      return integer(num < 0n ? floor + 1n : floor);
+    case "round": {
+      // Compare twice the fractional part with 1
+      const twice = 2n * (num - floor * den);
+      if (twice < den) return integer(floor);
+      if (twice > den) return integer(floor + 1n);
+      return integer(floor % 2n === 0n ? floor : floor + 1n);
+    }
+  }
+}
+
+//
+// Integer division
+//
+
+// quotient and remainder truncate, floor-quotient and modulo round down
+export type IntegerDivision =
+  | "quotient"
+  | "remainder"
+  | "floor-quotient"
+  | "modulo";
+
+// a and b are integers and b isn't zero.  The result is inexact if either
+// is.
+export function divideIntegers(
+  a: SchemeNumber,
+  b: SchemeNumber,
+  mode: IntegerDivision,
+): SchemeNumber {
+  if (a instanceof SchemeFlonum || b instanceof SchemeFlonum) {
+    const x = toFloat(a);
+    const y = toFloat(b);
+    const result = {
+      quotient: () => Math.trunc(x / y),
+      remainder: () => x % y,
+      "floor-quotient": () => Math.floor(x / y),
+      modulo: () => ((x % y) + y) % y,
+    }[mode]();
+    return new SchemeFlonum(result);
+  }
+  const x = BigInt(a as number | bigint);
+  const y = BigInt(b as number | bigint);
+  const result = {
+    quotient: () => x / y,
+    remainder: () => x % y,
+    "floor-quotient": () =>
+      x % y !== 0n && x < 0n !== y < 0n ? x / y - 1n : x / y,
+    modulo: () => ((x % y) + y) % y,
+  }[mode]();
+  return integer(result);
+}
+
+// gcd and lcm of integers.  The result is inexact if either is.
+export function gcd(a: SchemeNumber, b: SchemeNumber): SchemeNumber {
+  const result = integer(bigGcd(BigInt(toInteger(a)), BigInt(toInteger(b))));
+  return isExact(a) && isExact(b) ? result : inexact(result);
+}
+
+export function lcm(a: SchemeNumber, b: SchemeNumber): SchemeNumber {
+  const x = BigInt(toInteger(a));
+  const y = BigInt(toInteger(b));
+  const result =
+    x === 0n || y === 0n ? 0 : integer(bigAbs(x * y) / bigGcd(x, y));
+  return isExact(a) && isExact(b) ? result : inexact(result);
+}
+
+function toInteger(x: SchemeNumber): number | bigint {
+  return x instanceof SchemeFlonum ? x.value : (x as number | bigint);
+}
+
+export function numerator(x: SchemeNumber): SchemeNumber {
+  if (x instanceof SchemeFlonum) return inexact(numerator(exact(x)));
+  return integer(parts(x)[0]);
+}
+
+export function denominator(x: SchemeNumber): SchemeNumber {
+  if (x instanceof SchemeFlonum) return inexact(denominator(exact(x)));
+  return integer(parts(x)[1]);
+}
+
+//
+// Printing and reading
+//
+
+// Flonums are always written in radix 10
+export function numberToString(x: SchemeNumber, radix: number = 10): string {
+  if (x instanceof SchemeRational) {
+    return `${x.num.toString(radix)}/${x.den.toString(radix)}`;
+  }
+  if (!(x instanceof SchemeFlonum)) return x.toString(radix);
+  const value = x.value;
+  if (Number.isNaN(value)) return "+nan.0";
+  if (value === Infinity) return "+inf.0";
+  if (value === -Infinity) return "-inf.0";
+  if (Object.is(value, -0)) return "-0.0";
+  const text = String(value).replace("e+", "e");
+  // Inexact numbers always have a point or an exponent
+  return /[.e]/.test(text) ? text : text + ".0";
+}
+
+const RADIXES: Record<string, number> = { b: 2, o: 8, d: 10, x: 16 };
+
+const DIGITS: Record<number, string> = {
+  2: "[01]",
+  8: "[0-7]",
+  10: "[0-9]",
+  16: "[0-9a-f]",
+};
+
+const BIGINT_PREFIXES: Record<number, string> = {
+  2: "0b",
+  8: "0o",
+  10: "",
+  16: "0x",
+};
+
+// The number written as text in R7RS syntax: radix and exactness prefixes
+// (#x #o #b #d #e #i), a sign, then an integer, a rational, a decimal with
+// an optional exponent, or inf.0 or nan.0.  A radix prefix overrides
+// defaultRadix.  Returns null if text isn't a number.
+export function parseNumber(
+  text: string,
+  defaultRadix: number = 10,
+): SchemeNumber | null {
+  text = text.toLowerCase();
+  let radix: number | null = null;
+  let exactness: string | null = null;
+  while (text.startsWith("#")) {
+    const prefix = text[1];
+    if (prefix in RADIXES && radix === null) {
+      radix = RADIXES[prefix];
+    } else if ((prefix === "e" || prefix === "i") && exactness === null) {
+      exactness = prefix;
+    } else {
+      return null;
+    }
+    text = text.slice(2);
+  }
+  const value = parseReal(text, radix ?? defaultRadix, exactness === "e");
+  if (value === null || exactness !== "i") return value;
+  return inexact(value);
+}
+
+function parseReal(
+  text: string,
+  radix: number,
+  forceExact: boolean,
+): SchemeNumber | null {
+  const special = /^([+-])(inf|nan)\.0$/.exec(text);
+  if (special !== null) {
+    if (forceExact) return null;
+    const value = special[2] === "inf" ? Infinity : NaN;
+    return new SchemeFlonum(special[1] === "-" ? -value : value);
+  }
+
+  const negative = text.startsWith("-");
+  const unsigned = /^[+-]/.test(text) ? text.slice(1) : text;
+  const digits = DIGITS[radix];
+  const ratio = new RegExp(`^(${digits}+)(?:/(${digits}+))?$`).exec(unsigned);
+  if (ratio !== null) {
+    const prefix = BIGINT_PREFIXES[radix];
+    const num = BigInt(prefix + ratio[1]);
+    const den = ratio[2] === undefined ? 1n : BigInt(prefix + ratio[2]);
+    if (den === 0n) return null;
+    return rational(negative ? -num : num, den);
+  }
+
+  // Decimals only in radix 10, with a point, an exponent or both
+  const decimal = /^([0-9]*)(?:\.([0-9]*))?(?:e([+-]?[0-9]+))?$/.exec(unsigned);
+  if (radix !== 10 || decimal === null) return null;
+  const [, whole, fraction = "", exponent = "0"] = decimal;
+  if (whole === "" && fraction === "") return null;
+  if (!forceExact) return new SchemeFlonum(parseFloat(text));
+
+  // #e reads the digits exactly, so #e0.1 is 1/10
+  const mantissa = BigInt(whole + fraction);
+  const scale = BigInt(exponent) - BigInt(fraction.length);
+  const value =
+    scale >= 0n
+      ? integer(mantissa * 10n ** scale)
+      : rational(mantissa, 10n ** -scale);
+  return negative ? negate(value) : value;
+}
@@ -1,7 +1,15 @@
 import assert from "assert";
 import { InputStream, Lexer } from "./lexer";
 import { SchemeParser } from "./parser";
-import { SchemeId, SCons, SchemeType } from "./types";
+import {
+  SchemeId,
+  SchemeChar,
+  SCons,
+  SchemeType,
+  SchemeVector,
+} from "./types";
+import { spanOf } from "./source";
+import { SchemeFlonum } from "./numbers";
 
 // Test utilities
 async function parse(input: string): Promise<SchemeType> {
@@ -47,7 +55,12 @@ async function runTests(): Promise<void> {
 
   await test("parse decimal number", async () => {
     const result = await parse("3.14");
-    assert.strictEqual(result, 3.14);
+    assert.deepStrictEqual(result, new SchemeFlonum(3.14));
+  });
+
+  await test("parse character", async () => {
+    const result = await parse("#\\a");
+    assert.strictEqual(result, SchemeChar.of("a"));
   });
 
   await test("parse identifier", async () => {
@@ -185,6 +198,31 @@ async function runTests(): Promise<void> {
     assert.strictEqual(cons3.cdr, null);
   });
 
+  await test("parse vector", async () => {
+    const result = await parse("#(1 (2) #(x))");
+    assert.ok(result instanceof SchemeVector);
+    const [one, list, vector] = result.items;
+    assert.strictEqual(one, 1);
+    assert.ok(list instanceof SCons);
+    assert.ok(vector instanceof SchemeVector);
+    assert.strictEqual((vector.items[0] as SchemeId).id, "x");
+  });
+
+  await test("parse empty vector", async () => {
+    const result = await parse("#()");
+    assert.deepStrictEqual(result, new SchemeVector([]));
+  });
+
+  await test("parse bytevector", async () => {
+    const result = await parse("#u8(0 127 255)");
+    assert.deepStrictEqual(result, new Uint8Array([0, 127, 255]));
+  });
+
+  await test("bytevector elements must be bytes", async () => {
+    await assert.rejects(() => parse("#u8(1 256)"), /Expected a byte/);
+    await assert.rejects(() => parse("#u8(a)"), /Expected a byte/);
+  });
+
   // --- Quasiquote ---
 
   console.log("\n--- Quasiquote ---");
@@ -267,6 +305,37 @@ async function runTests(): Promise<void> {
     assert.strictEqual((unquoteExpr.car as SchemeId).id, "unquote");
   });
 
+  // --- Source Locations ---
+
+  console.log("\n--- Source Locations ---");
+
+  await test("list span covers the parentheses", async () => {
+    const result = await parse("  (a\n b)");
+    const span = spanOf(result)!;
+    assert.deepStrictEqual(
+      [span.start.line, span.start.column, span.end.line, span.end.column],
+      [1, 3, 2, 4],
+    );
+  });
+
+  await test("identifier span", async () => {
+    const result = (await parse("(a bcd)")) as SCons;
+    const span = spanOf((result.cdr as SCons).car)!;
+    assert.deepStrictEqual([span.start.column, span.end.column], [4, 7]);
+  });
+
+  await test("tail cons span starts at its car", async () => {
+    const result = (await parse("(a bcd)")) as SCons;
+    const span = spanOf(result.cdr)!;
+    assert.deepStrictEqual([span.start.column, span.end.column], [4, 8]);
+  });
+
+  await test("quote abbreviation span", async () => {
+    const result = await parse(" '(x)");
+    const span = spanOf(result)!;
+    assert.deepStrictEqual([span.start.column, span.end.column], [2, 6]);
+  });
+
   // --- Error Handling ---
 
   console.log("\n--- Error Handling ---");
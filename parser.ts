@@ -1,14 +1,45 @@
-import { TokenType, Lexer } from "./lexer";
-import { SchemeId, SCons, SchemeType } from "./types";
+import { TokenType, Token, Lexer } from "./lexer";
+import {
+  SchemeChar,
+  SCons,
+  SchemeType,
+  SchemeVector,
+} from "./types";
+import { SourceSpan, SourceLocation, setSpan, annotate } from "./source";
+import { SourceId } from "./syntax";
 
 //
 // Parser
 //
+// Cons cells and identifiers are recorded in the source side table (see
+// source.ts) so later stages can report where a form came from.  A cons
+// cell's span runs from its car to the end of the enclosing list.
+//
 export class SchemeParser {
+  // End of the most recently consumed token
+  private lastEnd: SourceLocation | undefined;
+
   constructor(private lexer: Lexer) {}
 
-  async parse(): Promise<SchemeType> {
+  private async next(): Promise<Token> {
     const token = await this.lexer.next();
+    if (token.span !== undefined) this.lastEnd = token.span.end;
+    return token;
+  }
+
+  private spanFrom(token: Token): SourceSpan | undefined {
+    if (token.span === undefined || this.lastEnd === undefined) return undefined;
+    return { start: token.span.start, end: this.lastEnd };
+  }
+
+  private located<T extends SchemeType>(sexp: T, token: Token): T {
+    const span = this.spanFrom(token);
+    if (span !== undefined) setSpan(sexp, span);
+    return sexp;
+  }
+
+  async parse(): Promise<SchemeType> {
+    const token = await this.next();
 
     if (token.type === TokenType.Number) {
       return token.value;
@@ -16,41 +47,48 @@ export class SchemeParser {
       return token.value;
     } else if (token.type === TokenType.Boolean) {
       return token.value;
+    } else if (token.type === TokenType.Char) {
+      return SchemeChar.of(token.value);
     } else if (token.type === TokenType.Identifier) {
-      return new SchemeId(token.value);
+      return this.located(new SourceId(token.value), token);
     } else if (token.type === TokenType.LeftParen) {
-      return this.parseList();
+      return this.parseList(token);
+    } else if (token.type === TokenType.VectorStart) {
+      return this.parseVector(token);
+    } else if (token.type === TokenType.BytevectorStart) {
+      return this.parseBytevector(token);
     } else if (token.type === TokenType.Quote) {
-      return new SCons(
-        new SchemeId("quote"),
-        new SCons(await this.parse(), null),
-      );
+      return this.parseAbbreviation("quote", token);
     } else if (token.type === TokenType.Quasiquote) {
-      return new SCons(
-        new SchemeId("quasiquote"),
-        new SCons(await this.parse(), null),
-      );
+      return this.parseAbbreviation("quasiquote", token);
     } else if (token.type === TokenType.Unquote) {
-      return new SCons(
-        new SchemeId("unquote"),
-        new SCons(await this.parse(), null),
-      );
+      return this.parseAbbreviation("unquote", token);
     } else if (token.type === TokenType.UnquoteSplicing) {
-      return new SCons(
-        new SchemeId("unquote-splicing"),
-        new SCons(await this.parse(), null),
-      );
+      return this.parseAbbreviation("unquote-splicing", token);
     } else {
-      throw new Error(`Unexpected token: ${token.type}`);
+      throw annotate(
+        new Error(`Unexpected token: ${token.type}`),
+        token.span,
+      );
     }
   }
 
-  private async parseList(): Promise<SchemeType> {
+  // 'x => (quote x), and likewise for the other prefixes
+  private async parseAbbreviation(
+    name: string,
+    token: Token,
+  ): Promise<SchemeType> {
+    const keyword = this.located(new SourceId(name), token);
+    const datum = await this.parse();
+    return this.located(new SCons(keyword, new SCons(datum, null)), token);
+  }
+
+  private async parseList(open: Token): Promise<SchemeType> {
     // Check if empty list ()
     const token = await this.lexer.peek();
 
     if (token.type === TokenType.RightParen) {
-      await this.lexer.next(); // consume )
+      await this.next(); // consume )
       return null;
     }
 
@@ -60,7 +98,40 @@ export class SchemeParser {
     // Parse rest of list (cdr)
     const cdr = await this.parseListTail();
 
-    return new SCons(car, cdr);
+    return this.located(new SCons(car, cdr), open);
+  }
+
+  // #(item...)
+  private async parseVector(open: Token): Promise<SchemeType> {
+    const items: SchemeType[] = [];
+    while ((await this.lexer.peek()).type !== TokenType.RightParen) {
+      items.push(await this.parse());
+    }
+    await this.next(); // consume )
+    return this.located(new SchemeVector(items), open);
+  }
+
+  // #u8(byte...)
+  private async parseBytevector(open: Token): Promise<SchemeType> {
+    const bytes: number[] = [];
+    while ((await this.lexer.peek()).type !== TokenType.RightParen) {
+      const token = await this.next();
+      if (
+        token.type !== TokenType.Number ||
+        typeof token.value !== "number" ||
+        !Number.isInteger(token.value) ||
+        token.value < 0 ||
+        token.value > 255
+      ) {
+        throw annotate(
+          new Error("Expected a byte in bytevector literal"),
+          token.span,
+        );
+      }
+      bytes.push(token.value);
+    }
+    await this.next(); // consume )
+    return this.located(new Uint8Array(bytes), open);
   }
 
   private async parseListTail(): Promise<SchemeType> {
@@ -68,19 +139,20 @@ export class SchemeParser {
 
     if (token.type === TokenType.RightParen) {
       // End of proper list - null terminated
-      await this.lexer.next(); // consume )
+      await this.next(); // consume )
       return null;
     }
 
     if (token.type === TokenType.Dot) {
       // Dotted pair - next element is the final cdr
-      await this.lexer.next(); // consume dot
+      await this.next(); // consume dot
       const cdr = await this.parse();
 
-      const closeParen = await this.lexer.next();
+      const closeParen = await this.next();
       if (closeParen.type !== TokenType.RightParen) {
-        throw new Error(
-          `Expected ')' after dotted pair, got ${closeParen.type}`,
+        throw annotate(
+          new Error(`Expected ')' after dotted pair, got ${closeParen.type}`),
+          closeParen.span,
         );
       }
 
@@ -90,6 +162,6 @@ export class SchemeParser {
     // More elements in the list
     const car = await this.parse();
     const cdr = await this.parseListTail();
-    return new SCons(car, cdr);
+    return this.located(new SCons(car, cdr), token);
   }
 }
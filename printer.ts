@@ -0,0 +1,140 @@
+import {
+  SchemeId,
+  SchemeChar,
+  SCons,
+  SchemeVector,
+  SchemeHashTable,
+  SchemeRecordType,
+  SchemeRecord,
+  MultipleValues,
+  SchemeBuiltin,
+  SchemeControlBuiltin,
+  SchemeClosure,
+  SchemeErrorObject,
+  SchemeType,
+  Thunk,
+  CallFrame,
+  isString,
+  stringValue,
+} from "./types";
+import { SchemeContinuation } from "./control";
+import { isNumber, numberToString } from "./numbers";
+import { CHAR_NAMES } from "./lexer";
+import { formatLocation } from "./source";
+
+//
+// S-expression printing
+//
+function printListTail(sexp: SchemeType): string {
+  if (sexp === null) {
+    return "";
+  } else if (sexp instanceof SCons) {
+    const rest = printListTail(sexp.cdr);
+    if (rest === "") {
+      return " " + sexpToStr(sexp.car);
+    } else {
+      return " " + sexpToStr(sexp.car) + rest;
+    }
+  } else {
+    return " . " + sexpToStr(sexp);
+  }
+}
+
+// #\a, #\space or #\x7
+function charToString(c: SchemeChar): string {
+  const name = Object.keys(CHAR_NAMES).find(
+    (name) => CHAR_NAMES[name] === c.char,
+  );
+  if (name !== undefined) return "#\\" + name;
+  if (/\p{Cc}/u.test(c.char)) return "#\\x" + c.code.toString(16);
+  return "#\\" + c.char;
+}
+
+// The records whose fields are being printed
+const printingRecords = new Set<SchemeRecord>();
+
+export function sexpToStr(sexp: SchemeType): string {
+  if (sexp instanceof SchemeId) {
+    return sexp.id;
+  } else if (sexp instanceof SCons) {
+    return "(" + sexpToStr(sexp.car) + printListTail(sexp.cdr) + ")";
+  } else if (sexp instanceof SchemeVector) {
+    return "#(" + sexp.items.map(sexpToStr).join(" ") + ")";
+  } else if (sexp instanceof Uint8Array) {
+    return "#u8(" + sexp.join(" ") + ")";
+  } else if (isNumber(sexp)) {
+    return numberToString(sexp);
+  } else if (isString(sexp)) {
+    return `"${stringValue(sexp)}"`;
+  } else if (sexp instanceof SchemeChar) {
+    return charToString(sexp);
+  } else if (typeof sexp === "boolean") {
+    return sexp ? "#t" : "#f";
+  } else if (sexp === null) {
+    return "()";
+  } else if (sexp instanceof SchemeClosure) {
+    return sexp.name === null ? "#<closure>" : `#<closure ${sexp.name}>`;
+  } else if (
+    sexp instanceof SchemeBuiltin ||
+    sexp instanceof SchemeControlBuiltin
+  ) {
+    return "#<builtin>";
+  } else if (sexp instanceof SchemeContinuation) {
+    return "#<continuation>";
+  } else if (sexp instanceof SchemeErrorObject) {
+    return (
+      "#<error " + sexpToStr(sexp.message) + printListTail(sexp.irritants) + ">"
+    );
+  } else if (sexp instanceof SchemeRecord) {
+    // A record met again inside its own fields prints without them
+    if (printingRecords.has(sexp)) return `#<${sexp.type.name} ...>`;
+    printingRecords.add(sexp);
+    try {
+      const fields = sexp.type.fields.map(
+        (field, i) => ` ${field}: ${sexpToStr(sexp.values[i])}`,
+      );
+      return `#<${sexp.type.name}${fields.join("")}>`;
+    } finally {
+      printingRecords.delete(sexp);
+    }
+  } else if (sexp instanceof SchemeRecordType) {
+    return `#<record-type ${sexp.name}>`;
+  } else if (sexp instanceof SchemeHashTable) {
+    return "#<hash-table>";
+  } else if (sexp instanceof MultipleValues) {
+    return sexp.values.map(sexpToStr).join(" ");
+  } else if (sexp instanceof Thunk) {
+    return "#<thunk>";
+  } else {
+    throw new Error(`Unexpected type B: ${typeof sexp}`);
+  }
+}
+
+//
+// Backtrace printing
+//
+const MAX_BACKTRACE_FRAMES = 20;
+
+export function formatBacktrace(top: CallFrame | null): string {
+  const lines = ["Backtrace (most recent call first):"];
+  let frame = top;
+  let depth = 0;
+  while (frame !== null) {
+    if (depth < MAX_BACKTRACE_FRAMES) {
+      let line = "  in " + frame.procedure.describe();
+      if (frame.callSite !== undefined) {
+        line += " at " + formatLocation(frame.callSite.start);
+      }
+      if (frame.elided > 0) {
+        line += ` [${frame.elided} tail call${frame.elided === 1 ? "" : "s"} elided]`;
+      }
+      lines.push(line);
+    }
+    depth++;
+    frame = frame.parent;
+  }
+  if (depth > MAX_BACKTRACE_FRAMES) {
+    lines.push(`  ... ${depth - MAX_BACKTRACE_FRAMES} more frames`);
+  }
+  return lines.join("\n");
+}
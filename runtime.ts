@@ -0,0 +1,179 @@
+import {
+  SchemeId,
+  SCons,
+  Frame,
+  SchemeClosure,
+  SchemeType,
+  Code,
+  errorBacktrace,
+} from "./types";
+import { SourceFile, SourceSpan, annotate, formatError } from "./source";
+import { formatBacktrace } from "./printer";
+import { execute } from "./control";
+import { initEnv, isEqv } from "./builtins";
+
+//
+// Runtime for modules compiled by jscompiler.ts.  Generated code uses the
+// procedures and helpers here, and nothing from the analyzer.
+//
+
+export {
+  SchemeId,
+  SchemeChar,
+  SCons,
+  SchemeVector,
+  MutableString,
+  SchemeClosure,
+  Frame,
+  resume,
+} from "./types";
+export { listToVector, receiveValues } from "./builtins";
+export { invoke, guard, raise } from "./control";
+export { SchemeRational, SchemeFlonum } from "./numbers";
+
+function unbound(name: string, span: SourceSpan | undefined, prefix = ""): unknown {
+  return annotate(new Error(`${prefix}Unbound variable: ${name}`), span);
+}
+
+// Value of a local variable.  Internal definitions are unassigned until
+// they run.
+export function local(
+  value: SchemeType | undefined,
+  name: string,
+  span?: SourceSpan,
+): SchemeType {
+  if (value === undefined) throw unbound(name, span);
+  return value;
+}
+
+// Value of a global stored under `global`, written as `name`
+export function global(
+  frame: Frame,
+  global: string,
+  name: string,
+  span?: SourceSpan,
+): SchemeType {
+  const value = frame.global.lookup(global);
+  if (value === null && frame.global.findFrame(global) === null) {
+    throw unbound(name, span);
+  }
+  return value;
+}
+
+export function setLocal(
+  frame: Frame,
+  index: number,
+  value: SchemeType,
+  name: string,
+  span?: SourceSpan,
+): SchemeType {
+  if (frame.slots[index] === undefined) throw unbound(name, span, "set!: ");
+  frame.slots[index] = value;
+  return value;
+}
+
+export function setGlobal(
+  frame: Frame,
+  global: string,
+  value: SchemeType,
+  name: string,
+  span?: SourceSpan,
+): SchemeType {
+  const target = frame.global.findFrame(global);
+  if (target === null) throw unbound(name, span, "set!: ");
+  target.set(global, value);
+  return value;
+}
+
+// Defines name in slot `index` of frame, or as the global `global` when
+// index is -1.  Returns the name.
+export function define(
+  frame: Frame,
+  index: number,
+  global: string,
+  name: string,
+  value: SchemeType,
+): SchemeType {
+  if (value instanceof SchemeClosure && value.name === null) {
+    value.name = name;
+  }
+  if (index >= 0) {
+    frame.slots[index] = value;
+  } else {
+    frame.global.set(global, value);
+  }
+  return SchemeId.of(name);
+}
+
+// A new frame of size slots, the first ones holding values.  let forms and
+// guard clauses run in one.
+export function enter(
+  frame: Frame,
+  size: number,
+  values: SchemeType[],
+): Frame {
+  const entered = new Frame(frame, size);
+  values.forEach((value, i) => (entered.slots[i] = value));
+  return entered;
+}
+
+// Index of the first of clauses, a list of lists of data, with a datum
+// eqv? to key, or -1 if there is none.  For case.
+export function caseClause(key: SchemeType, clauses: SchemeType): number {
+  let index = 0;
+  for (const data of clauses === null ? [] : (clauses as SCons)) {
+    for (const datum of data === null ? [] : (data as SCons)) {
+      if (isEqv(datum, key)) return index;
+    }
+    index++;
+  }
+  return -1;
+}
+
+// A copy of list followed by rest, for unquote-splicing
+export function splice(list: SchemeType, rest: SchemeType): SchemeType {
+  if (list !== null && !(list instanceof SCons)) {
+    throw new Error("unquote-splicing: expected a list");
+  }
+  const items = list === null ? [] : [...list];
+  for (let i = items.length - 1; i >= 0; i--) {
+    rest = new SCons(items[i], rest);
+  }
+  return rest;
+}
+
+// Rebuilds the spans a module refers to.  files are [name, lines] pairs and
+// each span is [file, line, column, endLine, endColumn].
+export function sourceSpans(
+  files: Array<[string, string[]]>,
+  spans: number[][],
+): SourceSpan[] {
+  const sourceFiles = files.map(([name, lines]) => {
+    const file = new SourceFile(name);
+    file.lines.splice(0, file.lines.length, ...lines);
+    return file;
+  });
+  return spans.map(([file, line, column, endLine, endColumn]) => ({
+    start: { file: sourceFiles[file], line, column },
+    end: { file: sourceFiles[file], line: endLine, column: endColumn },
+  }));
+}
+
+// Runs a module's top-level forms in a fresh environment.  An uncaught
+// error is reported and stops the program.
+export function runModule(forms: Code[]): void {
+  const env = initEnv();
+  for (const form of forms) {
+    try {
+      execute((k) => form(env, k));
+    } catch (error) {
+      console.error(formatError(error));
+      const backtrace = errorBacktrace(error);
+      if (backtrace !== null) {
+        console.error(formatBacktrace(backtrace));
+      }
+      process.exitCode = 1;
+      return;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+//
+// Source locations
+//
+
+// Text of a source file, filled in line by line as the lexer reads it
+export class SourceFile {
+  public readonly lines: string[] = [""];
+
+  constructor(public readonly name: string) {}
+}
+
+export interface SourceLocation {
+  file: SourceFile;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+// The end location is exclusive
+export interface SourceSpan {
+  start: SourceLocation;
+  end: SourceLocation;
+}
+
+//
+// Side tables mapping parsed objects (cons cells, identifiers) and
+// errors to the source they came from
+//
+const sexpSpans = new WeakMap<object, SourceSpan>();
+const errorSpans = new WeakMap<Error, SourceSpan>();
+
+export function setSpan(sexp: unknown, span: SourceSpan): void {
+  if (typeof sexp === "object" && sexp !== null) {
+    sexpSpans.set(sexp, span);
+  }
+}
+
+export function spanOf(sexp: unknown): SourceSpan | undefined {
+  if (typeof sexp === "object" && sexp !== null) {
+    return sexpSpans.get(sexp);
+  }
+  return undefined;
+}
+
+// Copies the span of `from` onto `to` unless `to` already has one
+export function inheritSpan(to: unknown, from: unknown): void {
+  const span = spanOf(from);
+  if (span !== undefined && spanOf(to) === undefined) {
+    setSpan(to, span);
+  }
+}
+
+// Records where an error happened.  The innermost location wins, so callers
+// can annotate on the way out without overwriting a more precise one.
+export function annotate(error: unknown, span: SourceSpan | undefined): unknown {
+  if (span !== undefined && error instanceof Error && !errorSpans.has(error)) {
+    errorSpans.set(error, span);
+  }
+  return error;
+}
+
+export function errorSpan(error: unknown): SourceSpan | undefined {
+  return error instanceof Error ? errorSpans.get(error) : undefined;
+}
+
+//
+// Formatting
+//
+export function formatLocation(loc: SourceLocation): string {
+  return `${loc.file.name}:${loc.line}:${loc.column}`;
+}
+
+// The source line of the span with a caret underneath the spanned text
+export function sourceExcerpt(span: SourceSpan): string {
+  const { start, end } = span;
+  const text = start.file.lines[start.line - 1];
+  if (text === undefined) return "";
+  const width =
+    end.line === start.line ? Math.max(1, end.column - start.column) : 1;
+  return (
+    "  " + text + "\n" + "  " + " ".repeat(start.column - 1) + "^".repeat(width)
+  );
+}
+
+// "file:line:col: message" plus an excerpt, if the error has a location
+export function formatError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const span = errorSpan(error);
+  if (span === undefined) return message;
+  const excerpt = sourceExcerpt(span);
+  return (
+    `${formatLocation(span.start)}: ${message}` + (excerpt ? "\n" + excerpt : "")
+  );
+}
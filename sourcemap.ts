@@ -0,0 +1,92 @@
+//
+// Source map (v3) output
+//
+
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+// Base64 VLQ: 5 bits per digit, least significant first, with the sign in
+// the lowest bit of the first digit
+function vlq(value: number): string {
+  let rest = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = "";
+  do {
+    let digit = rest & 31;
+    rest >>>= 5;
+    if (rest > 0) digit |= 32;
+    encoded += BASE64[digit];
+  } while (rest > 0);
+  return encoded;
+}
+
+// Positions are 0-based
+interface Mapping {
+  line: number;
+  column: number;
+  source: number;
+  sourceLine: number;
+  sourceColumn: number;
+}
+
+export interface SourceMap {
+  version: 3;
+  file: string;
+  sources: string[];
+  sourcesContent: string[];
+  names: string[];
+  mappings: string;
+}
+
+export class SourceMapBuilder {
+  private readonly sources: string[] = [];
+  private readonly contents: string[] = [];
+  private readonly mappings: Mapping[] = [];
+
+  // Returns the index of the named source, adding it if needed
+  public addSource(name: string, content: string): number {
+    const index = this.sources.indexOf(name);
+    if (index >= 0) return index;
+    this.contents.push(content);
+    return this.sources.push(name) - 1;
+  }
+
+  // Mappings must be added in order of generated position
+  public addMapping(
+    line: number,
+    column: number,
+    source: number,
+    sourceLine: number,
+    sourceColumn: number,
+  ): void {
+    this.mappings.push({ line, column, source, sourceLine, sourceColumn });
+  }
+
+  public toJSON(file: string): SourceMap {
+    const lines: string[][] = [];
+    // Generated columns are relative within a line, the rest across lines
+    let column = 0;
+    let previous = { source: 0, sourceLine: 0, sourceColumn: 0 };
+    for (const mapping of this.mappings) {
+      while (lines.length <= mapping.line) {
+        lines.push([]);
+        column = 0;
+      }
+      lines[mapping.line].push(
+        vlq(mapping.column - column) +
+          vlq(mapping.source - previous.source) +
+          vlq(mapping.sourceLine - previous.sourceLine) +
+          vlq(mapping.sourceColumn - previous.sourceColumn),
+      );
+      column = mapping.column;
+      previous = mapping;
+    }
+    return {
+      version: 3,
+      file,
+      sources: this.sources,
+      sourcesContent: this.contents,
+      names: [],
+      mappings: lines.map((segments) => segments.join(",")).join(";"),
+    };
+  }
+}
@@ -0,0 +1,402 @@
+import {
+  SchemeId,
+  SCons,
+  SchemeProcedure,
+  SchemeType,
+  SchemeVector,
+} from "./types";
+import { inheritSpan } from "./source";
+import { sexpToStr } from "./printer";
+import { isNumber, numberEqv } from "./numbers";
+
+//
+// Compile-time environments and hygienic macros
+//
+
+// An identifier inserted by a syntax-rules template.  It means whatever
+// `original` meant where the macro was defined, unless the expansion
+// itself binds it.  Each expansion makes one alias per template name, so
+// aliases are compared by identity.
+export class Alias extends SchemeId {
+  constructor(
+    public readonly original: SchemeId,
+    public readonly scope: Scope,
+  ) {
+    super(original.id);
+  }
+}
+
+// An identifier as written in the source.  The parser makes one per
+// occurrence, so that each carries its own location.
+export class SourceId extends SchemeId {
+  constructor(id: string) {
+    super(id);
+  }
+}
+
+// Procedural transformers come from define-macro
+export type Transformer = SyntaxRules | SchemeProcedure;
+
+export type VariableBinding =
+  // In slot `index` of the runtime frame that `frame` owns
+  | { kind: "local"; frame: Scope; index: number }
+  // Looked up by name in the top-level frame
+  | { kind: "global"; name: string };
+
+export type Binding =
+  | VariableBinding
+  | { kind: "macro"; transformer: Transformer }
+  | { kind: "special"; name: string };
+
+// Plain identifiers are bound by name, aliases and uninterned symbols by
+// identity
+function keyOf(id: SchemeId): SchemeId | string {
+  return id instanceof Alias || id.uninterned ? id : id.id;
+}
+
+// Whether binding a and b in one scope would bind the same identifier
+export function sameIdentifier(a: SchemeId, b: SchemeId): boolean {
+  return keyOf(a) === keyOf(b);
+}
+
+// A scope either has its own runtime frame (lambda bodies, guard clauses) or
+// shares its parent's (let-syntax bodies).  depth counts the frames between
+// a scope and the top level.
+export class Scope {
+  public readonly depth: number;
+  // The scope owning the frame this scope's code runs in, or null at top
+  // level, where variables are globals
+  public readonly frame: Scope | null;
+  // Number of slots in the frame, if this scope owns one
+  public size = 0;
+  private readonly bindings = new Map<SchemeId | string, Binding>();
+
+  constructor(
+    public readonly parent: Scope | null,
+    hasFrame: boolean,
+  ) {
+    this.depth = parent === null ? 0 : parent.depth + (hasFrame ? 1 : 0);
+    this.frame = hasFrame ? this : (parent?.frame ?? null);
+  }
+
+  public bind(id: SchemeId, binding: Binding): void {
+    this.bindings.set(keyOf(id), binding);
+  }
+
+  public unbind(id: SchemeId): void {
+    this.bindings.delete(keyOf(id));
+  }
+
+  public lookupLocal(id: SchemeId): Binding | undefined {
+    return this.bindings.get(keyOf(id));
+  }
+}
+
+// What an identifier means in scope.  Free identifiers name globals.
+export function resolve(id: SchemeId, scope: Scope | null): Binding {
+  for (let s = scope; s !== null; s = s.parent) {
+    const binding = s.lookupLocal(id);
+    if (binding !== undefined) return binding;
+  }
+  if (id instanceof Alias) return resolve(id.original, id.scope);
+  return { kind: "global", name: id.id };
+}
+
+// free-identifier=?: whether a and b mean the same thing
+export function sameBinding(a: Binding, b: Binding): boolean {
+  if (a === b) return true;
+  return a.kind === "global" && b.kind === "global" && a.name === b.name;
+}
+
+// Replaces identifiers with the symbols they spell, for quoted data
+export function stripSyntax(sexp: SchemeType): SchemeType {
+  if (sexp instanceof Alias) {
+    return stripSyntax(sexp.original);
+  } else if (sexp instanceof SourceId) {
+    return SchemeId.of(sexp.id);
+  } else if (sexp instanceof SCons) {
+    const car = stripSyntax(sexp.car);
+    const cdr = stripSyntax(sexp.cdr);
+    if (car === sexp.car && cdr === sexp.cdr) return sexp;
+    const stripped = new SCons(car, cdr);
+    inheritSpan(stripped, sexp);
+    return stripped;
+  } else if (sexp instanceof SchemeVector) {
+    const items = sexp.items.map(stripSyntax);
+    if (items.every((item, i) => item === sexp.items[i])) return sexp;
+    const stripped = new SchemeVector(items);
+    inheritSpan(stripped, sexp);
+    return stripped;
+  }
+  return sexp;
+}
+
+//
+// syntax-rules
+//
+
+// Pattern variables bind to a form, or under n ellipses to n levels of
+// nested arrays of forms
+type Match = SchemeType | Match[];
+type Matches = Map<SchemeId | string, Match>;
+
+function isId(sexp: SchemeType, name: string): boolean {
+  return sexp instanceof SchemeId && sexp.id === name;
+}
+
+function listLength(sexp: SchemeType): number {
+  let length = 0;
+  while (sexp instanceof SCons) {
+    length++;
+    sexp = sexp.cdr;
+  }
+  return length;
+}
+
+// A vector's items as a list, so that vector patterns and templates can be
+// handled like list ones
+function itemList(vector: SchemeVector): SchemeType {
+  let list: SchemeType = null;
+  for (let i = vector.items.length - 1; i >= 0; i--) {
+    list = new SCons(vector.items[i], list);
+  }
+  return list;
+}
+
+export class SyntaxRules {
+  private readonly literals: SchemeId[] = [];
+  private readonly rules: Array<[SchemeType, SchemeType]> = [];
+  private readonly ellipsis: string;
+
+  // spec is ([ellipsis] (literal...) (pattern template)...), with scope the
+  // environment the macro is defined in
+  constructor(
+    private readonly name: string,
+    spec: SchemeType,
+    private readonly scope: Scope,
+  ) {
+    if (spec instanceof SCons && spec.car instanceof SchemeId) {
+      this.ellipsis = spec.car.id;
+      spec = spec.cdr;
+    } else {
+      this.ellipsis = "...";
+    }
+    if (!(spec instanceof SCons) || !(spec.car === null || spec.car instanceof SCons)) {
+      throw new Error("syntax-rules: Expected a list of literals.");
+    }
+    for (const literal of spec.car ?? []) {
+      if (!(literal instanceof SchemeId)) {
+        throw new Error("syntax-rules: Literals must be identifiers.");
+      }
+      this.literals.push(literal);
+    }
+    for (const rule of spec.cdr instanceof SCons ? spec.cdr : []) {
+      if (
+        !(rule instanceof SCons) ||
+        !(rule.car instanceof SCons) ||
+        !(rule.cdr instanceof SCons) ||
+        rule.cdr.cdr !== null
+      ) {
+        throw new Error(`syntax-rules: Malformed rule: ${sexpToStr(rule)}`);
+      }
+      this.rules.push([rule.car, rule.cdr.car]);
+    }
+  }
+
+  public expand(form: SCons, useScope: Scope): SchemeType {
+    for (const [pattern, template] of this.rules) {
+      const matches: Matches = new Map();
+      // The keyword position is ignored
+      if (this.match((pattern as SCons).cdr, form.cdr, useScope, matches)) {
+        return this.instantiate(template, matches, new Map(), false);
+      }
+    }
+    throw new Error(`${this.name}: No rule matches ${sexpToStr(form)}`);
+  }
+
+  private isEllipsis(sexp: SchemeType): boolean {
+    return isId(sexp, this.ellipsis);
+  }
+
+  private isLiteral(id: SchemeId): boolean {
+    return this.literals.some((literal) => literal.id === id.id);
+  }
+
+  private match(
+    pattern: SchemeType,
+    form: SchemeType,
+    useScope: Scope,
+    matches: Matches,
+  ): boolean {
+    if (pattern instanceof SchemeId) {
+      if (this.isLiteral(pattern)) {
+        return (
+          form instanceof SchemeId &&
+          sameBinding(resolve(pattern, this.scope), resolve(form, useScope))
+        );
+      }
+      if (pattern.id !== "_") matches.set(keyOf(pattern), form);
+      return true;
+    }
+    if (pattern instanceof SCons) {
+      if (pattern.cdr instanceof SCons && this.isEllipsis(pattern.cdr.car)) {
+        // (p ... rest): p takes whatever rest doesn't need
+        const rest = pattern.cdr.cdr;
+        const repeats = listLength(form) - listLength(rest);
+        if (repeats < 0) return false;
+        const each: Matches[] = [];
+        for (let i = 0; i < repeats; i++) {
+          const itemMatches: Matches = new Map();
+          if (!this.match(pattern.car, (form as SCons).car, useScope, itemMatches)) {
+            return false;
+          }
+          each.push(itemMatches);
+          form = (form as SCons).cdr;
+        }
+        for (const variable of this.patternVariables(pattern.car)) {
+          matches.set(
+            variable,
+            each.map((itemMatches) => itemMatches.get(variable) as Match),
+          );
+        }
+        return this.match(rest, form, useScope, matches);
+      }
+      return (
+        form instanceof SCons &&
+        this.match(pattern.car, form.car, useScope, matches) &&
+        this.match(pattern.cdr, form.cdr, useScope, matches)
+      );
+    }
+    if (pattern instanceof SchemeVector) {
+      return (
+        form instanceof SchemeVector &&
+        this.match(itemList(pattern), itemList(form), useScope, matches)
+      );
+    }
+    if (pattern === null) return form === null;
+    if (isNumber(pattern)) return isNumber(form) && numberEqv(pattern, form);
+    return pattern === form;
+  }
+
+  private patternVariables(pattern: SchemeType): Array<SchemeId | string> {
+    if (pattern instanceof SchemeId) {
+      if (this.isEllipsis(pattern) || this.isLiteral(pattern) || pattern.id === "_") {
+        return [];
+      }
+      return [keyOf(pattern)];
+    } else if (pattern instanceof SCons) {
+      return [
+        ...this.patternVariables(pattern.car),
+        ...this.patternVariables(pattern.cdr),
+      ];
+    } else if (pattern instanceof SchemeVector) {
+      return this.patternVariables(itemList(pattern));
+    }
+    return [];
+  }
+
+  // Builds the expansion.  Identifiers that aren't pattern variables become
+  // aliases, the same alias for every occurrence of a name.
+  private instantiate(
+    template: SchemeType,
+    matches: Matches,
+    renames: Map<SchemeId | string, Alias>,
+    escaped: boolean,
+  ): SchemeType {
+    if (template instanceof SchemeId) {
+      const key = keyOf(template);
+      if (matches.has(key)) {
+        const match = matches.get(key) as Match;
+        if (Array.isArray(match)) {
+          throw new Error(
+            `${this.name}: Pattern variable ${template.id} needs an ellipsis.`,
+          );
+        }
+        return match;
+      }
+      let alias = renames.get(key);
+      if (alias === undefined) {
+        alias = new Alias(template, this.scope);
+        inheritSpan(alias, template);
+        renames.set(key, alias);
+      }
+      return alias;
+    }
+    if (template instanceof SchemeVector) {
+      const items: SchemeType[] = [];
+      const list = itemList(template);
+      let result = this.instantiate(list, matches, renames, escaped);
+      for (; result instanceof SCons; result = result.cdr) {
+        items.push(result.car);
+      }
+      const vector = new SchemeVector(items);
+      inheritSpan(vector, template);
+      return vector;
+    }
+    if (!(template instanceof SCons)) return template;
+
+    // (... template) inserts template with ellipses taken literally
+    if (!escaped && this.isEllipsis(template.car) && template.cdr instanceof SCons) {
+      return this.instantiate(template.cdr.car, matches, renames, true);
+    }
+
+    let result: SchemeType;
+    if (!escaped && template.cdr instanceof SCons && this.isEllipsis(template.cdr.car)) {
+      // (sub ... ... rest): one level of iteration per ellipsis
+      let depth = 0;
+      let rest: SchemeType = template.cdr;
+      while (rest instanceof SCons && this.isEllipsis(rest.car)) {
+        depth++;
+        rest = rest.cdr;
+      }
+      const items = this.iterate(template.car, matches, renames, depth);
+      result = this.instantiate(rest, matches, renames, escaped);
+      for (let i = items.length - 1; i >= 0; i--) {
+        result = new SCons(items[i], result);
+      }
+    } else {
+      result = new SCons(
+        this.instantiate(template.car, matches, renames, escaped),
+        this.instantiate(template.cdr, matches, renames, escaped),
+      );
+    }
+    inheritSpan(result, template);
+    return result;
+  }
+
+  private iterate(
+    template: SchemeType,
+    matches: Matches,
+    renames: Map<SchemeId | string, Alias>,
+    depth: number,
+  ): SchemeType[] {
+    // Only variables matched under an ellipsis drive the iteration
+    const variables = this.patternVariables(template).filter((variable) =>
+      Array.isArray(matches.get(variable)),
+    );
+    if (variables.length === 0) {
+      throw new Error(`${this.name}: No pattern variable before ellipsis.`);
+    }
+    const length = (matches.get(variables[0]) as Match[]).length;
+    for (const variable of variables) {
+      if ((matches.get(variable) as Match[]).length !== length) {
+        throw new Error(
+          `${this.name}: Pattern variables under an ellipsis matched different lengths.`,
+        );
+      }
+    }
+    const items: SchemeType[] = [];
+    for (let i = 0; i < length; i++) {
+      const itemMatches: Matches = new Map(matches);
+      for (const variable of variables) {
+        itemMatches.set(variable, (matches.get(variable) as Match[])[i]);
+      }
+      if (depth > 1) {
+        items.push(...this.iterate(template, itemMatches, renames, depth - 1));
+      } else {
+        items.push(this.instantiate(template, itemMatches, renames, false));
+      }
+    }
+    return items;
+  }
+}
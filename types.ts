@@ -1,9 +1,85 @@
+import { SourceSpan, annotate } from "./source";
+import { SchemeFlonum, SchemeRational } from "./numbers";
+
 //
 // Scheme Type System
 //
 
+// A symbol.  Symbols are interned, so those with the same name are the same
+// object and eq? compares them by identity.  Uninterned symbols, made by
+// gensym, are eq? only to themselves.  Subclasses are identifiers in code
+// being expanded, which stripSyntax turns back into symbols.
 export class SchemeId {
-  constructor(public id: string) {}
+  private static readonly interned = new Map<string, SchemeId>();
+
+  protected constructor(
+    public readonly id: string,
+    public readonly uninterned: boolean = false,
+  ) {}
+
+  static of(id: string): SchemeId {
+    let result = SchemeId.interned.get(id);
+    if (result === undefined) {
+      result = new SchemeId(id);
+      SchemeId.interned.set(id, result);
+    }
+    return result;
+  }
+
+  static uninterned(id: string): SchemeId {
+    return new SchemeId(id, true);
+  }
+}
+
+// A Unicode code point.  Characters are interned, so equal characters are
+// the same object.
+export class SchemeChar {
+  private static readonly interned = new Map<string, SchemeChar>();
+
+  private constructor(public readonly char: string) {}
+
+  static of(char: string): SchemeChar {
+    let result = SchemeChar.interned.get(char);
+    if (result === undefined) {
+      result = new SchemeChar(char);
+      SchemeChar.interned.set(char, result);
+    }
+    return result;
+  }
+
+  get code(): number {
+    return this.char.codePointAt(0) as number;
+  }
+}
+
+// Strings made at runtime, by make-string, string-append and the like, are
+// mutable.  Literals are JS strings, which are immutable.  Both index by
+// code point, so a mutable string keeps one character per element.
+export class MutableString {
+  public readonly chars: string[];
+
+  constructor(text: string) {
+    this.chars = Array.from(text);
+  }
+
+  get value(): string {
+    return this.chars.join("");
+  }
+}
+
+export function isString(x: SchemeType): x is string | MutableString {
+  return typeof x === "string" || x instanceof MutableString;
+}
+
+// Text of a string of either kind
+export function stringValue(x: string | MutableString): string {
+  return typeof x === "string" ? x : x.value;
+}
+
+// Characters of a string of either kind, one code point each.  A mutable
+// string's own array is returned, so callers must not change it.
+export function stringCodePoints(x: string | MutableString): string[] {
+  return typeof x === "string" ? Array.from(x) : x.chars;
 }
 
 export class SCons {
@@ -21,6 +97,63 @@ export class SCons {
   }
 }
 
+export class SchemeVector {
+  constructor(public readonly items: SchemeType[]) {}
+}
+
+// A record type from define-record-type.  The name prints without the
+// angle brackets it is usually written with.
+export class SchemeRecordType {
+  public readonly name: string;
+
+  constructor(
+    typeName: string,
+    public readonly fields: string[],
+  ) {
+    this.name = typeName.replace(/^<(.*)>$/, "$1");
+  }
+}
+
+export class SchemeRecord {
+  constructor(
+    public readonly type: SchemeRecordType,
+    public readonly values: SchemeType[],
+  ) {}
+}
+
+export interface HashEntry {
+  readonly key: SchemeType;
+  value: SchemeType;
+}
+
+// A hash table compares a key, with its equivalence procedure, against the
+// keys its hash procedure puts in the same bucket
+export class SchemeHashTable {
+  // Buckets by hash, in insertion order
+  public readonly buckets = new Map<number, HashEntry[]>();
+  public size = 0;
+
+  constructor(
+    public readonly equivalence: SchemeProcedure,
+    public readonly hash: SchemeProcedure,
+  ) {}
+}
+
+// The values of a call that returns zero or several, as from values.  One
+// value stands for itself, so single-valued returns allocate nothing.
+export class MultipleValues {
+  constructor(public readonly values: SchemeType[]) {}
+}
+
+export function multipleValues(values: SchemeType[]): SchemeType {
+  return values.length === 1 ? values[0] : new MultipleValues(values);
+}
+
+// The values a returned value stands for
+export function valuesOf(value: SchemeType): SchemeType[] {
+  return value instanceof MultipleValues ? value.values : [value];
+}
+
 //
 // Trampoline thunk for tail call elimination
 //
@@ -28,22 +161,49 @@ export class Thunk {
   constructor(public readonly cont: () => SchemeType) {}
 }
 
+// A continuation receives the value of a computation.  It returns a Thunk to
+// keep the trampoline going, or the final value once the computation is done.
+export type Cont = (value: SchemeType) => SchemeType;
+
+// Analyzed code: evaluates in frame and passes the result to k
+export type Code = (frame: Frame, k: Cont) => SchemeType;
+
+// Everything runs in continuation-passing style, so the JS stack only grows
+// until the next bounce through the trampoline.  Continuations are called
+// directly until MAX_NESTING calls have nested, then via a Thunk.
+const MAX_NESTING = 100;
+let nesting = 0;
+
+export function resume(k: Cont, value: SchemeType): SchemeType {
+  if (++nesting > MAX_NESTING) return new Thunk(() => k(value));
+  return k(value);
+}
+
 //
 // Symbol table / Environment
 //
+// The analyzer resolves local variables to slots, addressed by how many
+// frames up they are and their index there.  Globals are looked up by name
+// in the top-level frame.
+//
 export class Frame {
-  private bindings: Map<string, SchemeType>;
+  public readonly slots: SchemeType[];
+  public readonly global: Frame;
+  private bindings: Map<string, SchemeType> | null = null;
 
-  constructor(public parent: Frame | null) {
-    this.parent = parent;
-    this.bindings = new Map();
+  constructor(
+    public parent: Frame | null,
+    size: number = 0,
+  ) {
+    this.slots = new Array(size);
+    this.global = parent === null ? this : parent.global;
   }
 
   public findFrame(name: string): Frame | null {
     let currentFrame: Frame | null = this;
 
     while (currentFrame !== null) {
-      if (currentFrame.bindings.has(name)) return currentFrame;
+      if (currentFrame.bindings?.has(name)) return currentFrame;
       currentFrame = currentFrame.parent;
     }
 
@@ -52,11 +212,12 @@ export class Frame {
 
   public lookup(name: string): SchemeType | null {
     let frame = this.findFrame(name);
-    if (frame !== null) return frame.bindings.get(name) as SchemeType;
+    if (frame !== null) return frame.bindings!.get(name) as SchemeType;
     return null;
   }
 
   public set(name: string, value: SchemeType): void {
+    if (this.bindings === null) this.bindings = new Map();
     this.bindings.set(name, value);
   }
 }
@@ -64,66 +225,200 @@ export class Frame {
 //
 // Runtime types
 //
-export class SchemeBuiltin {
-  constructor(public func: (args: SchemeType[]) => SchemeType) {}
-  public eval(args: SchemeType[]): SchemeType {
-    return this.func(args);
+export abstract class SchemeProcedure {
+  // Calls the procedure, passing its result to k.  A tail call replaces the
+  // caller's frame on the shadow call stack instead of pushing a new one.
+  public abstract apply(
+    args: SchemeType[],
+    k: Cont,
+    callSite?: SourceSpan,
+    tail?: boolean,
+  ): SchemeType;
+}
+
+export class SchemeBuiltin extends SchemeProcedure {
+  constructor(public func: (args: SchemeType[]) => SchemeType) {
+    super();
+  }
+
+  public apply(args: SchemeType[], k: Cont, callSite?: SourceSpan): SchemeType {
+    let value: SchemeType;
+    try {
+      value = this.func(args);
+    } catch (error) {
+      throw annotate(error, callSite);
+    }
+    return resume(k, value);
+  }
+}
+
+// A builtin that receives its continuation, for control operators such as
+// call/cc and apply
+export class SchemeControlBuiltin extends SchemeProcedure {
+  constructor(
+    public func: (
+      args: SchemeType[],
+      k: Cont,
+      callSite: SourceSpan | undefined,
+      tail: boolean,
+    ) => SchemeType,
+  ) {
+    super();
+  }
+
+  public apply(
+    args: SchemeType[],
+    k: Cont,
+    callSite?: SourceSpan,
+    tail: boolean = false,
+  ): SchemeType {
+    try {
+      return this.func(args, k, callSite, tail);
+    } catch (error) {
+      throw annotate(error, callSite);
+    }
   }
 }
 
-export class SchemeClosure {
+export class SchemeClosure extends SchemeProcedure {
+  // Name the closure was first defined under, for printing and backtraces
+  public name: string | null = null;
+
   constructor(
+    // Parameter names, for printing; arguments go in the first slots
     protected params: string[],
     protected restParam: string | null,
-    protected expr: (frame: Frame) => SchemeType,
+    protected frameSize: number,
+    protected expr: Code,
     protected env: Frame,
-  ) {}
+  ) {
+    super();
+  }
+
+  // A call pattern like "(fact n)" or "(f a . rest)"
+  public describe(): string {
+    const parts = [this.name ?? "#<lambda>", ...this.params];
+    if (this.restParam !== null) parts.push(".", this.restParam);
+    return "(" + parts.join(" ") + ")";
+  }
 
   private bindArgs(args: SchemeType[]): Frame {
-    const frame = new Frame(this.env);
-    for (let i = 0; i < this.params.length; i++) {
-      frame.set(this.params[i], args[i]);
+    const frame = new Frame(this.env, this.frameSize);
+    const count = this.params.length;
+    for (let i = 0; i < count; i++) {
+      frame.slots[i] = args[i];
     }
     if (this.restParam != null) {
-      const restArgs = args.slice(this.params.length);
+      const restArgs = args.slice(count);
       const restList = restArgs.reverse().reduce(
         (accumulator, current) => {
           return new SCons(current, accumulator);
         },
         null as SchemeType,
       );
-      frame.set(this.restParam, restList);
+      frame.slots[count] = restList;
     }
     return frame;
   }
 
-  // For non-tail calls: run to completion
-  public eval(args: SchemeType[]): SchemeType {
+  public apply(
+    args: SchemeType[],
+    k: Cont,
+    callSite?: SourceSpan,
+    tail: boolean = false,
+  ): SchemeType {
+    const caller = callStack.top;
+    if (tail && caller !== null) {
+      callStack.top = new CallFrame(
+        this,
+        callSite,
+        caller.parent,
+        caller.elided + 1,
+      );
+    } else {
+      callStack.top = new CallFrame(this, callSite, caller);
+      const returnTo = k;
+      k = (value) => {
+        callStack.top = caller;
+        return returnTo(value);
+      };
+    }
     const frame = this.bindArgs(args);
-    return trampoline(this.expr(frame));
+    if (++nesting > MAX_NESTING) return new Thunk(() => this.expr(frame, k));
+    return this.expr(frame, k);
   }
+}
 
-  // For tail calls: return thunk for trampoline
-  public evalTail(args: SchemeType[]): Thunk {
-    const frame = this.bindArgs(args);
-    return new Thunk(() => this.expr(frame));
+// R7RS error object, as created by `error` or converted from an internal error
+export class SchemeErrorObject {
+  constructor(
+    public readonly message: string,
+    public readonly irritants: SchemeType,
+  ) {}
+}
+
+//
+// Shadow Scheme call stack, used for backtraces.  Frames form an immutable
+// linked list; only closure calls push frames.
+//
+export class CallFrame {
+  constructor(
+    public readonly procedure: SchemeClosure,
+    public readonly callSite: SourceSpan | undefined,
+    public readonly parent: CallFrame | null,
+    // Number of frames replaced by tail calls to get here
+    public readonly elided: number = 0,
+  ) {}
+}
+
+export const callStack: { top: CallFrame | null } = { top: null };
+
+const errorBacktraces = new WeakMap<Error, CallFrame | null>();
+
+// Remembers the Scheme stack at the point an error was first seen
+export function captureBacktrace(error: unknown): void {
+  if (error instanceof Error && !errorBacktraces.has(error)) {
+    errorBacktraces.set(error, callStack.top);
   }
 }
 
+export function errorBacktrace(error: unknown): CallFrame | null {
+  if (error instanceof Error) return errorBacktraces.get(error) ?? null;
+  return null;
+}
+
 export type SchemeType =
   | SchemeId
-  | SchemeBuiltin
-  | SchemeClosure
+  | SchemeChar
+  | SchemeProcedure
+  | SchemeErrorObject
   | SCons
+  | SchemeVector
+  | SchemeHashTable
+  | SchemeRecordType
+  | SchemeRecord
+  | MultipleValues
+  | Uint8Array
   | Thunk
+  | MutableString
   | number
+  | bigint
+  | SchemeRational
+  | SchemeFlonum
   | string
   | boolean
   | null;
 
+// Runs thunks until a final value comes out
 export function trampoline(result: SchemeType): SchemeType {
-  while (result instanceof Thunk) {
-    result = result.cont();
+  const base = nesting;
+  try {
+    while (result instanceof Thunk) {
+      nesting = base;
+      result = result.cont();
+    }
+    return result;
+  } finally {
+    nesting = base;
   }
-  return result;
 }
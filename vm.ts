@@ -0,0 +1,313 @@
+import {
+  SchemeId,
+  Frame,
+  SchemeClosure,
+  SchemeType,
+  Code,
+  Cont,
+  resume,
+} from "./types";
+import { SourceSpan, annotate } from "./source";
+import { guard, invoke, raise } from "./control";
+import { isEqv } from "./builtins";
+
+//
+// Bytecode virtual machine
+//
+// A Template holds the code for one procedure body (or top-level form,
+// guard body or guard clause list).  Instructions are opcodes followed by
+// their operands, inline in a flat array.  Each activation has its own
+// operand stack; calls hand the VM's state to the callee as a continuation,
+// so call/cc and the control builtins work as they do for the analyzer.
+// let forms run inline, in a frame of their own between ENTER and LEAVE.
+//
+
+export enum Op {
+  // CONST index: push constants[index]
+  Const,
+  // LOCAL hops index site: push a slot of the frame `hops` frames up
+  Local,
+  // GLOBAL site: push the global named by the site
+  Global,
+  // SET_LOCAL hops index site, SET_GLOBAL site: assign the top of the
+  // stack, leaving it there
+  SetLocal,
+  SetGlobal,
+  // DEFINE_LOCAL index site, DEFINE_GLOBAL site: pop and define, then push
+  // the name
+  DefineLocal,
+  DefineGlobal,
+  Pop,
+  Dup,
+  Swap,
+  // JUMP target
+  Jump,
+  // JUMP_IF_FALSE target: pop, jumping if the value is #f
+  JumpIfFalse,
+  // JUMP_IF_TRUE_KEEP / JUMP_IF_FALSE_KEEP target: jump and keep the value
+  // if it is true / #f, or pop it and carry on
+  JumpIfTrueKeep,
+  JumpIfFalseKeep,
+  // CLOSURE index: push a closure for lambdas[index] over the current frame
+  Closure,
+  // CALL argc site, TAIL_CALL argc site: call the procedure below the
+  // arguments
+  Call,
+  TailCall,
+  Return,
+  // GUARD index: run guards[index], pushing its value
+  Guard,
+  // RERAISE: raise-continuable the top of the stack
+  Reraise,
+  // QUASIQUOTE index argc: build quasiquotes[index] from argc values
+  Quasiquote,
+  // ENTER size argc: pop argc values into the first slots of a new frame,
+  // which becomes the current one
+  Enter,
+  // LEAVE: go back to the current frame's parent
+  Leave,
+  // CASE index: jump to the first clause in cases[index] with a datum eqv?
+  // to the top of the stack, keeping it, or carry on if none matches
+  Case,
+}
+
+// A variable reference, definition or call: the name as written, for
+// errors, the name a global is stored under, and where it is
+export interface Site {
+  name: string;
+  global: string;
+  span: SourceSpan | undefined;
+}
+
+export interface Lambda {
+  template: Template;
+  params: string[];
+  restParam: string | null;
+  frameSize: number;
+}
+
+// A case clause's data, and where its code starts
+export interface CaseTarget {
+  data: SchemeType[];
+  target: number;
+}
+
+// The body runs in the current frame; the clauses in a new frame with the
+// raised object in slot 0
+export interface GuardCode {
+  body: Template;
+  clauses: Template;
+  frameSize: number;
+}
+
+export class Template {
+  public readonly code: number[] = [];
+  public readonly constants: SchemeType[] = [];
+  public readonly sites: Site[] = [];
+  public readonly lambdas: Lambda[] = [];
+  public readonly guards: GuardCode[] = [];
+  public readonly quasiquotes: Array<(values: SchemeType[]) => SchemeType> = [];
+  public readonly cases: CaseTarget[][] = [];
+
+  // Runs the template in frame, passing its value to k
+  public readonly entry: Code = (frame, k) => run(this, frame, k);
+
+  public emit(op: Op, ...operands: number[]): void {
+    this.code.push(op, ...operands);
+  }
+
+  // Emits a jump with its target to be filled in by `patch`
+  public emitJump(op: Op): number {
+    this.code.push(op, -1);
+    return this.code.length - 1;
+  }
+
+  // Points the jump operand at `at` to the next instruction
+  public patch(at: number): void {
+    this.code[at] = this.code.length;
+  }
+
+  // Adds to one of the operand tables, returning the index
+  public add<T>(table: T[], item: T): number {
+    return table.push(item) - 1;
+  }
+}
+
+function unbound(site: Site, prefix: string = ""): unknown {
+  return annotate(new Error(`${prefix}Unbound variable: ${site.name}`), site.span);
+}
+
+// Runs template from pc with the given operand stack
+export function run(
+  template: Template,
+  frame: Frame,
+  k: Cont,
+  pc: number = 0,
+  stack: SchemeType[] = [],
+): SchemeType {
+  const code = template.code;
+
+  // Carries on from pc with the callee's value, when a call returns.
+  // Continuations can return more than once, so each return gets its own
+  // copy of the stack.
+  const returnTo = (pc: number): Cont => {
+    const saved = stack;
+    const savedFrame = frame;
+    return (value) => run(template, savedFrame, k, pc, [...saved, value]);
+  };
+
+  while (true) {
+    switch (code[pc++] as Op) {
+      case Op.Const:
+        stack.push(template.constants[code[pc++]]);
+        break;
+      case Op.Local: {
+        let target = frame;
+        for (let hops = code[pc++]; hops > 0; hops--) {
+          target = target.parent as Frame;
+        }
+        const value = target.slots[code[pc++]];
+        const site = template.sites[code[pc++]];
+        // Internal definitions are unassigned until they run
+        if (value === undefined) throw unbound(site);
+        stack.push(value);
+        break;
+      }
+      case Op.Global: {
+        const site = template.sites[code[pc++]];
+        const value = frame.global.lookup(site.global);
+        if (value === null && frame.global.findFrame(site.global) === null) {
+          throw unbound(site);
+        }
+        stack.push(value);
+        break;
+      }
+      case Op.SetLocal: {
+        let target = frame;
+        for (let hops = code[pc++]; hops > 0; hops--) {
+          target = target.parent as Frame;
+        }
+        const index = code[pc++];
+        const site = template.sites[code[pc++]];
+        if (target.slots[index] === undefined) throw unbound(site, "set!: ");
+        target.slots[index] = stack[stack.length - 1];
+        break;
+      }
+      case Op.SetGlobal: {
+        const site = template.sites[code[pc++]];
+        const target = frame.global.findFrame(site.global);
+        if (target === null) throw unbound(site, "set!: ");
+        target.set(site.global, stack[stack.length - 1]);
+        break;
+      }
+      case Op.DefineLocal:
+      case Op.DefineGlobal: {
+        const index = code[pc - 1] === Op.DefineLocal ? code[pc++] : -1;
+        const site = template.sites[code[pc++]];
+        const value = stack.pop() as SchemeType;
+        if (value instanceof SchemeClosure && value.name === null) {
+          value.name = site.name;
+        }
+        if (index >= 0) {
+          frame.slots[index] = value;
+        } else {
+          frame.global.set(site.global, value);
+        }
+        stack.push(SchemeId.of(site.name));
+        break;
+      }
+      case Op.Pop:
+        stack.pop();
+        break;
+      case Op.Dup:
+        stack.push(stack[stack.length - 1]);
+        break;
+      case Op.Swap: {
+        const top = stack[stack.length - 1];
+        stack[stack.length - 1] = stack[stack.length - 2];
+        stack[stack.length - 2] = top;
+        break;
+      }
+      case Op.Jump:
+        pc = code[pc];
+        break;
+      case Op.JumpIfFalse:
+        pc = stack.pop() === false ? code[pc] : pc + 1;
+        break;
+      case Op.JumpIfTrueKeep:
+      case Op.JumpIfFalseKeep: {
+        const jumpOn = code[pc - 1] === Op.JumpIfFalseKeep;
+        if ((stack[stack.length - 1] === false) === jumpOn) {
+          pc = code[pc];
+        } else {
+          stack.pop();
+          pc++;
+        }
+        break;
+      }
+      case Op.Closure: {
+        const lambda = template.lambdas[code[pc++]];
+        stack.push(
+          new SchemeClosure(
+            lambda.params,
+            lambda.restParam,
+            lambda.frameSize,
+            lambda.template.entry,
+            frame,
+          ),
+        );
+        break;
+      }
+      case Op.Call:
+      case Op.TailCall: {
+        const tail = code[pc - 1] === Op.TailCall;
+        const args = stack.splice(stack.length - code[pc++]);
+        const site = template.sites[code[pc++]];
+        const func = stack.pop() as SchemeType;
+        return invoke(func, args, tail ? k : returnTo(pc), site.span, tail);
+      }
+      case Op.Return:
+        return resume(k, stack.pop() as SchemeType);
+      case Op.Guard: {
+        const { body, clauses, frameSize } = template.guards[code[pc++]];
+        return guard(
+          (bodyK) => run(body, frame, bodyK),
+          (condition, clauseK) => {
+            const clauseFrame = new Frame(frame, frameSize);
+            clauseFrame.slots[0] = condition;
+            return run(clauses, clauseFrame, clauseK);
+          },
+          returnTo(pc),
+        );
+      }
+      case Op.Reraise:
+        return raise(stack.pop() as SchemeType, true, k);
+      case Op.Quasiquote: {
+        const build = template.quasiquotes[code[pc++]];
+        stack.push(build(stack.splice(stack.length - code[pc++])));
+        break;
+      }
+      case Op.Enter: {
+        const entered = new Frame(frame, code[pc++]);
+        const values = stack.splice(stack.length - code[pc++]);
+        values.forEach((value, i) => (entered.slots[i] = value));
+        frame = entered;
+        break;
+      }
+      case Op.Leave:
+        frame = frame.parent as Frame;
+        break;
+      case Op.Case: {
+        const clauses = template.cases[code[pc++]];
+        const key = stack[stack.length - 1];
+        const match = clauses.find(({ data }) =>
+          data.some((datum) => isEqv(datum, key)),
+        );
+        if (match !== undefined) pc = match.target;
+        break;
+      }
+      default:
+        throw new Error(`Bad opcode ${code[pc - 1]} at ${pc - 1}`);
+    }
+  }
+}